@@ -81,30 +81,6 @@ async function main() {
     });
     console.log('Session created!\n');
 
-    // Listen for session updates
-    session.on('update', (update) => {
-      if (update.type === 'agent_message_chunk') {
-        // Stream agent messages to stdout
-        const content = update.content;
-        if (content.type === 'text') {
-          process.stdout.write(content.text);
-        }
-      } else if (update.type === 'tool_call') {
-        // Display tool calls
-        console.log(`\n[Tool Call: ${update.title || 'Unnamed'}]`);
-        if (update.status === 'complete') {
-          console.log(`[Tool Call Complete]\n`);
-        } else if (update.status === 'failed') {
-          console.log(`[Tool Call Failed: ${update.errorMessage}]\n`);
-        }
-      } else if (update.type === 'thinking') {
-        // Display thinking updates
-        if (update.thinking) {
-          console.log(`[Thinking: ${update.thinking}]`);
-        }
-      }
-    });
-
     // Set up readline for interactive input
     const rl = readline.createInterface({
       input: process.stdin,
@@ -132,8 +108,30 @@ async function main() {
       }
 
       try {
-        // Send prompt to agent
-        await session.prompt([{ type: 'text', text: trimmed }]);
+        // Send prompt to agent and print what it sends back
+        for await (const event of session.promptStream([{ type: 'text', text: trimmed }])) {
+          switch (event.type) {
+            case 'message_delta':
+              process.stdout.write(event.text);
+              break;
+            case 'thought_delta':
+              console.log(`[Thinking: ${event.text}]`);
+              break;
+            case 'tool_call_started':
+              console.log(`\n[Tool Call: ${event.toolCall.tool}]`);
+              break;
+            case 'tool_call_updated':
+              if (event.toolCall.status === 'completed') {
+                console.log(`[Tool Call Complete]\n`);
+              } else if (event.toolCall.status === 'failed') {
+                console.log(`[Tool Call Failed: ${event.toolCall.error}]\n`);
+              }
+              break;
+            case 'result':
+              console.log(`\n[${event.result.stopReason}]`);
+              break;
+          }
+        }
       } catch (error) {
         console.error(`\nError: ${(error as Error).message}`);
       }
@@ -8,7 +8,7 @@
  */
 
 import { EventEmitter } from "eventemitter3";
-import type { Transport } from "../transport/types.js";
+import type { RequestOptions, Transport } from "../transport/types.js";
 import type {
   JsonRpcRequest,
   JsonRpcResponse,
@@ -17,12 +17,17 @@ import type {
   SessionUpdate,
   PermissionOption,
   SessionMode,
+  SessionModeInfo,
+  ModeChangeData,
   TerminalExitStatus,
   TerminalSignal,
   ToolCallId,
   StopReason,
+  ContentBlock,
   InitializeRequest,
   InitializeResponse,
+  AuthenticateRequest,
+  AuthenticateResponse,
   SessionNewRequest,
   SessionNewResponse,
   SessionLoadRequest,
@@ -30,14 +35,47 @@ import type {
   SessionPromptRequest,
   SessionPromptResponse,
   SessionCancelParams,
+  SessionSetModeRequest,
+  SessionSetModeResponse,
+  SessionSetConfigOptionRequest,
+  SessionSetConfigOptionResponse,
+  ConfigOptionChangeData,
   RequestPermissionRequest,
   RequestPermissionResponse,
+  AvailableCommand,
+} from "../types/index.js";
+import {
+  InitializeRequestSchema,
+  AuthenticateRequestSchema,
+  SessionNewRequestSchema,
+  SessionLoadRequestSchema,
+  SessionPromptRequestSchema,
+  SessionCancelParamsSchema,
+  SessionSetModeRequestSchema,
+  SessionSetConfigOptionRequestSchema,
 } from "../types/index.js";
 import {
-  ErrorCodes,
   isJsonRpcRequest,
   isJsonRpcNotification,
 } from "../types/jsonrpc.js";
+import {
+  AuthRequiredError,
+  CapabilityNotSupportedError,
+  InvalidParamsError,
+  InvalidRequestError,
+  InvalidSessionStateError,
+  RateLimitedError,
+  SessionNotFoundError,
+  TimeoutError,
+  fromJsonRpcError,
+} from "../protocol/errors.js";
+import {
+  ProtocolHandler,
+  type Middleware,
+  type RequestHandler,
+  type NotificationHandler,
+} from "../protocol/handler.js";
+import { parseParams } from "../protocol/message.js";
 import type {
   ACPAgentOptions,
   ACPAgentEvents,
@@ -45,8 +83,73 @@ import type {
   AgentPermissionOutcome,
   SessionData,
   ClientData,
+  CommandDefinition,
+  ModeDefinition,
+  ToolDefinition,
+  ToolSchema,
 } from "./types.js";
-import { AgentSession, type SessionRequestHandler } from "./AgentSession.js";
+import {
+  AgentSession,
+  type AgentSessionOptions,
+  type SessionRequestHandler,
+} from "./AgentSession.js";
+import {
+  isValidCommandName,
+  parseCommandPrompt,
+  splitCommandArgs,
+} from "./commands.js";
+import {
+  getConfigDefaults,
+  parseConfigValue,
+  validateConfigValue,
+} from "./config.js";
+import { describeTools } from "./tools.js";
+import { decodeAttachments } from "./attachments.js";
+
+/**
+ * Default timeout for requests sent to the client, in milliseconds.
+ */
+const DEFAULT_REQUEST_TIMEOUT = 30000;
+
+/**
+ * Built-in per-method timeouts, in milliseconds (0 = no timeout).
+ */
+const DEFAULT_REQUEST_TIMEOUTS: Record<string, number> = {
+  // Waits for the user to decide
+  "session/request_permission": 5 * 60 * 1000,
+  // Bounded by the timeout passed with the request
+  "terminal/wait_for_exit": 0,
+};
+
+/**
+ * Client methods that are safe to send again after a timeout.
+ */
+const IDEMPOTENT_METHODS: ReadonlySet<string> = new Set([
+  "fs/read_text_file",
+  "terminal/output",
+]);
+
+/**
+ * A request sent to the client that is waiting for its response.
+ */
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  /** Timer rejecting the request when it takes too long */
+  timeout?: ReturnType<typeof setTimeout>;
+  /** Stops listening for the abort of the request's signal */
+  removeAbortListener?: () => void;
+}
+
+/**
+ * A prompt waiting for the running prompt in its session to finish.
+ */
+interface QueuedPrompt {
+  /** Prompt content */
+  content: ContentBlock[];
+  /** Start the prompt (true) or drop it as cancelled (false) */
+  start: (proceed: boolean) => void;
+}
 
 /**
  * ACP Agent for handling client connections and processing prompts.
@@ -89,20 +192,30 @@ export class ACPAgent implements SessionRequestHandler {
   private transport: Transport;
   private options: ACPAgentOptions;
   private emitter = new EventEmitter<ACPAgentEvents>();
+  private protocol: ProtocolHandler;
 
   private sessions = new Map<SessionId, AgentSession>();
+  /** Queued prompts per session; an entry exists while a prompt is running */
+  private promptQueues = new Map<SessionId, QueuedPrompt[]>();
+  /** Terminals created on the client and not released yet */
+  private openTerminals = new Set<string>();
+  /** Terminal slots in use, including terminals still being created */
+  private terminalSlots = 0;
+  /** Terminal creations waiting for a slot under the client's limit */
+  private terminalWaiters: Array<{
+    resolve: () => void;
+    reject: (error: Error) => void;
+  }> = [];
   private _clientData: ClientData | null = null;
   private promptHandler: PromptHandler | null = null;
+  private commands = new Map<string, CommandDefinition>();
+  private modes = new Map<SessionMode, ModeDefinition>();
+  private tools = new Map<string, ToolDefinition>();
   private requestIdCounter = 0;
-  private pendingRequests = new Map<
-    number | string,
-    {
-      resolve: (result: unknown) => void;
-      reject: (error: Error) => void;
-    }
-  >();
+  private pendingRequests = new Map<number | string, PendingRequest>();
   private initialized = false;
   private running = false;
+  private authState: { method: string; expiresAt?: number } | null = null;
 
   /**
    * Create a new ACPAgent.
@@ -113,6 +226,15 @@ export class ACPAgent implements SessionRequestHandler {
   constructor(transport: Transport, options: ACPAgentOptions) {
     this.transport = transport;
     this.options = options;
+    this.protocol = new ProtocolHandler({
+      onNotificationError: (_method, error) => {
+        this.emitter.emit(
+          "error",
+          error instanceof Error ? error : new Error(String(error))
+        );
+      },
+    });
+    this.registerHandlers();
   }
 
   // ===========================================================================
@@ -152,14 +274,20 @@ export class ACPAgent implements SessionRequestHandler {
     // Clear all sessions
     for (const session of this.sessions.values()) {
       session.markCancelled();
+      this.dropQueuedPrompts(session);
     }
     this.sessions.clear();
 
+    this.openTerminals.clear();
+    this.terminalSlots = 0;
+    for (const waiter of this.terminalWaiters.splice(0)) {
+      waiter.reject(new Error("Agent stopped"));
+    }
+
     // Reject pending requests
-    for (const [, pending] of this.pendingRequests) {
-      pending.reject(new Error("Agent stopped"));
+    for (const id of [...this.pendingRequests.keys()]) {
+      this.takePendingRequest(id)?.reject(new Error("Agent stopped"));
     }
-    this.pendingRequests.clear();
 
     // Close transport
     await this.transport.close();
@@ -180,6 +308,209 @@ export class ACPAgent implements SessionRequestHandler {
     this.promptHandler = handler;
   }
 
+  /**
+   * Register a session mode.
+   *
+   * Registered modes are advertised to clients alongside the modes listed in
+   * `capabilities.session.modes`. A mode can route prompts to its own handler
+   * and restrict which tool kinds sessions may use while in it.
+   *
+   * @param mode - Mode definition
+   * @throws Error if a mode with the same id is already registered
+   *
+   * @example
+   * ```typescript
+   * agent.registerMode({
+   *   id: 'plan',
+   *   label: 'Plan',
+   *   description: 'Explore the code and propose a plan without changing it',
+   *   promptHandler: planner,
+   *   allowedToolKinds: ['read', 'search', 'think']
+   * });
+   * ```
+   */
+  registerMode(mode: ModeDefinition): void {
+    if (this.modes.has(mode.id)) {
+      throw new Error(`Mode already registered: ${mode.id}`);
+    }
+
+    this.modes.set(mode.id, mode);
+  }
+
+  /**
+   * Get the registered mode definitions.
+   */
+  getModes(): ModeDefinition[] {
+    return [...this.modes.values()];
+  }
+
+  /**
+   * Register a slash command.
+   *
+   * Prompts whose first text block starts with `/name` are routed to the
+   * command's handler instead of the prompt handler. Commands are advertised
+   * to every session with an `available_commands` update.
+   *
+   * @param command - Command definition
+   * @throws Error if the name is invalid or already registered
+   *
+   * @example
+   * ```typescript
+   * agent.registerCommand({
+   *   name: 'review',
+   *   description: 'Review a file for bugs',
+   *   args: '<path>',
+   *   modes: ['code'],
+   *   async handler(session, { args }) {
+   *     const content = await session.readFile(args[0]);
+   *     await session.sendAgentMessage(await review(content));
+   *     return 'end_turn';
+   *   }
+   * });
+   * ```
+   */
+  registerCommand(command: CommandDefinition): void {
+    if (!isValidCommandName(command.name)) {
+      throw new Error(`Invalid command name: ${command.name}`);
+    }
+    if (this.commands.has(command.name)) {
+      throw new Error(`Command already registered: ${command.name}`);
+    }
+
+    this.commands.set(command.name, command);
+    this.advertiseCommandsToAll();
+  }
+
+  /**
+   * Remove a slash command.
+   *
+   * @param name - Command name (without slash)
+   * @returns True if the command was registered
+   */
+  unregisterCommand(name: string): boolean {
+    const removed = this.commands.delete(name);
+    if (removed) {
+      this.advertiseCommandsToAll();
+    }
+    return removed;
+  }
+
+  /**
+   * Get the commands available in a session mode.
+   *
+   * @param mode - Session mode (default: "default")
+   */
+  getCommands(mode: SessionMode = "default"): AvailableCommand[] {
+    const available: AvailableCommand[] = [];
+    for (const command of this.commands.values()) {
+      if (command.modes && !command.modes.includes(mode)) {
+        continue;
+      }
+
+      const entry: AvailableCommand = {
+        name: command.name,
+        description: command.description,
+      };
+      if (command.args !== undefined) {
+        entry.args = command.args;
+      }
+      available.push(entry);
+    }
+    return available;
+  }
+
+  /**
+   * Register a tool that sessions can run with `session.runTool()`.
+   *
+   * Inputs are validated against the tool's zod schema before it runs, and
+   * each run is reported to the client as a tool call. Use
+   * `getToolSchemas()` to describe the registered tools to a model.
+   *
+   * @param tool - Tool definition
+   * @throws Error if a tool with the same name is already registered
+   *
+   * @example
+   * ```typescript
+   * agent.registerTool({
+   *   name: 'read_file',
+   *   description: 'Read a file from the workspace',
+   *   kind: 'read',
+   *   inputSchema: z.object({ path: z.string() }),
+   *   async execute({ path }, { session }) {
+   *     return session.readFile(path);
+   *   }
+   * });
+   * ```
+   */
+  registerTool<TInput>(tool: ToolDefinition<TInput>): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+
+    this.tools.set(tool.name, tool);
+  }
+
+  /**
+   * Describe the registered tools with JSON Schema inputs, for model providers.
+   *
+   * @param mode - When given, only tools whose kind is allowed in this mode
+   */
+  getToolSchemas(mode?: SessionMode): ToolSchema[] {
+    const allowed =
+      mode === undefined ? undefined : this.modes.get(mode)?.allowedToolKinds;
+    return describeTools(this.tools.values(), allowed);
+  }
+
+  /**
+   * Add a middleware that sees every incoming request and notification.
+   *
+   * @param middleware - Koa-style middleware function
+   *
+   * @example
+   * ```typescript
+   * agent.use(async (ctx, next) => {
+   *   const start = Date.now();
+   *   try {
+   *     await next();
+   *   } finally {
+   *     metrics.timing(ctx.method, Date.now() - start);
+   *   }
+   * });
+   * ```
+   */
+  use(middleware: Middleware): void {
+    this.protocol.use(middleware);
+  }
+
+  /**
+   * Register a handler for a request method.
+   * Can be used for custom methods or to replace a built-in handler.
+   *
+   * @param method - The method name
+   * @param handler - Handler that receives the raw params and returns the result
+   *
+   * @example
+   * ```typescript
+   * agent.onRequest('_myagent/status', async () => ({
+   *   sessions: agent.getSessions().length
+   * }));
+   * ```
+   */
+  onRequest(method: string, handler: RequestHandler): void {
+    this.protocol.onRequest(method, handler);
+  }
+
+  /**
+   * Register a handler for a notification method.
+   * Can be used for custom notifications or to replace a built-in handler.
+   *
+   * @param method - The method name
+   * @param handler - Handler that receives the raw params
+   */
+  onNotification(method: string, handler: NotificationHandler): void {
+    this.protocol.onNotification(method, handler);
+  }
+
   // ===========================================================================
   // Event Handling
   // ===========================================================================
@@ -243,72 +574,146 @@ export class ACPAgent implements SessionRequestHandler {
   }
 
   private async handleRequest(request: JsonRpcRequest): Promise<void> {
-    try {
-      const result = await this.processRequest(request);
-      await this.sendResponse(request.id, result);
-    } catch (error) {
-      await this.sendErrorResponse(
-        request.id,
-        error instanceof Error ? error.message : String(error),
-        ErrorCodes.InternalError
-      );
+    const response = await this.protocol.handleMessage(request);
+    if (response) {
+      await this.sendResponse(response);
     }
-  }
-
-  private async processRequest(request: JsonRpcRequest): Promise<unknown> {
-    switch (request.method) {
-      case "initialize":
-        return this.handleInitialize(request.params as InitializeRequest);
-
-      case "session/new":
-        return this.handleSessionNew(request.params as SessionNewRequest);
-
-      case "session/load":
-        return this.handleSessionLoad(request.params as SessionLoadRequest);
 
-      case "session/prompt":
-        return this.handleSessionPrompt(request.params as SessionPromptRequest);
-
-      default:
-        throw new Error(`Method not found: ${request.method}`);
+    // The client only knows the new session once it has the response
+    if (request.method === "session/new" && response?.result) {
+      const { sessionId } = response.result as SessionNewResponse;
+      const session = this.sessions.get(sessionId);
+      if (session && this.commands.size > 0) {
+        await this.advertiseCommands(session);
+      }
     }
   }
 
   private async handleNotification(
     notification: JsonRpcNotification
   ): Promise<void> {
-    switch (notification.method) {
-      case "session/cancel":
-        await this.handleSessionCancel(
-          notification.params as SessionCancelParams
-        );
-        break;
+    await this.protocol.handleMessage(notification);
+  }
 
-      default:
-        // Unknown notification - ignore
-        break;
-    }
+  /**
+   * Register the built-in protocol method handlers.
+   */
+  private registerHandlers(): void {
+    this.protocol.onRequest("initialize", (params) =>
+      this.handleInitialize(
+        parseParams<InitializeRequest>(
+          "initialize",
+          InitializeRequestSchema,
+          params
+        )
+      )
+    );
+
+    this.protocol.onRequest("authenticate", (params) =>
+      this.handleAuthenticate(
+        parseParams<AuthenticateRequest>(
+          "authenticate",
+          AuthenticateRequestSchema,
+          params
+        )
+      )
+    );
+
+    this.protocol.onRequest("session/new", (params) =>
+      this.handleSessionNew(
+        parseParams<SessionNewRequest>(
+          "session/new",
+          SessionNewRequestSchema,
+          params
+        )
+      )
+    );
+
+    this.protocol.onRequest("session/load", (params) =>
+      this.handleSessionLoad(
+        parseParams<SessionLoadRequest>(
+          "session/load",
+          SessionLoadRequestSchema,
+          params
+        )
+      )
+    );
+
+    this.protocol.onRequest("session/prompt", (params) =>
+      this.handleSessionPrompt(
+        parseParams<SessionPromptRequest>(
+          "session/prompt",
+          SessionPromptRequestSchema,
+          params
+        )
+      )
+    );
+
+    this.protocol.onRequest("session/set_mode", (params) =>
+      this.handleSessionSetMode(
+        parseParams<SessionSetModeRequest>(
+          "session/set_mode",
+          SessionSetModeRequestSchema,
+          params
+        )
+      )
+    );
+
+    this.protocol.onRequest("session/set_config_option", (params) =>
+      this.handleSessionSetConfigOption(
+        parseParams<SessionSetConfigOptionRequest>(
+          "session/set_config_option",
+          SessionSetConfigOptionRequestSchema,
+          params
+        )
+      )
+    );
+
+    this.protocol.onNotification("session/cancel", (params) =>
+      this.handleSessionCancel(
+        parseParams<SessionCancelParams>(
+          "session/cancel",
+          SessionCancelParamsSchema,
+          params
+        )
+      )
+    );
   }
 
   private handleResponse(response: JsonRpcResponse): void {
     if (response.id === null) {
+      // The client couldn't tell which request failed, e.g. a parse error
+      if (response.error) {
+        this.emitter.emit("error", fromJsonRpcError(response.error));
+      }
       return;
     }
 
-    const pending = this.pendingRequests.get(response.id);
+    const pending = this.takePendingRequest(response.id);
     if (!pending) {
       return;
     }
 
-    this.pendingRequests.delete(response.id);
-
     if (response.error) {
-      pending.reject(new Error(response.error.message));
+      pending.reject(fromJsonRpcError(response.error));
     } else {
       pending.resolve(response.result);
     }
   }
 
+  /**
+   * Remove a pending request and stop its timeout timer and abort listener.
+   */
+  private takePendingRequest(id: number | string): PendingRequest | undefined {
+    const pending = this.pendingRequests.get(id);
+    if (pending) {
+      clearTimeout(pending.timeout);
+      pending.removeAbortListener?.();
+      this.pendingRequests.delete(id);
+    }
+    return pending;
+  }
+
   // ===========================================================================
   // Protocol Handlers
   // ===========================================================================
@@ -353,7 +758,28 @@ export class ACPAgent implements SessionRequestHandler {
       capabilities.sessionCapabilities = this.options.capabilities.session;
     }
 
-    return {
+    if (this.modes.size > 0) {
+      capabilities.sessionCapabilities = {
+        ...capabilities.sessionCapabilities,
+        modes: this.getAvailableModes(),
+      };
+    }
+
+    if (this.options.configOptions?.length) {
+      capabilities.sessionCapabilities = {
+        ...capabilities.sessionCapabilities,
+        configOptions: this.getConfigOptionKeys(),
+      };
+    }
+
+    if (this.options.sessionStore) {
+      capabilities.sessionCapabilities = {
+        ...capabilities.sessionCapabilities,
+        persistence: true,
+      };
+    }
+
+    const response: InitializeResponse = {
       protocolVersion: params.protocolVersion,
       agentInfo: {
         name: this.options.name,
@@ -361,12 +787,66 @@ export class ACPAgent implements SessionRequestHandler {
       },
       capabilities,
     };
+
+    if (this.options.auth) {
+      response.authMethods = this.options.auth.strategies.map((strategy) => ({
+        id: strategy.method,
+        ...(strategy.description !== undefined && {
+          description: strategy.description,
+        }),
+      }));
+    }
+
+    return response;
+  }
+
+  private async handleAuthenticate(
+    params: AuthenticateRequest
+  ): Promise<AuthenticateResponse> {
+    this.ensureInitialized();
+
+    const strategies = this.options.auth?.strategies ?? [];
+    const strategy = strategies.find((s) => s.method === params.method);
+    if (!strategy) {
+      throw new InvalidParamsError(
+        `Unsupported authentication method: ${params.method}`,
+        {
+          method: params.method,
+          availableMethods: strategies.map((s) => s.method),
+        }
+      );
+    }
+
+    const result = await strategy.authenticate(params.credentials);
+    if (!result.success) {
+      // A failed attempt doesn't end an existing authentication
+      return result;
+    }
+
+    const authState: { method: string; expiresAt?: number } = {
+      method: strategy.method,
+    };
+    if (result.expiresAt !== undefined) {
+      const expiresAt = Date.parse(result.expiresAt);
+      if (!Number.isFinite(expiresAt)) {
+        throw new Error(
+          `Authentication method ${strategy.method} returned an invalid expiresAt: ${result.expiresAt}`
+        );
+      }
+      authState.expiresAt = expiresAt;
+    }
+    this.authState = authState;
+
+    this.emitter.emit("authenticated", strategy.method, result.expiresAt);
+
+    return result;
   }
 
   private async handleSessionNew(
     params: SessionNewRequest
   ): Promise<SessionNewResponse> {
     this.ensureInitialized();
+    this.ensureAuthenticated();
 
     const sessionId = this.generateSessionId();
     const createdAt = new Date().toISOString();
@@ -375,7 +855,7 @@ export class ACPAgent implements SessionRequestHandler {
       id: sessionId,
       workingDirectory: params.workingDirectory,
       mcpServers: params.mcpServers ?? [],
-      configOptions: params.configOptions ?? {},
+      configOptions: this.resolveInitialConfig(params.configOptions ?? {}),
       createdAt,
       cancelled: false,
       messageCount: 0,
@@ -386,65 +866,144 @@ export class ACPAgent implements SessionRequestHandler {
     }
 
     if (params.initialMode !== undefined) {
+      this.ensureKnownMode(params.initialMode);
       sessionData.currentMode = params.initialMode;
     }
 
-    const session = new AgentSession(this, sessionData);
+    const session = this.createAgentSession(sessionData);
     this.sessions.set(sessionId, session);
+    await this.persistSession(session);
 
     this.emitter.emit("sessionCreated", session);
 
-    return {
+    const response: SessionNewResponse = {
       sessionId,
       createdAt,
     };
+    if (this.options.configOptions?.length) {
+      response.configOptions = this.options.configOptions;
+    }
+    if (this.modes.size > 0) {
+      response.modes = [...this.modes.keys()].map(
+        (id) => this.describeMode(id) as SessionModeInfo
+      );
+    }
+
+    return response;
   }
 
   private async handleSessionLoad(
     params: SessionLoadRequest
   ): Promise<SessionLoadResponse> {
     this.ensureInitialized();
+    this.ensureAuthenticated();
 
-    // Check if session exists (in a real implementation, load from storage)
-    const existingSession = this.sessions.get(params.sessionId);
+    const existingSession = await this.restoreSession(params.sessionId);
     if (!existingSession) {
-      throw new Error(`Session not found: ${params.sessionId}`);
+      throw new SessionNotFoundError(params.sessionId);
     }
 
     const data = existingSession.getData();
+    const mode = this.resolveMode(data.currentMode);
+    if (data.currentMode !== undefined && mode !== data.currentMode) {
+      existingSession.updateData({ currentMode: mode });
+    }
+
+    // Replay the conversation so the client can rebuild its view of the session
+    for (const update of existingSession.history) {
+      await this.sendSessionUpdate(existingSession.id, update);
+    }
+    if (this.commands.size > 0) {
+      await this.advertiseCommands(existingSession);
+    }
 
     this.emitter.emit("sessionLoaded", existingSession);
 
-    return {
+    const response: SessionLoadResponse = {
       sessionId: params.sessionId,
       workingDirectory: data.workingDirectory,
-      mode: data.currentMode ?? "default",
+      mode,
       configOptions: data.configOptions,
       messageCount: data.messageCount,
     };
+    if (data.usage) {
+      response.usage = data.usage;
+    }
+    return response;
   }
 
   private async handleSessionPrompt(
     params: SessionPromptRequest
   ): Promise<SessionPromptResponse> {
     this.ensureInitialized();
+    this.ensureAuthenticated();
 
     const session = this.sessions.get(params.sessionId);
     if (!session) {
-      throw new Error(`Session not found: ${params.sessionId}`);
+      throw new SessionNotFoundError(params.sessionId);
     }
 
-    if (!this.promptHandler) {
-      throw new Error("No prompt handler configured");
+    if (
+      !this.getPromptHandler(session) &&
+      !this.findCommand(session, params.content)
+    ) {
+      throw new InvalidSessionStateError(session.id, "no prompt handler configured");
     }
 
+    const attachments = this.decodePromptAttachments(params);
+
+    const started = await this.acquirePromptTurn(session, params.content);
+    if (!started) {
+      return { stopReason: "cancelled" };
+    }
+
+    try {
+      return await this.runPromptTurn(session, params, attachments);
+    } finally {
+      this.releasePromptTurn(session);
+    }
+  }
+
+  /**
+   * Run a single prompt turn through a slash command or the prompt handler.
+   */
+  private async runPromptTurn(
+    session: AgentSession,
+    params: SessionPromptRequest,
+    attachments: ContentBlock[]
+  ): Promise<SessionPromptResponse> {
+    // Resolved when the turn starts, since queued prompts may run in another mode
+    const command = this.findCommand(session, params.content);
+    const promptHandler = this.getPromptHandler(session);
+    let handle: () => Promise<StopReason>;
+    if (command) {
+      handle = () =>
+        command.definition.handler(session, {
+          name: command.definition.name,
+          args: splitCommandArgs(command.argsText),
+          argsText: command.argsText,
+          content: params.content,
+          attachments,
+        });
+    } else if (promptHandler) {
+      handle = () =>
+        promptHandler.handlePrompt(session, params.content, attachments);
+    } else {
+      throw new InvalidSessionStateError(session.id, "no prompt handler configured");
+    }
+
+    // Cancellation and usage only apply to the turn they were reported for
+    session.startTurn();
+
+    this.recordUserMessage(session, params.content);
+
     // Emit prompt event
     this.emitter.emit("prompt", session, params.content);
 
     // Process the prompt
     let stopReason: StopReason;
     try {
-      stopReason = await this.promptHandler.handlePrompt(session, params.content);
+      stopReason = await handle();
     } catch (error) {
       if (session.isCancelled) {
         stopReason = "cancelled";
@@ -453,15 +1012,121 @@ export class ACPAgent implements SessionRequestHandler {
       }
     }
 
+    await session.endTurn();
+
     // Update message count
     session.updateData({
       messageCount: session.getData().messageCount + 1,
     });
+    await this.persistSession(session);
+
+    const response: SessionPromptResponse = { stopReason };
+    const usage = session.turnUsage;
+    if (usage) {
+      response.usage = usage;
+    }
+
+    return response;
+  }
+
+  /**
+   * Decode a prompt's attachments, if the agent accepts attachments.
+   */
+  private decodePromptAttachments(params: SessionPromptRequest): ContentBlock[] {
+    const attachments = params.attachments ?? [];
+    if (attachments.length === 0) {
+      return [];
+    }
+    if (!this.options.capabilities?.prompt?.attachments) {
+      throw new CapabilityNotSupportedError("prompt.attachments");
+    }
+    return decodeAttachments(attachments, this.options.attachments);
+  }
+
+  private async handleSessionSetMode(
+    params: SessionSetModeRequest
+  ): Promise<SessionSetModeResponse> {
+    this.ensureInitialized();
+    this.ensureAuthenticated();
+
+    const session = this.sessions.get(params.sessionId);
+    if (!session) {
+      throw new SessionNotFoundError(params.sessionId);
+    }
+
+    const previousMode = session.currentMode ?? "default";
 
-    return {
-      stopReason,
-      // Usage would be tracked and returned here in a real implementation
+    // Routes through setSessionMode() below and sends current_mode_update
+    await session.setMode(params.mode);
+
+    const response: SessionSetModeResponse = {
+      previousMode,
+      currentMode: params.mode,
     };
+    const mode = this.describeMode(params.mode);
+    if (mode) {
+      response.mode = mode;
+    }
+    return response;
+  }
+
+  private async handleSessionSetConfigOption(
+    params: SessionSetConfigOptionRequest
+  ): Promise<SessionSetConfigOptionResponse> {
+    this.ensureInitialized();
+    this.ensureAuthenticated();
+
+    const session = this.sessions.get(params.sessionId);
+    if (!session) {
+      throw new SessionNotFoundError(params.sessionId);
+    }
+
+    const configOptions = this.getConfigOptionKeys();
+    if (!configOptions.includes(params.key)) {
+      throw new InvalidParamsError(`Unknown config option: ${params.key}`, {
+        key: params.key,
+        availableOptions: configOptions,
+      });
+    }
+    const value = this.validateConfigValue(params.key, params.value);
+
+    const data = session.getData();
+    const previousValue = data.configOptions[params.key];
+
+    session.updateData({
+      configOptions: { ...data.configOptions, [params.key]: value },
+    });
+    await this.persistSession(session);
+
+    const change: ConfigOptionChangeData = {
+      key: params.key,
+      currentValue: value,
+      source: "user",
+    };
+
+    if (previousValue !== undefined) {
+      change.previousValue = previousValue;
+    }
+
+    await session.sendUpdate({
+      sessionId: session.id,
+      type: "config_option_update",
+      data: change,
+      timestamp: new Date().toISOString(),
+    });
+
+    this.emitter.emit("configChanged", session, params.key, value, previousValue);
+
+    const response: SessionSetConfigOptionResponse = {
+      key: params.key,
+      currentValue: value,
+    };
+
+    if (previousValue !== undefined) {
+      response.previousValue = previousValue;
+    }
+
+    return response;
   }
 
   private async handleSessionCancel(params: SessionCancelParams): Promise<void> {
@@ -471,6 +1136,7 @@ export class ACPAgent implements SessionRequestHandler {
     }
 
     session.markCancelled();
+    this.dropQueuedPrompts(session);
     this.emitter.emit("cancelled", session);
   }
 
@@ -501,7 +1167,8 @@ export class ACPAgent implements SessionRequestHandler {
     resource: string,
     toolCallId: ToolCallId,
     options: PermissionOption[],
-    reason?: string
+    reason?: string,
+    signal?: AbortSignal
   ): Promise<AgentPermissionOutcome> {
     const request: RequestPermissionRequest = {
       sessionId: _sessionId,
@@ -517,7 +1184,8 @@ export class ACPAgent implements SessionRequestHandler {
 
     const response = await this.sendRequest<RequestPermissionResponse>(
       "session/request_permission",
-      request
+      request,
+      signal
     );
 
     let outcome: AgentPermissionOutcome["outcome"];
@@ -552,11 +1220,13 @@ export class ACPAgent implements SessionRequestHandler {
   async readFile(
     path: string,
     startLine?: number,
-    endLine?: number
+    endLine?: number,
+    signal?: AbortSignal
   ): Promise<string> {
     const response = await this.sendRequest<{ content: string }>(
       "fs/read_text_file",
-      { path, startLine, endLine }
+      { path, startLine, endLine },
+      signal
     );
     return response.content;
   }
@@ -564,36 +1234,60 @@ export class ACPAgent implements SessionRequestHandler {
   /**
    * Write a file to the client.
    */
-  async writeFile(path: string, content: string): Promise<void> {
-    await this.sendRequest("fs/write_text_file", { path, content });
+  async writeFile(
+    path: string,
+    content: string,
+    signal?: AbortSignal
+  ): Promise<void> {
+    await this.sendRequest("fs/write_text_file", { path, content }, signal);
   }
 
   /**
    * Create a terminal on the client.
+   *
+   * Respects the client's `terminal.maxConcurrent` limit according to the
+   * configured terminal limit policy. Aborting the signal stops waiting for
+   * a slot; a request already sent is still answered, so the terminal can
+   * be released.
    */
   async createTerminal(
     command: string,
     args?: string[],
     cwd?: string,
     env?: Record<string, string>,
-    timeout?: number
+    timeout?: number,
+    signal?: AbortSignal
   ): Promise<string> {
-    const response = await this.sendRequest<{ terminalId: string }>(
-      "terminal/create",
-      { command, args, cwd, env, timeout }
-    );
-    return response.terminalId;
+    await this.acquireTerminalSlot(signal);
+
+    let terminalId: string;
+    try {
+      const response = await this.sendRequest<{ terminalId: string }>(
+        "terminal/create",
+        { command, args, cwd, env, timeout }
+      );
+      terminalId = response.terminalId;
+    } catch (error) {
+      this.releaseTerminalSlot();
+      throw error;
+    }
+
+    this.openTerminals.add(terminalId);
+    return terminalId;
   }
 
   /**
    * Get terminal output from the client.
    */
-  async getTerminalOutput(terminalId: string): Promise<{
+  async getTerminalOutput(
+    terminalId: string,
+    signal?: AbortSignal
+  ): Promise<{
     output: string;
     truncated: boolean;
     exitStatus?: TerminalExitStatus;
   }> {
-    return this.sendRequest("terminal/output", { terminalId });
+    return this.sendRequest("terminal/output", { terminalId }, signal);
   }
 
   /**
@@ -601,13 +1295,14 @@ export class ACPAgent implements SessionRequestHandler {
    */
   async waitForTerminalExit(
     terminalId: string,
-    timeout?: number
+    timeout?: number,
+    signal?: AbortSignal
   ): Promise<TerminalExitStatus> {
     const response = await this.sendRequest<{
       exitCode: number | null;
       signal?: string;
       timedOut?: boolean;
-    }>("terminal/wait_for_exit", { terminalId, timeout });
+    }>("terminal/wait_for_exit", { terminalId, timeout }, signal);
 
     const result: TerminalExitStatus = {
       exitCode: response.exitCode,
@@ -641,21 +1336,69 @@ export class ACPAgent implements SessionRequestHandler {
    * Release a terminal.
    */
   async releaseTerminal(terminalId: string): Promise<boolean> {
-    const response = await this.sendRequest<{ released: boolean }>(
-      "terminal/release",
-      { terminalId }
-    );
-    return response.released;
+    try {
+      const response = await this.sendRequest<{ released: boolean }>(
+        "terminal/release",
+        { terminalId }
+      );
+      return response.released;
+    } finally {
+      if (this.openTerminals.delete(terminalId)) {
+        this.releaseTerminalSlot();
+      }
+    }
   }
 
   /**
    * Set session mode.
+   *
+   * Validates the mode against the advertised session modes, updates the
+   * session data and sends the client a `current_mode_update`. Listeners,
+   * the mode's commands and the session store see the change after it is
+   * in the session history.
    */
   async setSessionMode(
     sessionId: SessionId,
     mode: SessionMode
-  ): Promise<{ previousMode: SessionMode; currentMode: SessionMode }> {
-    return this.sendRequest("session/set_mode", { sessionId, mode });
+  ): Promise<{
+    previousMode: SessionMode;
+    currentMode: SessionMode;
+    mode?: SessionModeInfo;
+  }> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new SessionNotFoundError(sessionId);
+    }
+
+    if (!this.getAvailableModes().includes(mode)) {
+      throw new InvalidParamsError(`Unknown mode: ${mode}`, {
+        mode,
+        availableModes: this.getAvailableModes(),
+      });
+    }
+
+    const previousMode = session.currentMode ?? "default";
+    session.updateData({ currentMode: mode });
+
+    const data: ModeChangeData = { previousMode, currentMode: mode };
+    const info = this.describeMode(mode);
+    if (info) {
+      data.mode = info;
+    }
+    await session.sendUpdate({
+      sessionId,
+      type: "current_mode_update",
+      data,
+      timestamp: new Date().toISOString(),
+    });
+
+    this.emitter.emit("modeChanged", session, previousMode, mode);
+    if (!sameCommands(this.getCommands(previousMode), this.getCommands(mode))) {
+      await this.advertiseCommands(session);
+    }
+    await this.persistSession(session);
+
+    return data;
   }
 
   // ===========================================================================
@@ -664,7 +1407,389 @@ export class ACPAgent implements SessionRequestHandler {
 
   private ensureInitialized(): void {
     if (!this.initialized) {
-      throw new Error("Agent not initialized");
+      throw new InvalidRequestError("Agent not initialized");
+    }
+  }
+
+  private ensureAuthenticated(): void {
+    if (!this.options.auth || this.options.auth.required === false) {
+      return;
+    }
+
+    if (!this.authState) {
+      throw new AuthRequiredError();
+    }
+
+    if (
+      this.authState.expiresAt !== undefined &&
+      Date.now() >= this.authState.expiresAt
+    ) {
+      this.authState = null;
+      throw new AuthRequiredError("Authentication expired");
+    }
+  }
+
+  /**
+   * Find a session in memory, falling back to the session store.
+   * Sessions loaded from the store are rehydrated and kept in memory.
+   */
+  private async restoreSession(
+    sessionId: SessionId
+  ): Promise<AgentSession | undefined> {
+    const existing = this.sessions.get(sessionId);
+    if (existing || !this.options.sessionStore) {
+      return existing;
+    }
+
+    const stored = await this.options.sessionStore.load(sessionId);
+    if (!stored) {
+      return undefined;
+    }
+
+    const session = this.createAgentSession({ ...stored, cancelled: false });
+    this.sessions.set(sessionId, session);
+    return session;
+  }
+
+  /**
+   * Wait until the session is free to run a prompt, applying the
+   * configured concurrency policy if another prompt is running.
+   *
+   * @returns True when the prompt may start, false if it was dropped from the queue
+   */
+  private acquirePromptTurn(
+    session: AgentSession,
+    content: ContentBlock[]
+  ): Promise<boolean> {
+    const queue = this.promptQueues.get(session.id);
+    if (!queue) {
+      this.promptQueues.set(session.id, []);
+      return Promise.resolve(true);
+    }
+
+    const policy = this.options.promptConcurrency ?? "queue";
+    if (policy === "reject") {
+      throw new InvalidSessionStateError(session.id, "prompting", "idle");
+    }
+
+    if (policy === "cancel") {
+      session.markCancelled();
+      this.dropQueuedPrompts(session);
+    }
+
+    return new Promise<boolean>((resolve) => {
+      queue.push({ content, start: resolve });
+      this.emitter.emit("promptQueued", session, content, queue.length);
+    });
+  }
+
+  /**
+   * Hand the session over to the next queued prompt, if any.
+   */
+  private releasePromptTurn(session: AgentSession): void {
+    const next = this.promptQueues.get(session.id)?.shift();
+    if (next) {
+      next.start(true);
+    } else {
+      this.promptQueues.delete(session.id);
+    }
+  }
+
+  /**
+   * Drop all queued prompts for a session; they resolve as cancelled.
+   */
+  private dropQueuedPrompts(session: AgentSession): void {
+    const queue = this.promptQueues.get(session.id);
+    if (!queue) {
+      return;
+    }
+
+    for (const queued of queue.splice(0)) {
+      queued.start(false);
+      this.emitter.emit("promptDropped", session, queued.content);
+    }
+  }
+
+  /**
+   * Create an AgentSession with the agent's session options.
+   */
+  private createAgentSession(data: SessionData): AgentSession {
+    const options: AgentSessionOptions = {
+      clientCapabilities: this._clientData?.capabilities ?? {},
+      modes: this.modes,
+      tools: this.tools,
+    };
+    if (this.options.configOptions) {
+      options.configOptions = this.options.configOptions;
+    }
+    if (this.options.historyLimit !== undefined) {
+      options.historyLimit = this.options.historyLimit;
+    }
+
+    return new AgentSession(this, data, options);
+  }
+
+  /**
+   * Record the text of a prompt in the session history as user message chunks.
+   */
+  private recordUserMessage(session: AgentSession, content: ContentBlock[]): void {
+    const texts = content.flatMap((block) =>
+      block.type === "text" ? [block.text] : []
+    );
+
+    const timestamp = new Date().toISOString();
+    texts.forEach((text, index) => {
+      session.recordUpdate({
+        sessionId: session.id,
+        type: "user_message_chunk",
+        data: { content: text, index, final: index === texts.length - 1 },
+        timestamp,
+      });
+    });
+  }
+
+  /**
+   * Save a session to the session store, if one is configured.
+   */
+  private async persistSession(session: AgentSession): Promise<void> {
+    if (!this.options.sessionStore) {
+      return;
+    }
+
+    const { cancelled: _cancelled, ...data } = session.getData();
+    await this.options.sessionStore.save(data);
+  }
+
+  /**
+   * Get the config option keys clients can set: the keys listed in the
+   * agent capabilities followed by declared config options.
+   */
+  private getConfigOptionKeys(): string[] {
+    const keys = new Set(this.options.capabilities?.session?.configOptions ?? []);
+    for (const definition of this.options.configOptions ?? []) {
+      keys.add(definition.key);
+    }
+    return [...keys];
+  }
+
+  /**
+   * Convert a value to the type of its config option declaration and throw
+   * InvalidParamsError if it doesn't match the declaration.
+   *
+   * @returns The typed value
+   */
+  private validateConfigValue(key: string, value: unknown): unknown {
+    const definition = this.options.configOptions?.find((d) => d.key === key);
+    if (!definition) {
+      return value;
+    }
+
+    const parsed = parseConfigValue(definition, value);
+    const problem = validateConfigValue(definition, parsed);
+    if (problem) {
+      throw new InvalidParamsError(
+        `Invalid value for config option ${key}: ${problem}`,
+        { key, value }
+      );
+    }
+    return parsed;
+  }
+
+  /**
+   * Validate the config values sent with `session/new` and fill in defaults.
+   * Values are only checked when the agent declares config options.
+   */
+  private resolveInitialConfig(
+    values: Record<string, unknown>
+  ): Record<string, unknown> {
+    const definitions = this.options.configOptions;
+    if (!definitions?.length) {
+      return values;
+    }
+
+    const keys = this.getConfigOptionKeys();
+    const resolved = getConfigDefaults(definitions);
+    for (const [key, value] of Object.entries(values)) {
+      if (!keys.includes(key)) {
+        throw new InvalidParamsError(`Unknown config option: ${key}`, {
+          key,
+          availableOptions: keys,
+        });
+      }
+      resolved[key] = this.validateConfigValue(key, value);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Get the modes sessions can switch to: the modes listed in the agent
+   * capabilities followed by registered modes.
+   */
+  private getAvailableModes(): SessionMode[] {
+    const modes = new Set(this.options.capabilities?.session?.modes ?? []);
+    for (const id of this.modes.keys()) {
+      modes.add(id);
+    }
+    return [...modes];
+  }
+
+  /**
+   * Describe a registered mode for the client.
+   */
+  private describeMode(id: SessionMode): SessionModeInfo | undefined {
+    const definition = this.modes.get(id);
+    if (!definition) {
+      return undefined;
+    }
+
+    const info: SessionModeInfo = { id, label: definition.label };
+    if (definition.description !== undefined) {
+      info.description = definition.description;
+    }
+    return info;
+  }
+
+  /**
+   * Throw InvalidParamsError for modes the agent doesn't know.
+   * Any mode is accepted when the agent declares none.
+   */
+  private ensureKnownMode(mode: SessionMode): void {
+    const modes = this.getAvailableModes();
+    if (modes.length > 0 && !modes.includes(mode)) {
+      throw new InvalidParamsError(`Unknown mode: ${mode}`, {
+        mode,
+        availableModes: modes,
+      });
+    }
+  }
+
+  /**
+   * Get the mode a session is in, falling back to "default" when its
+   * stored mode is no longer available.
+   */
+  private resolveMode(mode: SessionMode | undefined): SessionMode {
+    if (mode === undefined) {
+      return "default";
+    }
+
+    const modes = this.getAvailableModes();
+    return modes.length === 0 || modes.includes(mode) ? mode : "default";
+  }
+
+  /**
+   * Get the prompt handler for the session's current mode.
+   */
+  private getPromptHandler(session: AgentSession): PromptHandler | null {
+    const mode = session.currentMode ?? "default";
+    return this.modes.get(mode)?.promptHandler ?? this.promptHandler;
+  }
+
+  /**
+   * Find the registered command a prompt invokes, if any.
+   * Only commands available in the session's current mode are considered.
+   */
+  private findCommand(
+    session: AgentSession,
+    content: ContentBlock[]
+  ): { definition: CommandDefinition; argsText: string } | undefined {
+    const parsed = parseCommandPrompt(content);
+    if (!parsed) {
+      return undefined;
+    }
+
+    const definition = this.commands.get(parsed.name);
+    const mode = session.currentMode ?? "default";
+    if (!definition || (definition.modes && !definition.modes.includes(mode))) {
+      return undefined;
+    }
+
+    return { definition, argsText: parsed.argsText };
+  }
+
+  /**
+   * Send the commands available in the session's mode to the client.
+   * Not recorded in the session history, since it's resent on load.
+   */
+  private async advertiseCommands(session: AgentSession): Promise<void> {
+    await this.sendSessionUpdate(session.id, {
+      sessionId: session.id,
+      type: "available_commands",
+      data: { commands: this.getCommands(session.currentMode ?? "default") },
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Advertise the current commands to every session after the set changed.
+   */
+  private advertiseCommandsToAll(): void {
+    if (!this.running) {
+      return;
+    }
+
+    for (const session of this.sessions.values()) {
+      this.advertiseCommands(session).catch((error: unknown) => {
+        this.emitter.emit(
+          "error",
+          error instanceof Error ? error : new Error(String(error))
+        );
+      });
+    }
+  }
+
+  /**
+   * Take a terminal slot, waiting or failing if the client's
+   * concurrent terminal limit is reached. Aborting the signal gives up
+   * waiting.
+   */
+  private acquireTerminalSlot(signal?: AbortSignal): Promise<void> {
+    const limit = this._clientData?.capabilities.terminal?.maxConcurrent;
+    if (limit === undefined || this.terminalSlots < limit) {
+      this.terminalSlots++;
+      return Promise.resolve();
+    }
+
+    if (this.options.terminalLimitPolicy === "reject") {
+      return Promise.reject(new RateLimitedError());
+    }
+
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason as Error);
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = (): void => {
+        const index = this.terminalWaiters.indexOf(waiter);
+        if (index !== -1) {
+          this.terminalWaiters.splice(index, 1);
+        }
+        reject(signal?.reason as Error);
+      };
+      const waiter = {
+        resolve: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+        reject: (error: Error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.terminalWaiters.push(waiter);
+    });
+  }
+
+  /**
+   * Free a terminal slot, handing it to the next waiting creation if any.
+   */
+  private releaseTerminalSlot(): void {
+    const next = this.terminalWaiters.shift();
+    if (next) {
+      next.resolve();
+    } else {
+      this.terminalSlots = Math.max(0, this.terminalSlots - 1);
     }
   }
 
@@ -672,8 +1797,46 @@ export class ACPAgent implements SessionRequestHandler {
     return `sess_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
   }
 
-  private async sendRequest<T>(method: string, params: unknown): Promise<T> {
+  /**
+   * Send a request to the client, retrying idempotent methods on timeout.
+   * Aborting the signal stops waiting for the response.
+   */
+  private async sendRequest<T>(
+    method: string,
+    params: unknown,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const retries = IDEMPOTENT_METHODS.has(method)
+      ? (this.options.requestRetries ?? 0)
+      : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.dispatchRequest<T>(method, params, signal);
+      } catch (error) {
+        if (!(error instanceof TimeoutError) || attempt >= retries) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Send a single request to the client and wait for its response.
+   * Aborting the signal rejects with its reason and forgets the request,
+   * so a late response is ignored.
+   */
+  private dispatchRequest<T>(
+    method: string,
+    params: unknown,
+    signal?: AbortSignal
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason as Error);
+    }
+
     const id = ++this.requestIdCounter;
+    const timeoutMs = this.getRequestTimeout(method);
 
     const request: JsonRpcRequest = {
       jsonrpc: "2.0",
@@ -683,60 +1846,52 @@ export class ACPAgent implements SessionRequestHandler {
     };
 
     return new Promise<T>((resolve, reject) => {
-      this.pendingRequests.set(id, {
+      const pending: PendingRequest = {
         resolve: resolve as (result: unknown) => void,
         reject,
-      });
+      };
+      if (timeoutMs > 0) {
+        pending.timeout = setTimeout(() => {
+          this.takePendingRequest(id)?.reject(new TimeoutError(method, timeoutMs));
+        }, timeoutMs);
+      }
+      if (signal) {
+        const onAbort = (): void => {
+          this.takePendingRequest(id)?.reject(signal.reason as Error);
+        };
+        signal.addEventListener("abort", onAbort, { once: true });
+        pending.removeAbortListener = () =>
+          signal.removeEventListener("abort", onAbort);
+      }
+      this.pendingRequests.set(id, pending);
 
-      this.transport.request(request).then(
-        (response) => {
-          const pending = this.pendingRequests.get(id);
-          if (pending) {
-            this.pendingRequests.delete(id);
-            if (response.error) {
-              pending.reject(new Error(response.error.message));
-            } else {
-              pending.resolve(response.result);
-            }
-          }
-        },
-        (error) => {
-          const pending = this.pendingRequests.get(id);
-          if (pending) {
-            this.pendingRequests.delete(id);
-            pending.reject(error);
-          }
-        }
+      // The transport times out with the same timeout, so its own default
+      // can't cut requests short, and forgets the request on abort too
+      const options: RequestOptions = { timeout: timeoutMs };
+      if (signal) {
+        options.signal = signal;
+      }
+      this.transport.request(request, options).then(
+        (response) => this.handleResponse({ ...response, id }),
+        (error: Error) => this.takePendingRequest(id)?.reject(error)
       );
     });
   }
 
-  private async sendResponse(
-    id: number | string,
-    result: unknown
-  ): Promise<void> {
-    const response: JsonRpcResponse = {
-      jsonrpc: "2.0",
-      id,
-      result,
-    };
-
-    // Use notify since we're sending a response, not expecting one back
-    await this.transport.notify(response as unknown as JsonRpcNotification);
+  /**
+   * Get the timeout for requests of a method, in milliseconds (0 = none).
+   */
+  private getRequestTimeout(method: string): number {
+    return (
+      this.options.requestTimeouts?.[method] ??
+      DEFAULT_REQUEST_TIMEOUTS[method] ??
+      this.options.requestTimeout ??
+      DEFAULT_REQUEST_TIMEOUT
+    );
   }
 
-  private async sendErrorResponse(
-    id: number | string,
-    message: string,
-    code: number
-  ): Promise<void> {
-    const response: JsonRpcResponse = {
-      jsonrpc: "2.0",
-      id,
-      error: { code, message },
-    };
-
-    await this.transport.notify(response as unknown as JsonRpcNotification);
+  private async sendResponse(response: JsonRpcResponse): Promise<void> {
+    await this.transport.respond(response);
   }
 
   private handleTransportError(error: Error): void {
@@ -750,3 +1905,13 @@ export class ACPAgent implements SessionRequestHandler {
     }
   }
 }
+
+/**
+ * Check whether two command lists advertise the same commands.
+ */
+function sameCommands(a: AvailableCommand[], b: AvailableCommand[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every((command, i) => command.name === b[i]?.name)
+  );
+}
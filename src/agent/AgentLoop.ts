@@ -0,0 +1,402 @@
+/**
+ * Agent Loop
+ *
+ * A PromptHandler that drives a model provider: it streams the model's
+ * response to the client, runs the tools the model asks for, and calls
+ * the model again with their results until the model ends its turn.
+ *
+ * @module @anthropic/acp-sdk/agent/AgentLoop
+ */
+
+import type {
+  ContentBlock,
+  StopReason,
+  ToolCallContent,
+} from "../types/index.js";
+import type {
+  AgentSessionInterface,
+  ModelMessage,
+  ModelProvider,
+  ModelRequest,
+  ModelStopReason,
+  ModelToolResult,
+  ModelToolUse,
+  PromptHandler,
+} from "./types.js";
+import { ResourceNotFoundError } from "../protocol/errors.js";
+
+/** Default maximum number of model calls per prompt */
+const DEFAULT_MAX_MODEL_CALLS = 20;
+
+/**
+ * Options for creating an AgentLoop.
+ */
+export interface AgentLoopOptions {
+  /** Model provider to call */
+  provider: ModelProvider;
+  /** System prompt sent with every model request */
+  system?: string;
+  /** Maximum number of tokens per model response */
+  maxTokens?: number;
+  /**
+   * Maximum number of model calls per prompt (default: 20).
+   * A prompt that reaches the limit ends with "max_turn_requests".
+   */
+  maxModelCalls?: number;
+}
+
+/**
+ * Result of one model call.
+ */
+interface ModelResponse {
+  message: ModelMessage;
+  toolUses: ModelToolUse[];
+  stopReason: ModelStopReason;
+}
+
+/**
+ * Prompt handler that runs the "call model, run tools, repeat" loop.
+ *
+ * - Text is streamed with `session.streamMessage()`
+ * - Thinking is streamed with `session.streamThought()`
+ * - Tool uses run registered tools with `session.runTool()`
+ * - Usage is recorded with `session.reportUsage()` and returned with the
+ *   prompt response
+ * - A response cut off by the token limit ends the prompt with "max_tokens"
+ *
+ * The conversation with the model is kept per session, so later prompts
+ * continue it. A cancelled prompt answers the model's open tool uses with
+ * cancelled results; a prompt that fails is removed from the conversation.
+ *
+ * @example
+ * ```typescript
+ * agent.registerTool(readFileTool);
+ * agent.setPromptHandler(
+ *   new AgentLoop({ provider: myProvider, system: 'You are a coding assistant.' })
+ * );
+ * ```
+ */
+export class AgentLoop implements PromptHandler {
+  private readonly provider: ModelProvider;
+  private readonly options: AgentLoopOptions;
+  private conversations = new Map<string, ModelMessage[]>();
+
+  /**
+   * Create a new AgentLoop.
+   *
+   * @param options - Loop options
+   */
+  constructor(options: AgentLoopOptions) {
+    this.provider = options.provider;
+    this.options = options;
+  }
+
+  /**
+   * Handle a prompt by running the model until it ends its turn.
+   *
+   * @param session - The agent session context
+   * @param content - The user's message content
+   * @param attachments - Attachments, sent to the model after the content
+   * @returns The stop reason for the prompt
+   */
+  async handlePrompt(
+    session: AgentSessionInterface,
+    content: ContentBlock[],
+    attachments: ContentBlock[] = []
+  ): Promise<StopReason> {
+    const messages = this.getConversation(session.id);
+    const start = messages.length;
+    messages.push({ role: "user", content: [...content, ...attachments] });
+
+    try {
+      const maxModelCalls = this.options.maxModelCalls ?? DEFAULT_MAX_MODEL_CALLS;
+      for (let call = 0; call < maxModelCalls; call++) {
+        const response = await this.callModel(session, messages);
+        messages.push(response.message);
+
+        if (session.signal.aborted) {
+          if (response.toolUses.length > 0) {
+            messages.push({ role: "user", content: cancelAll(response.toolUses) });
+          }
+          return "cancelled";
+        }
+        if (response.stopReason === "max_tokens") {
+          // Tool uses cut off by the token limit never run
+          if (response.toolUses.length > 0) {
+            messages.push({ role: "user", content: cancelAll(response.toolUses) });
+          }
+          return "max_tokens";
+        }
+        if (response.toolUses.length === 0) {
+          return "end_turn";
+        }
+
+        const results: ModelToolResult[] = [];
+        for (const toolUse of response.toolUses) {
+          results.push(await this.runToolUse(session, toolUse));
+          if (session.signal.aborted) {
+            // Every tool use needs a result before the model is called again
+            const open = response.toolUses.slice(results.length);
+            messages.push({ role: "user", content: [...results, ...cancelAll(open)] });
+            return "cancelled";
+          }
+        }
+        messages.push({ role: "user", content: results });
+      }
+
+      return "max_turn_requests";
+    } catch (error) {
+      // Drop the failed turn so the next prompt starts from a valid conversation
+      messages.length = start;
+      throw error;
+    }
+  }
+
+  /**
+   * Get the conversation with the model for a session.
+   *
+   * @param sessionId - Session ID
+   * @returns The messages so far, oldest first
+   */
+  getMessages(sessionId: string): ModelMessage[] {
+    return [...(this.conversations.get(sessionId) ?? [])];
+  }
+
+  /**
+   * Forget the conversation for a session, e.g. when it is closed.
+   *
+   * @param sessionId - Session ID
+   * @returns True if there was a conversation
+   */
+  clearMessages(sessionId: string): boolean {
+    return this.conversations.delete(sessionId);
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  private getConversation(sessionId: string): ModelMessage[] {
+    let messages = this.conversations.get(sessionId);
+    if (!messages) {
+      messages = [];
+      this.conversations.set(sessionId, messages);
+    }
+    return messages;
+  }
+
+  /**
+   * Call the model once, streaming its output to the client.
+   */
+  private async callModel(
+    session: AgentSessionInterface,
+    messages: ModelMessage[]
+  ): Promise<ModelResponse> {
+    const request: ModelRequest = {
+      messages: [...messages],
+      tools: session.getToolSchemas(),
+      signal: session.signal,
+    };
+    if (this.options.system !== undefined) {
+      request.system = this.options.system;
+    }
+    if (this.options.maxTokens !== undefined) {
+      request.maxTokens = this.options.maxTokens;
+    }
+
+    const message: ModelMessage = { role: "assistant", content: [] };
+    const toolUses: ModelToolUse[] = [];
+    let stopReason: ModelStopReason | undefined;
+
+    // Text and thinking are coalesced into chunks; a change of kind ends
+    // the current stream so the client sees them in order
+    let stream: { kind: "text" | "thinking"; chunks: ChunkQueue; done: Promise<string> } | undefined;
+    const write = async (kind: "text" | "thinking", text: string): Promise<void> => {
+      if (stream?.kind !== kind) {
+        await endStream();
+        const chunks = new ChunkQueue();
+        const done =
+          kind === "text" ? session.streamMessage(chunks) : session.streamThought(chunks);
+        stream = { kind, chunks, done };
+      }
+      stream.chunks.push(text);
+    };
+    const endStream = async (): Promise<void> => {
+      if (stream) {
+        const { chunks, done } = stream;
+        stream = undefined;
+        chunks.end();
+        await done;
+      }
+    };
+
+    try {
+      for await (const event of this.provider.stream(request)) {
+        if (session.signal.aborted) {
+          break;
+        }
+
+        switch (event.type) {
+          case "text":
+            appendText(message, event.text);
+            await write("text", event.text);
+            break;
+          case "thinking":
+            message.content.push(event);
+            await write("thinking", event.text);
+            break;
+          case "tool_use":
+            message.content.push(event);
+            toolUses.push(event);
+            break;
+          case "usage":
+            session.reportUsage(event.usage);
+            break;
+          case "stop":
+            stopReason = event.reason;
+            break;
+        }
+      }
+      await endStream();
+    } catch (error) {
+      // The model's error is the one to report
+      await endStream().catch(() => undefined);
+      throw error;
+    }
+
+    return {
+      message,
+      toolUses,
+      stopReason: stopReason ?? (toolUses.length > 0 ? "tool_use" : "end_turn"),
+    };
+  }
+
+  /**
+   * Run a tool the model asked for and describe the result for the model.
+   */
+  private async runToolUse(
+    session: AgentSessionInterface,
+    toolUse: ModelToolUse
+  ): Promise<ModelToolResult> {
+    const answer = (content: string, isError: boolean): ModelToolResult => {
+      const result: ModelToolResult = {
+        type: "tool_result",
+        toolUseId: toolUse.id,
+        content,
+      };
+      if (isError) {
+        result.isError = true;
+      }
+      return result;
+    };
+
+    try {
+      const result = await session.runTool(toolUse.name, toolUse.input);
+      switch (result.status) {
+        case "completed":
+          return answer(result.output ? describeOutput(result.output) : "", false);
+        case "failed":
+          return answer(result.error ?? "Tool failed", true);
+        case "denied":
+          return answer("The user denied permission to run this tool", true);
+        case "cancelled":
+          return answer("Tool cancelled", true);
+      }
+    } catch (error) {
+      if (error instanceof ResourceNotFoundError) {
+        return answer(`Unknown tool: ${toolUse.name}`, true);
+      }
+      if (!(error instanceof Error)) {
+        throw error;
+      }
+      return answer(error.message, true);
+    }
+  }
+}
+
+/**
+ * Async iterable of text chunks fed by the model's events.
+ */
+class ChunkQueue implements AsyncIterable<string> {
+  private chunks: string[] = [];
+  private ended = false;
+  private waiting: ((result: IteratorResult<string>) => void) | undefined;
+
+  push(text: string): void {
+    if (this.waiting) {
+      this.waiting({ done: false, value: text });
+      this.waiting = undefined;
+    } else {
+      this.chunks.push(text);
+    }
+  }
+
+  end(): void {
+    this.ended = true;
+    this.waiting?.({ done: true, value: undefined });
+    this.waiting = undefined;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<string> {
+    return {
+      next: () => {
+        const text = this.chunks.shift();
+        if (text !== undefined) {
+          return Promise.resolve({ done: false, value: text });
+        }
+        if (this.ended) {
+          return Promise.resolve({ done: true, value: undefined });
+        }
+        return new Promise((resolve) => {
+          this.waiting = resolve;
+        });
+      },
+    };
+  }
+}
+
+/**
+ * Answer tool uses that will not run because the turn was cancelled.
+ */
+function cancelAll(toolUses: ModelToolUse[]): ModelToolResult[] {
+  return toolUses.map((toolUse) => ({
+    type: "tool_result",
+    toolUseId: toolUse.id,
+    content: "Tool cancelled",
+    isError: true,
+  }));
+}
+
+/**
+ * Append streamed text to an assistant message, merging consecutive chunks.
+ */
+function appendText(message: ModelMessage, text: string): void {
+  const last = message.content.at(-1);
+  if (last?.type === "text") {
+    last.text += text;
+  } else {
+    message.content.push({ type: "text", text });
+  }
+}
+
+/**
+ * Describe tool output as text for the model.
+ */
+function describeOutput(output: ToolCallContent): string {
+  switch (output.type) {
+    case "text":
+      return output.text;
+    case "diff":
+      return [
+        `Changed ${output.path}`,
+        ...output.hunks.map((hunk) => hunk.content),
+      ].join("\n");
+    case "terminal": {
+      const lines = [`$ ${output.command}`];
+      if (output.stdout) lines.push(output.stdout);
+      if (output.stderr) lines.push(output.stderr);
+      if (output.exitCode !== undefined) lines.push(`Exit code: ${output.exitCode}`);
+      return lines.join("\n");
+    }
+  }
+}
@@ -19,8 +19,12 @@ import type {
   Plan,
   McpServer,
   SessionMode,
+  SessionModeInfo,
   TerminalExitStatus,
   TerminalSignal,
+  UsageStats,
+  ToolKind,
+  ConfigOptionDefinition,
 } from "../types/index.js";
 import type {
   AgentSessionInterface,
@@ -30,9 +34,26 @@ import type {
   AgentTerminalOptions,
   TerminalInterface,
   SessionData,
+  ClientData,
+  ClientCapability,
+  ModeDefinition,
+  ToolDefinition,
+  ToolRunResult,
+  ToolSchema,
+  StreamOptions,
+  PlanBuilderInterface,
 } from "./types.js";
 import { ToolCallBuilder, type ToolCallSender } from "./ToolCallBuilder.js";
+import { PlanBuilder, type PlanSender } from "./PlanBuilder.js";
 import { Terminal, type TerminalRequester } from "./Terminal.js";
+import { SessionConfig } from "./config.js";
+import { describeTools, runTool } from "./tools.js";
+import {
+  CapabilityNotSupportedError,
+  OperationCancelledError,
+  PermissionDeniedError,
+  ResourceNotFoundError,
+} from "../protocol/errors.js";
 
 /**
  * Interface for making requests to the client.
@@ -42,37 +63,46 @@ export interface SessionRequestHandler {
   /** Send a session update notification */
   sendSessionUpdate(sessionId: SessionId, update: SessionUpdate): Promise<void>;
 
-  /** Request permission from the client */
+  /**
+   * Request permission from the client.
+   * Aborting the signal stops waiting for the client's answer.
+   */
   requestPermission(
     sessionId: SessionId,
     operation: string,
     resource: string,
     toolCallId: ToolCallId,
     options: PermissionOption[],
-    reason?: string
+    reason?: string,
+    signal?: AbortSignal
   ): Promise<AgentPermissionOutcome>;
 
   /** Read a file from the client */
   readFile(
     path: string,
     startLine?: number,
-    endLine?: number
+    endLine?: number,
+    signal?: AbortSignal
   ): Promise<string>;
 
   /** Write a file to the client */
-  writeFile(path: string, content: string): Promise<void>;
+  writeFile(path: string, content: string, signal?: AbortSignal): Promise<void>;
 
-  /** Create a terminal on the client */
+  /**
+   * Create a terminal on the client.
+   * Aborting the signal only stops waiting for a terminal slot.
+   */
   createTerminal(
     command: string,
     args?: string[],
     cwd?: string,
     env?: Record<string, string>,
-    timeout?: number
+    timeout?: number,
+    signal?: AbortSignal
   ): Promise<string>;
 
   /** Get terminal output */
-  getTerminalOutput(terminalId: string): Promise<{
+  getTerminalOutput(terminalId: string, signal?: AbortSignal): Promise<{
     output: string;
     truncated: boolean;
     exitStatus?: TerminalExitStatus;
@@ -81,7 +111,8 @@ export interface SessionRequestHandler {
   /** Wait for terminal to exit */
   waitForTerminalExit(
     terminalId: string,
-    timeout?: number
+    timeout?: number,
+    signal?: AbortSignal
   ): Promise<TerminalExitStatus>;
 
   /** Kill a terminal */
@@ -90,13 +121,48 @@ export interface SessionRequestHandler {
   /** Release a terminal */
   releaseTerminal(terminalId: string): Promise<boolean>;
 
-  /** Set session mode */
+  /** Set session mode and send the client a `current_mode_update` */
   setSessionMode(
     sessionId: SessionId,
     mode: SessionMode
-  ): Promise<{ previousMode: SessionMode; currentMode: SessionMode }>;
+  ): Promise<{
+    previousMode: SessionMode;
+    currentMode: SessionMode;
+    mode?: SessionModeInfo;
+  }>;
+}
+
+/**
+ * Options for creating an AgentSession.
+ */
+export interface AgentSessionOptions {
+  /** Maximum number of updates kept in the session history (0 disables history) */
+  historyLimit?: number;
+  /**
+   * Capabilities the client advertised during initialization.
+   * When omitted, every capability is assumed to be available.
+   */
+  clientCapabilities?: ClientData["capabilities"];
+  /**
+   * Registered modes, used to restrict the tool kinds allowed in the
+   * current mode. Looked up on every call, so later registrations apply.
+   */
+  modes?: ReadonlyMap<SessionMode, ModeDefinition>;
+  /** Declared config options, used for default values */
+  configOptions?: ConfigOptionDefinition[];
+  /** Registered tools, run with `session.runTool()` */
+  tools?: ReadonlyMap<string, ToolDefinition>;
 }
 
+/** Default maximum number of updates kept in the session history */
+const DEFAULT_HISTORY_LIMIT = 1000;
+
+/** Default maximum size of a streamed chunk, in characters */
+const DEFAULT_STREAM_CHUNK_SIZE = 256;
+
+/** Default time text waits to be coalesced before it is sent, in milliseconds */
+const DEFAULT_STREAM_FLUSH_INTERVAL = 50;
+
 /**
  * Agent Session class for managing a session from the agent side.
  *
@@ -137,7 +203,11 @@ export interface SessionRequestHandler {
  * ```
  */
 export class AgentSession
-  implements AgentSessionInterface, ToolCallSender, TerminalRequester
+  implements
+    AgentSessionInterface,
+    ToolCallSender,
+    PlanSender,
+    TerminalRequester
 {
   /** Unique session identifier */
   readonly id: SessionId;
@@ -148,9 +218,23 @@ export class AgentSession
   /** MCP servers configured for this session */
   readonly mcpServers: McpServer[];
 
+  /** Config values for this session */
+  readonly config: SessionConfig;
+
   private requestHandler: SessionRequestHandler;
   private data: SessionData;
+  private historyLimit: number;
+  private clientCapabilities: ClientData["capabilities"] | undefined;
+  private modes: ReadonlyMap<SessionMode, ModeDefinition>;
+  private tools: ReadonlyMap<string, ToolDefinition>;
+  private _turnUsage: UsageStats | undefined;
+  private abortController = new AbortController();
+  private abortCleanup: Promise<void> | undefined;
+  private turnActive = false;
+  private turnTerminals = new Set<Terminal>();
+  private turnToolCalls = new Set<ToolCallBuilder>();
   private toolCallCounter = 0;
+  private planCounter = 0;
   private messageIndex = 0;
   private thoughtIndex = 0;
 
@@ -159,13 +243,26 @@ export class AgentSession
    *
    * @param requestHandler - Handler for making requests to the client
    * @param data - Session data
+   * @param options - Session options
    */
-  constructor(requestHandler: SessionRequestHandler, data: SessionData) {
+  constructor(
+    requestHandler: SessionRequestHandler,
+    data: SessionData,
+    options: AgentSessionOptions = {}
+  ) {
     this.requestHandler = requestHandler;
     this.data = data;
+    this.historyLimit = options.historyLimit ?? DEFAULT_HISTORY_LIMIT;
+    this.clientCapabilities = options.clientCapabilities;
+    this.modes = options.modes ?? new Map();
+    this.tools = options.tools ?? new Map();
     this.id = data.id;
     this.workingDirectory = data.workingDirectory;
     this.mcpServers = data.mcpServers;
+    this.config = new SessionConfig(
+      () => this.data.configOptions,
+      options.configOptions
+    );
   }
 
   /**
@@ -175,6 +272,14 @@ export class AgentSession
     return this.data.currentMode;
   }
 
+  /**
+   * Get the recorded session updates, oldest first.
+   * These are replayed to the client when the session is loaded.
+   */
+  get history(): SessionUpdate[] {
+    return [...(this.data.history ?? [])];
+  }
+
   /**
    * Check if this session has been cancelled.
    */
@@ -182,23 +287,78 @@ export class AgentSession
     return this.data.cancelled;
   }
 
+  /**
+   * Get the capabilities the client advertised during initialization.
+   */
+  get capabilities(): ClientData["capabilities"] {
+    return structuredClone(this.clientCapabilities ?? {});
+  }
+
+  /**
+   * Check whether the client supports a capability.
+   * Use this to degrade gracefully, e.g. ask the user to paste a file
+   * when the client can't read files.
+   *
+   * @param capability - Capability to check, e.g. "fs.read"
+   *
+   * @example
+   * ```typescript
+   * if (!session.supports('fs.read')) {
+   *   await session.sendAgentMessage('Please paste the contents of config.json');
+   *   return 'end_turn';
+   * }
+   * ```
+   */
+  supports(capability: ClientCapability): boolean {
+    if (!this.clientCapabilities) {
+      return true;
+    }
+
+    const [group, name] = capability.split(".") as [
+      keyof ClientData["capabilities"],
+      string,
+    ];
+    const values = this.clientCapabilities[group] as
+      | Record<string, unknown>
+      | undefined;
+    return values?.[name] === true;
+  }
+
+  /**
+   * Get the abort signal for the current prompt turn.
+   * Aborted when the turn is cancelled; a fresh signal is used for each turn.
+   */
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
   /**
    * Mark this session as cancelled.
    * Called internally by ACPAgent when receiving a cancel notification.
+   *
+   * While a turn is running, aborts the turn's signal, which rejects
+   * pending client requests with OperationCancelledError, kills and
+   * releases terminals created during the turn and marks tool calls that
+   * are still running as cancelled. Finished turns are left alone.
    */
   markCancelled(): void {
     this.data.cancelled = true;
+
+    if (this.turnActive && !this.abortController.signal.aborted) {
+      this.abortController.abort(new OperationCancelledError("Session cancelled"));
+      this.abortCleanup = this.cleanUpAbortedTurn();
+    }
   }
 
   /**
    * Throw an error if the session has been cancelled.
    * Use in processing loops to check for early termination.
    *
-   * @throws Error if the session is cancelled
+   * @throws OperationCancelledError if the session is cancelled
    */
   throwIfCancelled(): void {
     if (this.data.cancelled) {
-      throw new Error("Session cancelled");
+      throw new OperationCancelledError("Session cancelled");
     }
   }
 
@@ -212,6 +372,7 @@ export class AgentSession
    * @param update - The session update to send
    */
   async sendUpdate(update: SessionUpdate): Promise<void> {
+    this.recordUpdate(update);
     await this.requestHandler.sendSessionUpdate(this.id, update);
   }
 
@@ -252,15 +413,22 @@ export class AgentSession
    * @param text - The thought text
    * @param index - Optional chunk index (auto-incremented if not provided)
    * @param visible - Whether the thought should be visible to the user
+   * @param final - Whether this is the final chunk
    */
   async sendThought(
     text: string,
     index?: number,
-    visible?: boolean
+    visible?: boolean,
+    final?: boolean
   ): Promise<void> {
     const chunkIndex = index ?? this.thoughtIndex++;
 
-    const data: { content: string; index: number; visible?: boolean } = {
+    const data: {
+      content: string;
+      index: number;
+      visible?: boolean;
+      final?: boolean;
+    } = {
       content: text,
       index: chunkIndex,
     };
@@ -268,6 +436,9 @@ export class AgentSession
     if (visible !== undefined) {
       data.visible = visible;
     }
+    if (final !== undefined) {
+      data.final = final;
+    }
 
     await this.sendUpdate({
       sessionId: this.id,
@@ -277,6 +448,50 @@ export class AgentSession
     });
   }
 
+  /**
+   * Stream an agent message from an async iterable of text, e.g. model
+   * tokens.
+   *
+   * Text is coalesced into chunks: a chunk is sent once it reaches
+   * `maxChunkSize` characters or `flushInterval` ms after its first text
+   * arrived. The last chunk is sent with `final: true`. When the prompt
+   * turn is cancelled, streaming stops without sending the rest.
+   *
+   * @param chunks - Text to stream
+   * @param options - Coalescing options
+   * @returns The full text received from the iterable
+   *
+   * @example
+   * ```typescript
+   * const text = await session.streamMessage(model.streamTokens(prompt));
+   * ```
+   */
+  streamMessage(
+    chunks: AsyncIterable<string>,
+    options: StreamOptions = {}
+  ): Promise<string> {
+    return this.streamChunks(chunks, options, (text, final) =>
+      this.sendAgentMessage(text, undefined, final)
+    );
+  }
+
+  /**
+   * Stream a thought from an async iterable of text.
+   * Coalesces text like `streamMessage()`.
+   *
+   * @param chunks - Thought text to stream
+   * @param options - Coalescing options and thought visibility
+   * @returns The full text received from the iterable
+   */
+  streamThought(
+    chunks: AsyncIterable<string>,
+    options: StreamOptions & { visible?: boolean } = {}
+  ): Promise<string> {
+    return this.streamChunks(chunks, options, (text, final) =>
+      this.sendThought(text, undefined, options.visible, final)
+    );
+  }
+
   /**
    * Send a plan update to the client.
    *
@@ -291,6 +506,27 @@ export class AgentSession
     });
   }
 
+  /**
+   * Start a plan and return a builder for it.
+   * Every change made through the builder is sent as a plan update.
+   *
+   * @param title - Human-readable title for the plan
+   * @returns A builder for adding and updating plan steps
+   *
+   * @example
+   * ```typescript
+   * const plan = session.startPlan('Add input validation');
+   * plan.addStep('read', 'Read the handler').addStep('edit', 'Validate inputs');
+   * plan.start('read');
+   * // ...
+   * await plan.complete('read').start('edit').send();
+   * ```
+   */
+  startPlan(title?: string): PlanBuilderInterface {
+    const id = `plan_${this.id}_${++this.planCounter}`;
+    return new PlanBuilder(this, id, title);
+  }
+
   // ===========================================================================
   // Tool Calls
   // ===========================================================================
@@ -300,10 +536,57 @@ export class AgentSession
    *
    * @param options - Tool call configuration
    * @returns A builder for constructing and sending the tool call
+   * @throws PermissionDeniedError if the tool kind isn't allowed in the current mode
    */
   startToolCall(options: ToolCallOptions): ToolCallBuilderInterface {
+    // Tool calls without a kind aren't restricted by the mode
+    if (options.kind !== undefined) {
+      this.requireToolKind(options.kind);
+    }
+
     const id = `tc_${this.id}_${++this.toolCallCounter}`;
-    return new ToolCallBuilder(this, id, options);
+    const builder = new ToolCallBuilder(this, id, options);
+    this.turnToolCalls.add(builder);
+    return builder;
+  }
+
+  /**
+   * Run a registered tool.
+   *
+   * Validates the input against the tool's schema, reports the tool call,
+   * requests permission if the tool requires it, and reports the tool's
+   * output, duration and errors. Invalid inputs and thrown errors end the
+   * tool call as failed instead of rejecting.
+   *
+   * @param name - Registered tool name
+   * @param input - Tool input, e.g. from a model
+   * @returns How the tool call ended, with its output or error
+   * @throws ResourceNotFoundError if no tool is registered with this name
+   * @throws PermissionDeniedError if the tool kind isn't allowed in the current mode
+   *
+   * @example
+   * ```typescript
+   * const result = await session.runTool('read_file', { path: 'src/main.ts' });
+   * if (result.status === 'completed') {
+   *   // result.output holds the tool's output
+   * }
+   * ```
+   */
+  runTool(name: string, input: unknown): Promise<ToolRunResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return Promise.reject(new ResourceNotFoundError("Tool", name));
+    }
+    return runTool(this, tool, input);
+  }
+
+  /**
+   * Describe the registered tools allowed in the current mode, for model
+   * providers.
+   */
+  getToolSchemas(): ToolSchema[] {
+    const mode = this.currentMode ?? "default";
+    return describeTools(this.tools.values(), this.modes.get(mode)?.allowedToolKinds);
   }
 
   /**
@@ -375,13 +658,16 @@ export class AgentSession
     const operation = this.inferOperation(toolCall);
     const resource = this.inferResource(toolCall);
 
-    return this.requestHandler.requestPermission(
-      this.id,
-      operation,
-      resource,
-      toolCall.id,
-      options,
-      toolCall.reason
+    return this.withAbort(
+      this.requestHandler.requestPermission(
+        this.id,
+        operation,
+        resource,
+        toolCall.id,
+        options,
+        toolCall.reason,
+        this.signal
+      )
     );
   }
 
@@ -445,13 +731,19 @@ export class AgentSession
    * @param startLine - First line to read (1-indexed)
    * @param endLine - Last line to read (1-indexed)
    * @returns Promise resolving to the file content
+   * @throws CapabilityNotSupportedError if the client can't read files
+   * @throws PermissionDeniedError if reading isn't allowed in the current mode
    */
   async readFile(
     path: string,
     startLine?: number,
     endLine?: number
   ): Promise<string> {
-    return this.requestHandler.readFile(path, startLine, endLine);
+    this.requireCapability("fs.read");
+    this.requireToolKind("read");
+    return this.withAbort(
+      this.requestHandler.readFile(path, startLine, endLine, this.signal)
+    );
   }
 
   /**
@@ -459,9 +751,15 @@ export class AgentSession
    *
    * @param path - Absolute path to the file
    * @param content - Content to write
+   * @throws CapabilityNotSupportedError if the client can't write files
+   * @throws PermissionDeniedError if editing isn't allowed in the current mode
    */
   async writeFile(path: string, content: string): Promise<void> {
-    await this.requestHandler.writeFile(path, content);
+    this.requireCapability("fs.write");
+    this.requireToolKind("edit");
+    await this.withAbort(
+      this.requestHandler.writeFile(path, content, this.signal)
+    );
   }
 
   // ===========================================================================
@@ -475,21 +773,47 @@ export class AgentSession
    * @param args - Command arguments
    * @param options - Terminal options
    * @returns Promise resolving to a Terminal instance
+   * @throws CapabilityNotSupportedError if the client can't create terminals
+   * @throws PermissionDeniedError if executing isn't allowed in the current mode
    */
   async createTerminal(
     command: string,
     args?: string[],
     options?: AgentTerminalOptions
   ): Promise<TerminalInterface> {
-    const terminalId = await this.requestHandler.createTerminal(
+    this.requireCapability("terminal.create");
+    this.requireToolKind("execute");
+
+    const signal = this.signal;
+    // The signal only cancels waiting for a slot: once sent, the response
+    // is needed to release a terminal the client creates after the turn
+    // was cancelled
+    const created = this.requestHandler.createTerminal(
       command,
       args,
       options?.cwd,
       options?.env,
-      options?.timeout
+      options?.timeout,
+      signal
     );
 
-    return new Terminal(this, terminalId);
+    let terminalId: string;
+    try {
+      terminalId = await this.withAbort(created);
+    } catch (error) {
+      if (signal.aborted) {
+        // The client may still create the terminal after the turn was cancelled
+        created.then(
+          (id) => this.disposeTerminal(new Terminal(this, id)),
+          () => undefined
+        );
+      }
+      throw error;
+    }
+
+    const terminal = new Terminal(this, terminalId);
+    this.turnTerminals.add(terminal);
+    return terminal;
   }
 
   /**
@@ -501,7 +825,9 @@ export class AgentSession
     truncated: boolean;
     exitStatus?: TerminalExitStatus;
   }> {
-    return this.requestHandler.getTerminalOutput(terminalId);
+    return this.withAbort(
+      this.requestHandler.getTerminalOutput(terminalId, this.signal)
+    );
   }
 
   /**
@@ -512,7 +838,9 @@ export class AgentSession
     terminalId: string,
     timeout?: number
   ): Promise<TerminalExitStatus> {
-    return this.requestHandler.waitForTerminalExit(terminalId, timeout);
+    return this.withAbort(
+      this.requestHandler.waitForTerminalExit(terminalId, timeout, this.signal)
+    );
   }
 
   /**
@@ -544,25 +872,241 @@ export class AgentSession
    * @param modeId - The mode identifier to switch to
    */
   async setMode(modeId: SessionMode): Promise<void> {
+    // The request handler also notifies the client
     const result = await this.requestHandler.setSessionMode(this.id, modeId);
     this.data.currentMode = result.currentMode;
+  }
 
-    // Also send an update notification
-    await this.sendUpdate({
-      sessionId: this.id,
-      type: "current_mode_update",
-      data: {
-        previousMode: result.previousMode,
-        currentMode: result.currentMode,
-      },
-      timestamp: new Date().toISOString(),
-    });
+  // ===========================================================================
+  // Usage
+  // ===========================================================================
+
+  /**
+   * Record token usage for the current prompt turn.
+   * Can be called several times per turn (e.g. once per model call);
+   * the agent adds everything up and returns it in the prompt response.
+   *
+   * @param usage - Tokens used since the last report
+   *
+   * @example
+   * ```typescript
+   * const response = await model.complete(messages);
+   * session.reportUsage({
+   *   inputTokens: response.usage.input_tokens,
+   *   outputTokens: response.usage.output_tokens
+   * });
+   * ```
+   */
+  reportUsage(usage: Partial<UsageStats>): void {
+    this._turnUsage = addUsage(this._turnUsage, usage);
+    this.data.usage = addUsage(this.data.usage, usage);
+  }
+
+  /**
+   * Get the token usage reported during the current prompt turn.
+   */
+  get turnUsage(): UsageStats | undefined {
+    return this._turnUsage ? { ...this._turnUsage } : undefined;
+  }
+
+  /**
+   * Get the cumulative token usage for this session.
+   */
+  get usage(): UsageStats | undefined {
+    return this.data.usage ? { ...this.data.usage } : undefined;
   }
 
   // ===========================================================================
   // Internal Methods
   // ===========================================================================
 
+  /**
+   * Reset per-turn state before a new prompt turn starts.
+   * Used internally by ACPAgent.
+   */
+  startTurn(): void {
+    this.data.cancelled = false;
+    this._turnUsage = undefined;
+    this.abortController = new AbortController();
+    this.abortCleanup = undefined;
+    this.turnTerminals.clear();
+    this.turnToolCalls.clear();
+    this.turnActive = true;
+  }
+
+  /**
+   * Wait for cancellation cleanup of the current turn to finish, then
+   * forget the turn's terminals and tool calls.
+   * Used internally by ACPAgent before responding to a prompt, so that
+   * cleanup updates reach the client before the prompt result.
+   */
+  async endTurn(): Promise<void> {
+    this.turnActive = false;
+    await this.abortCleanup;
+    this.turnTerminals.clear();
+    this.turnToolCalls.clear();
+  }
+
+  /**
+   * Throw if the client didn't advertise a capability.
+   */
+  private requireCapability(capability: ClientCapability): void {
+    if (!this.supports(capability)) {
+      throw new CapabilityNotSupportedError(capability);
+    }
+  }
+
+  /**
+   * Throw if the current mode doesn't allow a tool kind.
+   */
+  private requireToolKind(kind: ToolKind): void {
+    const mode = this.data.currentMode ?? "default";
+    const allowed = this.modes.get(mode)?.allowedToolKinds;
+    if (allowed && !allowed.includes(kind)) {
+      throw new PermissionDeniedError(`${kind} in ${mode} mode`);
+    }
+  }
+
+  /**
+   * Reject a client request if the current turn is aborted before it settles.
+   * Requests given the turn's signal also stop waiting in the request handler.
+   */
+  private withAbort<T>(request: Promise<T>): Promise<T> {
+    const signal = this.signal;
+    if (signal.aborted) {
+      // The request is already in flight; its eventual result is ignored
+      request.catch(() => undefined);
+      return Promise.reject(signal.reason as Error);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = (): void => reject(signal.reason as Error);
+      signal.addEventListener("abort", onAbort, { once: true });
+
+      request.then(
+        (result) => {
+          signal.removeEventListener("abort", onAbort);
+          resolve(result);
+        },
+        (error: Error) => {
+          signal.removeEventListener("abort", onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Coalesce text from an async iterable into chunks and send them.
+   * Stops reading when the current turn is aborted.
+   */
+  private async streamChunks(
+    chunks: AsyncIterable<string>,
+    options: StreamOptions,
+    send: (text: string, final: boolean) => Promise<void>
+  ): Promise<string> {
+    const maxChunkSize = options.maxChunkSize ?? DEFAULT_STREAM_CHUNK_SIZE;
+    const flushInterval = options.flushInterval ?? DEFAULT_STREAM_FLUSH_INTERVAL;
+    const signal = this.signal;
+
+    let text = "";
+    let buffer = "";
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    // Chunks are sent one after another, in order
+    let sending = Promise.resolve();
+
+    const flush = (final: boolean): Promise<void> => {
+      clearTimeout(timer);
+      timer = undefined;
+      const chunk = buffer;
+      buffer = "";
+      sending = sending.then(() => send(chunk, final));
+      return sending;
+    };
+
+    let onAbort: (() => void) | undefined;
+    const aborted = new Promise<IteratorResult<string>>((resolve) => {
+      onAbort = () => resolve({ done: true, value: undefined });
+      if (signal.aborted) {
+        onAbort();
+      } else {
+        signal.addEventListener("abort", onAbort, { once: true });
+      }
+    });
+
+    const iterator = chunks[Symbol.asyncIterator]();
+    try {
+      for (;;) {
+        const result = await Promise.race([iterator.next(), aborted]);
+        if (signal.aborted) {
+          // Stop the source without waiting for it
+          iterator.return?.().catch(() => undefined);
+          await sending.catch(() => undefined);
+          return text;
+        }
+        if (result.done) {
+          break;
+        }
+
+        text += result.value;
+        buffer += result.value;
+        if (buffer.length >= maxChunkSize) {
+          await flush(false);
+        } else if (timer === undefined && buffer.length > 0) {
+          timer = setTimeout(() => {
+            // Failures surface when the stream ends
+            flush(false).catch(() => undefined);
+          }, flushInterval);
+        }
+      }
+
+      await flush(true);
+      return text;
+    } finally {
+      clearTimeout(timer);
+      if (onAbort) {
+        signal.removeEventListener("abort", onAbort);
+      }
+    }
+  }
+
+  /**
+   * Cancel everything the aborted turn left running.
+   * Best effort: failures are ignored since the client may already be gone.
+   */
+  private async cleanUpAbortedTurn(): Promise<void> {
+    const terminals = [...this.turnTerminals];
+    const toolCalls = [...this.turnToolCalls].filter((builder) => builder.isActive);
+
+    await Promise.all([
+      ...terminals.map((terminal) => this.disposeTerminal(terminal)),
+      ...toolCalls.map((builder) =>
+        builder.cancelled().send().catch(() => undefined)
+      ),
+    ]);
+  }
+
+  /**
+   * Kill and release a terminal, ignoring failures.
+   */
+  private async disposeTerminal(terminal: Terminal): Promise<void> {
+    if (terminal.isReleased) {
+      return;
+    }
+
+    try {
+      await terminal.kill();
+    } catch {
+      // The process may have exited already
+    }
+
+    try {
+      await terminal.release();
+    } catch {
+      // Nothing more we can do
+    }
+  }
+
   /**
    * Get the session data.
    * Used internally by ACPAgent.
@@ -578,4 +1122,45 @@ export class AgentSession
   updateData(updates: Partial<SessionData>): void {
     Object.assign(this.data, updates);
   }
+
+  /**
+   * Record an update in the session history without sending it.
+   * Used internally by ACPAgent for user messages, which the client
+   * already knows about while the session is live.
+   */
+  recordUpdate(update: SessionUpdate): void {
+    if (this.historyLimit <= 0) {
+      return;
+    }
+
+    const history = (this.data.history ??= []);
+    history.push(update);
+
+    if (history.length > this.historyLimit) {
+      history.splice(0, history.length - this.historyLimit);
+    }
+  }
+}
+
+/**
+ * Add reported token usage to a running total.
+ */
+function addUsage(
+  total: UsageStats | undefined,
+  usage: Partial<UsageStats>
+): UsageStats {
+  const result: UsageStats = {
+    inputTokens: (total?.inputTokens ?? 0) + (usage.inputTokens ?? 0),
+    outputTokens: (total?.outputTokens ?? 0) + (usage.outputTokens ?? 0),
+  };
+
+  if (
+    total?.cachedInputTokens !== undefined ||
+    usage.cachedInputTokens !== undefined
+  ) {
+    result.cachedInputTokens =
+      (total?.cachedInputTokens ?? 0) + (usage.cachedInputTokens ?? 0);
+  }
+
+  return result;
 }
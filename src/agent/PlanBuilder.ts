@@ -0,0 +1,313 @@
+/**
+ * Plan Builder
+ *
+ * Provides a fluent API for building an execution plan step by step.
+ * Every change is sent to the client as a plan update.
+ *
+ * @module @anthropic/acp-sdk/agent/PlanBuilder
+ */
+
+import type { Plan, PlanStep, PlanStepStatus } from "../types/index.js";
+import type { PlanBuilderInterface } from "./types.js";
+import { ResourceNotFoundError } from "../protocol/errors.js";
+
+/**
+ * Statuses of steps that have finished.
+ */
+const FINISHED_STATUSES: ReadonlySet<PlanStepStatus> = new Set<PlanStepStatus>([
+  "completed",
+  "failed",
+  "skipped",
+]);
+
+/**
+ * Interface for sending plan updates.
+ * Implemented by AgentSession.
+ */
+export interface PlanSender {
+  sendPlan(plan: Plan): Promise<void>;
+}
+
+/**
+ * A step and its parent, for walking up the tree.
+ */
+interface StepEntry {
+  step: PlanStep;
+  parent?: StepEntry;
+}
+
+/**
+ * Builder for an execution plan that keeps its step tree consistent.
+ *
+ * - Starting a step starts its pending parents
+ * - Completing or skipping a step does the same to its unfinished substeps
+ * - A step whose substeps have all finished finishes too: failed if a
+ *   substep failed, skipped if all were skipped, completed otherwise
+ * - The plan is complete once every step has finished
+ *
+ * Changes made in the same tick are sent as one plan update.
+ *
+ * @example
+ * ```typescript
+ * const plan = session.startPlan('Fix the login bug');
+ *
+ * await plan
+ *   .addStep('read', 'Read the auth module')
+ *   .addStep('fix', 'Fix the token check')
+ *   .addSubstep('fix', 'fix-code', 'Change the comparison')
+ *   .addSubstep('fix', 'fix-test', 'Add a regression test')
+ *   .start('read')
+ *   .send();
+ *
+ * await plan.complete('read').start('fix-code').send();
+ * await plan.complete('fix-code').complete('fix-test').send();
+ * // 'fix' completed automatically; plan.isComplete === true
+ * ```
+ */
+export class PlanBuilder implements PlanBuilderInterface {
+  /** The plan ID */
+  readonly id: string;
+
+  private sender: PlanSender;
+  private title?: string;
+  private steps: PlanStep[] = [];
+  private entries = new Map<string, StepEntry>();
+  private sending: Promise<void> = Promise.resolve();
+  private updateScheduled = false;
+
+  /**
+   * Create a new PlanBuilder.
+   *
+   * @param sender - Object that can send plan updates
+   * @param id - Unique identifier for this plan
+   * @param title - Human-readable title for the plan
+   */
+  constructor(sender: PlanSender, id: string, title?: string) {
+    this.sender = sender;
+    this.id = id;
+    if (title !== undefined) {
+      this.title = title;
+    }
+  }
+
+  /**
+   * Whether the plan has steps and all of them have finished.
+   */
+  get isComplete(): boolean {
+    return (
+      this.steps.length > 0 &&
+      this.steps.every((step) => FINISHED_STATUSES.has(step.status))
+    );
+  }
+
+  /**
+   * Set the plan title.
+   */
+  setTitle(title: string): this {
+    this.title = title;
+    return this.changed();
+  }
+
+  /**
+   * Add a top-level step.
+   *
+   * @param id - Step ID, unique within the plan
+   * @param description - Human-readable description
+   * @param details - Additional details
+   * @throws Error if a step with the same ID exists
+   */
+  addStep(id: string, description: string, details?: string): this {
+    const step = this.createStep(id, description, details);
+    this.steps.push(step);
+    this.entries.set(id, { step });
+    return this.changed();
+  }
+
+  /**
+   * Add a substep to a step.
+   *
+   * @param parentId - ID of the parent step
+   * @param id - Step ID, unique within the plan
+   * @param description - Human-readable description
+   * @param details - Additional details
+   * @throws ResourceNotFoundError if the parent step doesn't exist
+   * @throws Error if a step with the same ID exists
+   */
+  addSubstep(
+    parentId: string,
+    id: string,
+    description: string,
+    details?: string
+  ): this {
+    const parent = this.getEntry(parentId);
+    const step = this.createStep(id, description, details);
+    (parent.step.children ??= []).push(step);
+    this.entries.set(id, { step, parent });
+    return this.changed();
+  }
+
+  /**
+   * Mark a step as in progress, along with its pending parents.
+   *
+   * @throws ResourceNotFoundError if the step doesn't exist
+   */
+  start(stepId: string): this {
+    const entry = this.getEntry(stepId);
+    entry.step.status = "in_progress";
+    for (let parent = entry.parent; parent; parent = parent.parent) {
+      if (parent.step.status === "pending") {
+        parent.step.status = "in_progress";
+      }
+    }
+    return this.changed();
+  }
+
+  /**
+   * Mark a step and its unfinished substeps as completed.
+   *
+   * @throws ResourceNotFoundError if the step doesn't exist
+   */
+  complete(stepId: string): this {
+    return this.finish(stepId, "completed");
+  }
+
+  /**
+   * Mark a step as failed.
+   *
+   * @param stepId - Step ID
+   * @param reason - Why the step failed, sent as the step details
+   * @throws ResourceNotFoundError if the step doesn't exist
+   */
+  fail(stepId: string, reason?: string): this {
+    const entry = this.getEntry(stepId);
+    if (reason !== undefined) {
+      entry.step.details = reason;
+    }
+    return this.finish(stepId, "failed");
+  }
+
+  /**
+   * Mark a step and its unfinished substeps as skipped.
+   *
+   * @throws ResourceNotFoundError if the step doesn't exist
+   */
+  skip(stepId: string): this {
+    return this.finish(stepId, "skipped");
+  }
+
+  /**
+   * Get a snapshot of the plan.
+   */
+  toPlan(): Plan {
+    const plan: Plan = {
+      planId: this.id,
+      steps: structuredClone(this.steps),
+    };
+    if (this.title !== undefined) {
+      plan.title = this.title;
+    }
+    return plan;
+  }
+
+  /**
+   * Wait until all changes so far have been sent to the client.
+   *
+   * @returns The plan as last sent
+   * @throws The error of the last failed plan update
+   */
+  async send(): Promise<Plan> {
+    await this.sending;
+    return this.toPlan();
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  private createStep(
+    id: string,
+    description: string,
+    details?: string
+  ): PlanStep {
+    if (this.entries.has(id)) {
+      throw new Error(`Plan step already exists: ${id}`);
+    }
+
+    const step: PlanStep = { id, description, status: "pending" };
+    if (details !== undefined) {
+      step.details = details;
+    }
+    return step;
+  }
+
+  private getEntry(stepId: string): StepEntry {
+    const entry = this.entries.get(stepId);
+    if (!entry) {
+      throw new ResourceNotFoundError("Plan step", stepId);
+    }
+    return entry;
+  }
+
+  /**
+   * Finish a step, cascade to its substeps and roll up to its parents.
+   */
+  private finish(stepId: string, status: PlanStepStatus): this {
+    const entry = this.getEntry(stepId);
+    entry.step.status = status;
+    if (status !== "failed") {
+      finishUnfinished(entry.step.children ?? [], status);
+    }
+
+    for (let parent = entry.parent; parent; parent = parent.parent) {
+      const children = parent.step.children ?? [];
+      if (!children.every((child) => FINISHED_STATUSES.has(child.status))) {
+        break;
+      }
+      parent.step.status = rollUp(children);
+    }
+    return this.changed();
+  }
+
+  /**
+   * Schedule a plan update. Changes made before it is sent are included.
+   */
+  private changed(): this {
+    if (!this.updateScheduled) {
+      this.updateScheduled = true;
+      this.sending = this.sending
+        .catch(() => undefined)
+        .then(() => {
+          this.updateScheduled = false;
+          return this.sender.sendPlan(this.toPlan());
+        });
+      // Failures surface from send()
+      this.sending.catch(() => undefined);
+    }
+    return this;
+  }
+}
+
+/**
+ * Give unfinished steps, and their unfinished substeps, a final status.
+ */
+function finishUnfinished(steps: PlanStep[], status: PlanStepStatus): void {
+  for (const step of steps) {
+    if (!FINISHED_STATUSES.has(step.status)) {
+      step.status = status;
+    }
+    finishUnfinished(step.children ?? [], status);
+  }
+}
+
+/**
+ * Status of a step whose substeps have all finished.
+ */
+function rollUp(children: PlanStep[]): PlanStepStatus {
+  if (children.some((child) => child.status === "failed")) {
+    return "failed";
+  }
+  if (children.every((child) => child.status === "skipped")) {
+    return "skipped";
+  }
+  return "completed";
+}
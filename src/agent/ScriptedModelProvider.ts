@@ -0,0 +1,97 @@
+/**
+ * Scripted Model Provider
+ *
+ * A deterministic ModelProvider that replays scripted responses, for
+ * testing agent loops without calling a model.
+ *
+ * @module @anthropic/acp-sdk/agent/ScriptedModelProvider
+ */
+
+import type { ModelEvent, ModelProvider, ModelRequest } from "./types.js";
+
+/**
+ * One scripted model response: the events to stream, or a function that
+ * builds them from the request.
+ */
+export type ScriptedResponse =
+  | ModelEvent[]
+  | ((request: ModelRequest) => ModelEvent[]);
+
+/**
+ * Model provider that streams scripted responses in order, one per call.
+ *
+ * Every request is recorded in `requests` so tests can check what the loop
+ * sent to the model.
+ *
+ * @example
+ * ```typescript
+ * const provider = new ScriptedModelProvider([
+ *   [
+ *     { type: 'text', text: 'Let me read it.' },
+ *     { type: 'tool_use', id: 'tu_1', name: 'read_file', input: { path: 'a.ts' } }
+ *   ],
+ *   [
+ *     { type: 'text', text: 'It exports one function.' },
+ *     { type: 'usage', usage: { inputTokens: 120, outputTokens: 8 } }
+ *   ]
+ * ]);
+ *
+ * agent.setPromptHandler(new AgentLoop({ provider }));
+ * ```
+ */
+export class ScriptedModelProvider implements ModelProvider {
+  /** Requests received so far, oldest first */
+  readonly requests: ModelRequest[] = [];
+
+  private responses: ScriptedResponse[];
+
+  /**
+   * Create a new ScriptedModelProvider.
+   *
+   * @param responses - Responses to stream, one per model call
+   */
+  constructor(responses: ScriptedResponse[] = []) {
+    this.responses = [...responses];
+  }
+
+  /**
+   * Add responses to the end of the script.
+   *
+   * @param responses - Responses to stream after the current ones
+   */
+  enqueue(...responses: ScriptedResponse[]): void {
+    this.responses.push(...responses);
+  }
+
+  /**
+   * Number of scripted responses not streamed yet.
+   */
+  get remaining(): number {
+    return this.responses.length;
+  }
+
+  /**
+   * Stream the next scripted response.
+   * Stops early when the request's signal is aborted.
+   *
+   * @throws Error if the script has no responses left
+   */
+  async *stream(request: ModelRequest): AsyncIterable<ModelEvent> {
+    this.requests.push(request);
+
+    const response = this.responses.shift();
+    if (!response) {
+      throw new Error("Scripted model provider has no responses left");
+    }
+
+    const events = typeof response === "function" ? response(request) : response;
+    for (const event of events) {
+      if (request.signal.aborted) {
+        return;
+      }
+      // Yield to the event loop between events, like a real stream
+      await Promise.resolve();
+      yield event;
+    }
+  }
+}
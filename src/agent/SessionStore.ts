@@ -0,0 +1,183 @@
+/**
+ * Session Stores
+ *
+ * Built-in SessionStore implementations for persisting agent sessions.
+ * Sessions saved to a store can be loaded with `session/load` after the
+ * agent process restarts.
+ *
+ * @module @anthropic/acp-sdk/agent/SessionStore
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { SessionStore, StoredSessionData } from "./types.js";
+
+/**
+ * In-memory session store.
+ *
+ * Sessions only live as long as the store instance. Useful for tests and for
+ * sharing sessions between several agents in the same process.
+ *
+ * @example
+ * ```typescript
+ * const agent = new ACPAgent(transport, {
+ *   name: 'My Agent',
+ *   version: '1.0.0',
+ *   capabilities: { loadSession: true },
+ *   sessionStore: new MemorySessionStore()
+ * });
+ * ```
+ */
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, StoredSessionData>();
+
+  save(data: StoredSessionData): Promise<void> {
+    this.sessions.set(data.id, structuredClone(data));
+    return Promise.resolve();
+  }
+
+  load(sessionId: string): Promise<StoredSessionData | undefined> {
+    const data = this.sessions.get(sessionId);
+    return Promise.resolve(data ? structuredClone(data) : undefined);
+  }
+
+  delete(sessionId: string): Promise<boolean> {
+    return Promise.resolve(this.sessions.delete(sessionId));
+  }
+
+  list(): Promise<string[]> {
+    return Promise.resolve(Array.from(this.sessions.keys()));
+  }
+}
+
+/**
+ * Options for FileSessionStore.
+ */
+export interface FileSessionStoreOptions {
+  /** Directory in which session files are stored (created if missing) */
+  directory: string;
+}
+
+/**
+ * File-backed session store.
+ *
+ * Each session is stored as a JSON file named after its session ID in the
+ * configured directory. Writes go through a temporary file and a rename so
+ * a crash never leaves a half-written session behind. Saves of the same
+ * session run one after another, so the last save wins.
+ *
+ * @example
+ * ```typescript
+ * const agent = new ACPAgent(transport, {
+ *   name: 'My Agent',
+ *   version: '1.0.0',
+ *   capabilities: { loadSession: true },
+ *   sessionStore: new FileSessionStore({ directory: '.acp/sessions' })
+ * });
+ * ```
+ */
+export class FileSessionStore implements SessionStore {
+  private readonly directory: string;
+  /** Last write per session; saves of a session run one after another */
+  private writes = new Map<string, Promise<void>>();
+
+  /**
+   * Create a new FileSessionStore.
+   *
+   * @param options - Store options
+   */
+  constructor(options: FileSessionStoreOptions) {
+    this.directory = path.resolve(options.directory);
+  }
+
+  async save(data: StoredSessionData): Promise<void> {
+    // Serialize now: the caller may change the data while earlier saves run
+    const content = JSON.stringify(data, null, 2);
+    const previous = this.writes.get(data.id) ?? Promise.resolve();
+    const write = previous
+      .catch(() => undefined)
+      .then(() => this.write(data.id, content));
+    this.writes.set(data.id, write);
+
+    try {
+      await write;
+    } finally {
+      if (this.writes.get(data.id) === write) {
+        this.writes.delete(data.id);
+      }
+    }
+  }
+
+  async load(sessionId: string): Promise<StoredSessionData | undefined> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.sessionPath(sessionId), "utf-8");
+    } catch (error) {
+      if (isNotFound(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    return JSON.parse(content) as StoredSessionData;
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.sessionPath(sessionId));
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async list(): Promise<string[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    return entries
+      .filter((entry) => entry.endsWith(".json"))
+      .map((entry) => decodeURIComponent(entry.slice(0, -".json".length)));
+  }
+
+  /**
+   * Write a session file through a temporary file and a rename.
+   */
+  private async write(sessionId: string, content: string): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const filePath = this.sessionPath(sessionId);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    await fs.writeFile(tempPath, content, "utf-8");
+    await fs.rename(tempPath, filePath);
+  }
+
+  /**
+   * Get the file path for a session.
+   * Session IDs come from clients, so they are encoded to keep them inside the directory.
+   */
+  private sessionPath(sessionId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(sessionId)}.json`);
+  }
+}
+
+/**
+ * Check whether an error is a "file not found" error.
+ */
+function isNotFound(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    (error as NodeJS.ErrnoException).code === "ENOENT"
+  );
+}
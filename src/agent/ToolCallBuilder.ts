@@ -22,6 +22,16 @@ import type {
   DiffHunkData,
 } from "./types.js";
 
+/**
+ * Statuses after which a tool call receives no further updates.
+ */
+const FINAL_STATUSES: ReadonlySet<ToolCallStatus> = new Set<ToolCallStatus>([
+  "completed",
+  "failed",
+  "denied",
+  "cancelled",
+]);
+
 /**
  * Interface for sending tool call updates.
  * Implemented by AgentSession.
@@ -78,6 +88,7 @@ export class ToolCallBuilder implements ToolCallBuilderInterface {
   private error?: string;
   private duration?: number;
   private hasSentInitial = false;
+  private sentStatus?: ToolCallStatus;
 
   /**
    * Create a new ToolCallBuilder.
@@ -298,6 +309,15 @@ export class ToolCallBuilder implements ToolCallBuilderInterface {
     return this;
   }
 
+  /**
+   * Check whether the tool call has been sent and hasn't reached a final status yet.
+   */
+  get isActive(): boolean {
+    return (
+      this.sentStatus !== undefined && !FINAL_STATUSES.has(this.sentStatus)
+    );
+  }
+
   /**
    * Send the tool call update to the client.
    *
@@ -341,6 +361,7 @@ export class ToolCallBuilder implements ToolCallBuilderInterface {
         this.duration
       );
     }
+    this.sentStatus = toolCall.status;
 
     return toolCall;
   }
@@ -0,0 +1,159 @@
+/**
+ * Prompt Attachments
+ *
+ * Decoding of base64 prompt attachments into content blocks for prompt
+ * handlers, with size limits and a MIME type allow-list.
+ *
+ * @module @anthropic/acp-sdk/agent/attachments
+ */
+
+import type { Attachment, ContentBlock } from "../types/index.js";
+import type { AttachmentOptions } from "./types.js";
+import { InvalidParamsError } from "../protocol/errors.js";
+
+/** Default maximum size of one attachment, in bytes (10 MB) */
+const DEFAULT_MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+/** Default maximum size of all attachments of a prompt, in bytes (20 MB) */
+const DEFAULT_MAX_TOTAL_ATTACHMENT_SIZE = 20 * 1024 * 1024;
+
+/**
+ * MIME types accepted by default.
+ */
+export const DEFAULT_ATTACHMENT_MIME_TYPES: readonly string[] = [
+  "text/*",
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/json",
+  "application/xml",
+  "application/yaml",
+  "application/x-yaml",
+  "application/javascript",
+  "application/typescript",
+];
+
+/**
+ * Non-`text/*` MIME types whose content is text.
+ */
+const TEXT_APPLICATION_TYPES: ReadonlySet<string> = new Set([
+  "application/json",
+  "application/xml",
+  "application/yaml",
+  "application/x-yaml",
+  "application/javascript",
+  "application/typescript",
+  "application/toml",
+  "application/x-sh",
+]);
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * Decode prompt attachments into content blocks.
+ *
+ * - `text/plain` becomes a TextContent block
+ * - Other text types become EmbeddedResource blocks titled with the filename
+ * - Images become base64 ImageContent blocks
+ *
+ * @param attachments - Attachments from the prompt request
+ * @param options - Size limits and allowed MIME types
+ * @returns One content block per attachment, in order
+ * @throws InvalidParamsError if an attachment isn't valid base64, exceeds a
+ *   size limit, or has a MIME type that isn't allowed
+ */
+export function decodeAttachments(
+  attachments: Attachment[],
+  options: AttachmentOptions = {}
+): ContentBlock[] {
+  const maxSize = options.maxSize ?? DEFAULT_MAX_ATTACHMENT_SIZE;
+  const maxTotalSize = options.maxTotalSize ?? DEFAULT_MAX_TOTAL_ATTACHMENT_SIZE;
+  const allowed = options.allowedMimeTypes ?? DEFAULT_ATTACHMENT_MIME_TYPES;
+
+  let totalSize = 0;
+  return attachments.map((attachment) => {
+    const { filename } = attachment;
+    const mimeType = normalizeMimeType(attachment.mimeType);
+
+    if (!allowed.some((pattern) => matchesMimeType(mimeType, pattern))) {
+      throw new InvalidParamsError(`Unsupported attachment type: ${mimeType}`, {
+        filename,
+        mimeType,
+      });
+    }
+    if (!isTextType(mimeType) && !mimeType.startsWith("image/")) {
+      throw new InvalidParamsError(
+        `Attachment type can't be converted to content: ${mimeType}`,
+        { filename, mimeType }
+      );
+    }
+
+    const data = attachment.content.replace(/\s/g, "");
+    if (data.length % 4 !== 0 || !BASE64_PATTERN.test(data)) {
+      throw new InvalidParamsError(`Attachment is not valid base64: ${filename}`, {
+        filename,
+      });
+    }
+
+    const bytes = Buffer.from(data, "base64");
+    if (bytes.length > maxSize) {
+      throw new InvalidParamsError(`Attachment too large: ${filename}`, {
+        filename,
+        size: bytes.length,
+        maxSize,
+      });
+    }
+    totalSize += bytes.length;
+    if (totalSize > maxTotalSize) {
+      throw new InvalidParamsError("Attachments too large", {
+        size: totalSize,
+        maxSize: maxTotalSize,
+      });
+    }
+
+    if (mimeType.startsWith("image/")) {
+      return {
+        type: "image",
+        source: { type: "base64", mediaType: mimeType, data },
+      };
+    }
+
+    const text = bytes.toString("utf-8");
+    if (mimeType === "text/plain") {
+      return { type: "text", text };
+    }
+    return {
+      type: "resource",
+      uri: `attachment:///${encodeURIComponent(filename)}`,
+      mimeType,
+      title: filename,
+      content: text,
+    };
+  });
+}
+
+/**
+ * Check a MIME type against an allow-list entry such as "image/png" or "text/*".
+ */
+function matchesMimeType(mimeType: string, pattern: string): boolean {
+  const normalized = pattern.toLowerCase();
+  if (normalized === "*/*") {
+    return true;
+  }
+  if (normalized.endsWith("/*")) {
+    return mimeType.startsWith(normalized.slice(0, -1));
+  }
+  return mimeType === normalized;
+}
+
+/**
+ * Lowercase a MIME type and drop parameters such as "; charset=utf-8".
+ */
+function normalizeMimeType(mimeType: string): string {
+  return (mimeType.split(";")[0] ?? "").trim().toLowerCase();
+}
+
+function isTextType(mimeType: string): boolean {
+  return mimeType.startsWith("text/") || TEXT_APPLICATION_TYPES.has(mimeType);
+}
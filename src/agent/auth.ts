@@ -0,0 +1,136 @@
+/**
+ * Authentication Strategies
+ *
+ * Provides built-in authentication strategies for the `authenticate` method.
+ * Custom strategies can be supplied by implementing the AuthStrategy interface.
+ *
+ * @module @anthropic/acp-sdk/agent/auth
+ */
+
+import type { AuthenticateResponse } from "../types/index.js";
+import type { AuthStrategy } from "./types.js";
+
+/**
+ * Options for the built-in authentication strategies.
+ */
+export interface AuthStrategyOptions {
+  /** Human-readable description advertised to clients */
+  description?: string;
+  /** How long a successful authentication stays valid, in milliseconds */
+  ttl?: number;
+}
+
+/**
+ * Result returned by an OAuth2 token verifier.
+ */
+export interface OAuth2VerifyResult {
+  /** Whether the token is valid */
+  valid: boolean;
+  /** Token expiration timestamp (ISO 8601) */
+  expiresAt?: string;
+  /** Reason the token was rejected */
+  error?: string;
+}
+
+/**
+ * Create an API key authentication strategy.
+ *
+ * Expects credentials of the form `{ apiKey: string }`.
+ *
+ * @param validate - Function that checks whether an API key is valid
+ * @param options - Strategy options
+ * @returns AuthStrategy implementation
+ *
+ * @example
+ * ```typescript
+ * const agent = new ACPAgent(transport, {
+ *   name: 'My Agent',
+ *   version: '1.0.0',
+ *   auth: {
+ *     strategies: [
+ *       createApiKeyStrategy((key) => key === process.env.AGENT_API_KEY)
+ *     ]
+ *   }
+ * });
+ * ```
+ */
+export function createApiKeyStrategy(
+  validate: (apiKey: string) => boolean | Promise<boolean>,
+  options: AuthStrategyOptions = {}
+): AuthStrategy {
+  return {
+    method: "api_key",
+    ...(options.description !== undefined && { description: options.description }),
+
+    async authenticate(credentials): Promise<AuthenticateResponse> {
+      const apiKey = credentials["apiKey"];
+      if (typeof apiKey !== "string" || apiKey.length === 0) {
+        return { success: false, error: "Missing apiKey credential" };
+      }
+
+      if (!(await validate(apiKey))) {
+        return { success: false, error: "Invalid API key" };
+      }
+
+      return withTtl({ success: true }, options.ttl);
+    },
+  };
+}
+
+/**
+ * Create an OAuth2 bearer token authentication strategy.
+ *
+ * Expects credentials of the form `{ token: string }`.
+ *
+ * @param verify - Function that verifies a bearer token
+ * @param options - Strategy options
+ * @returns AuthStrategy implementation
+ *
+ * @example
+ * ```typescript
+ * const strategy = createOAuth2Strategy(async (token) => {
+ *   const info = await introspect(token);
+ *   return { valid: info.active, expiresAt: info.exp };
+ * });
+ * ```
+ */
+export function createOAuth2Strategy(
+  verify: (token: string) => Promise<OAuth2VerifyResult>,
+  options: AuthStrategyOptions = {}
+): AuthStrategy {
+  return {
+    method: "oauth2",
+    ...(options.description !== undefined && { description: options.description }),
+
+    async authenticate(credentials): Promise<AuthenticateResponse> {
+      const token = credentials["token"];
+      if (typeof token !== "string" || token.length === 0) {
+        return { success: false, error: "Missing token credential" };
+      }
+
+      const result = await verify(token);
+      if (!result.valid) {
+        return { success: false, error: result.error ?? "Invalid token" };
+      }
+
+      if (result.expiresAt !== undefined) {
+        return { success: true, expiresAt: result.expiresAt };
+      }
+
+      return withTtl({ success: true }, options.ttl);
+    },
+  };
+}
+
+/**
+ * Add an expiration timestamp to a successful result when a TTL is configured.
+ */
+function withTtl(
+  response: AuthenticateResponse,
+  ttl: number | undefined
+): AuthenticateResponse {
+  if (ttl !== undefined) {
+    response.expiresAt = new Date(Date.now() + ttl).toISOString();
+  }
+  return response;
+}
@@ -0,0 +1,75 @@
+/**
+ * Slash Commands
+ *
+ * Helpers for recognizing `/command` prompts and parsing their arguments.
+ *
+ * @module @anthropic/acp-sdk/agent/commands
+ */
+
+import type { ContentBlock } from "../types/index.js";
+
+/**
+ * A `/command` found at the start of a prompt.
+ */
+export interface ParsedCommand {
+  /** Command name (without slash) */
+  name: string;
+  /** Raw argument text after the command name */
+  argsText: string;
+}
+
+/** Valid command names: letters, digits, `_`, `-`, `:` and `.` */
+const COMMAND_NAME_PATTERN = /^[\w:.-]+$/;
+
+/**
+ * Check whether a string can be used as a command name.
+ */
+export function isValidCommandName(name: string): boolean {
+  return COMMAND_NAME_PATTERN.test(name);
+}
+
+/**
+ * Find a `/command` at the start of the first text block of a prompt.
+ *
+ * @param content - Prompt content
+ * @returns The command name and argument text, or undefined if the prompt isn't a command
+ */
+export function parseCommandPrompt(
+  content: ContentBlock[]
+): ParsedCommand | undefined {
+  const first = content.find((block) => block.type === "text");
+  if (!first || first.type !== "text") {
+    return undefined;
+  }
+
+  const match = /^\s*\/([\w:.-]+)(?:\s+([\s\S]*))?$/.exec(first.text);
+  if (!match?.[1]) {
+    return undefined;
+  }
+
+  return { name: match[1], argsText: (match[2] ?? "").trim() };
+}
+
+/**
+ * Split command arguments on whitespace, keeping quoted strings together.
+ *
+ * @example
+ * ```typescript
+ * splitCommandArgs('src/main.ts "fix the bug" --dry-run');
+ * // => ['src/main.ts', 'fix the bug', '--dry-run']
+ * ```
+ */
+export function splitCommandArgs(text: string): string[] {
+  const args: string[] = [];
+  const pattern = /"((?:\\.|[^"\\])*)"|'([^']*)'|(\S+)/g;
+
+  for (const match of text.matchAll(pattern)) {
+    if (match[1] !== undefined) {
+      args.push(match[1].replace(/\\(.)/g, "$1"));
+    } else {
+      args.push(match[2] ?? match[3] ?? "");
+    }
+  }
+
+  return args;
+}
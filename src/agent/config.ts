@@ -0,0 +1,167 @@
+/**
+ * Session Config
+ *
+ * Validation of values for declared config options, and the read-only view
+ * of a session's config that prompt handlers use.
+ *
+ * @module @anthropic/acp-sdk/agent/config
+ */
+
+import type { ConfigOptionDefinition } from "../types/index.js";
+import type { SessionConfigInterface } from "./types.js";
+
+/**
+ * Check a value against a config option declaration.
+ *
+ * @param definition - Config option declaration
+ * @param value - Value to check
+ * @returns A description of the problem, or undefined if the value is valid
+ */
+export function validateConfigValue(
+  definition: ConfigOptionDefinition,
+  value: unknown
+): string | undefined {
+  switch (definition.type) {
+    case "enum": {
+      const allowed = definition.choices.map((choice) => choice.value);
+      if (typeof value !== "string" || !allowed.includes(value)) {
+        return `expected one of ${allowed.join(", ")}`;
+      }
+      return undefined;
+    }
+
+    case "boolean":
+      return typeof value === "boolean" ? undefined : "expected a boolean";
+
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return "expected a number";
+      }
+      if (definition.integer && !Number.isInteger(value)) {
+        return "expected an integer";
+      }
+      if (definition.min !== undefined && value < definition.min) {
+        return `expected at least ${definition.min}`;
+      }
+      if (definition.max !== undefined && value > definition.max) {
+        return `expected at most ${definition.max}`;
+      }
+      return undefined;
+
+    case "string":
+      if (typeof value !== "string") {
+        return "expected a string";
+      }
+      if (
+        definition.maxLength !== undefined &&
+        value.length > definition.maxLength
+      ) {
+        return `expected at most ${definition.maxLength} characters`;
+      }
+      return undefined;
+  }
+}
+
+/**
+ * Convert a value ID sent by a client back into the value type of a config
+ * option. Clients send the values of boolean and number options as strings
+ * ("true", "42"); other values are returned unchanged.
+ *
+ * @param definition - Config option declaration
+ * @param value - Value sent by the client
+ * @returns The typed value, to be checked with validateConfigValue()
+ */
+export function parseConfigValue(
+  definition: ConfigOptionDefinition,
+  value: unknown
+): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+
+  switch (definition.type) {
+    case "boolean":
+      if (value === "true") {
+        return true;
+      }
+      return value === "false" ? false : value;
+
+    case "number": {
+      const number = Number(value);
+      return value.trim() !== "" && Number.isFinite(number) ? number : value;
+    }
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Get the default values of config option declarations that have one.
+ */
+export function getConfigDefaults(
+  definitions: ConfigOptionDefinition[]
+): Record<string, unknown> {
+  const defaults: Record<string, unknown> = {};
+  for (const definition of definitions) {
+    if (definition.default !== undefined) {
+      defaults[definition.key] = definition.default;
+    }
+  }
+  return defaults;
+}
+
+/**
+ * Read-only view of a session's config values.
+ * Values that were never set fall back to the declared default.
+ */
+export class SessionConfig implements SessionConfigInterface {
+  private readonly definitions: Map<string, ConfigOptionDefinition>;
+
+  /**
+   * Create a new SessionConfig.
+   *
+   * @param getValues - Returns the session's current config values
+   * @param definitions - Declared config options
+   */
+  constructor(
+    private readonly getValues: () => Record<string, unknown>,
+    definitions: ConfigOptionDefinition[] = []
+  ) {
+    this.definitions = new Map(
+      definitions.map((definition) => [definition.key, definition])
+    );
+  }
+
+  /**
+   * Get a config value, or its declared default if it was never set.
+   *
+   * @param key - Configuration key
+   */
+  get<T = unknown>(key: string): T | undefined {
+    const values = this.getValues();
+    if (Object.prototype.hasOwnProperty.call(values, key)) {
+      return values[key] as T;
+    }
+    return this.definitions.get(key)?.default as T | undefined;
+  }
+
+  /**
+   * Check whether a config value is set or has a declared default.
+   *
+   * @param key - Configuration key
+   */
+  has(key: string): boolean {
+    return this.get(key) !== undefined;
+  }
+
+  /**
+   * Get all config values, including declared defaults.
+   */
+  toObject(): Record<string, unknown> {
+    return {
+      ...getConfigDefaults([...this.definitions.values()]),
+      ...this.getValues(),
+    };
+  }
+}
@@ -139,7 +139,26 @@
 export { ACPAgent } from "./ACPAgent.js";
 export { AgentSession } from "./AgentSession.js";
 export { ToolCallBuilder } from "./ToolCallBuilder.js";
+export { PlanBuilder } from "./PlanBuilder.js";
 export { Terminal } from "./Terminal.js";
+export { SessionConfig } from "./config.js";
+export { toJsonSchema } from "./tools.js";
+export {
+  decodeAttachments,
+  DEFAULT_ATTACHMENT_MIME_TYPES,
+} from "./attachments.js";
+export { AgentLoop } from "./AgentLoop.js";
+export type { AgentLoopOptions } from "./AgentLoop.js";
+export { ScriptedModelProvider } from "./ScriptedModelProvider.js";
+export type { ScriptedResponse } from "./ScriptedModelProvider.js";
+
+// Session stores
+export { MemorySessionStore, FileSessionStore } from "./SessionStore.js";
+export type { FileSessionStoreOptions } from "./SessionStore.js";
+
+// Authentication strategies
+export { createApiKeyStrategy, createOAuth2Strategy } from "./auth.js";
+export type { AuthStrategyOptions, OAuth2VerifyResult } from "./auth.js";
 
 // Types
 export type {
@@ -147,12 +166,43 @@ export type {
   ACPAgentOptions,
   ACPAgentEvents,
   PromptHandler,
+  PromptConcurrencyPolicy,
+  TerminalLimitPolicy,
+  AttachmentOptions,
+  ClientCapability,
+  SessionConfigInterface,
+  ModeDefinition,
+  CommandDefinition,
+  CommandHandler,
+  CommandInvocation,
+  // Tools
+  ToolDefinition,
+  ToolContext,
+  ToolResult,
+  ToolRunResult,
+  ToolSchema,
+  JsonSchema,
+  // Model providers
+  ModelProvider,
+  ModelRequest,
+  ModelEvent,
+  ModelMessage,
+  ModelStopReason,
+  ModelThinking,
+  ModelToolUse,
+  ModelToolResult,
+  // Authentication
+  AuthProvider,
+  AuthStrategy,
   // Session interface
   AgentSessionInterface,
+  StreamOptions,
   // Tool call types
   ToolCallOptions,
   ToolCallBuilderInterface,
   DiffHunkData,
+  // Plan types
+  PlanBuilderInterface,
   // Permission types
   AgentPermissionOutcome,
   // Terminal types
@@ -162,9 +212,16 @@ export type {
   // Internal types (may be useful for extensions)
   SessionData,
   ClientData,
+  // Persistence
+  SessionStore,
+  StoredSessionData,
 } from "./types.js";
 
 // Re-export internal interfaces for advanced use
 export type { ToolCallSender } from "./ToolCallBuilder.js";
+export type { PlanSender } from "./PlanBuilder.js";
 export type { TerminalRequester } from "./Terminal.js";
-export type { SessionRequestHandler } from "./AgentSession.js";
+export type {
+  SessionRequestHandler,
+  AgentSessionOptions,
+} from "./AgentSession.js";
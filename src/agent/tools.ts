@@ -0,0 +1,349 @@
+/**
+ * Tools
+ *
+ * Runs registered tools through the full ToolCall lifecycle and describes
+ * them as JSON Schema for model providers.
+ *
+ * @module @anthropic/acp-sdk/agent/tools
+ */
+
+import { z } from "zod";
+import type {
+  PermissionOption,
+  ToolCallContent,
+  ToolCallLocation,
+  ToolKind,
+} from "../types/index.js";
+import type {
+  AgentSessionInterface,
+  JsonSchema,
+  ToolCallOptions,
+  ToolDefinition,
+  ToolRunResult,
+  ToolSchema,
+} from "./types.js";
+
+/**
+ * Options presented when a tool requires permission.
+ */
+const TOOL_PERMISSION_OPTIONS: PermissionOption[] = [
+  { id: "allow", kind: "allow_once", label: "Allow" },
+  { id: "reject", kind: "reject_once", label: "Reject" },
+];
+
+/**
+ * Run a tool for a session: validate the input, report the tool call,
+ * ask for permission if the tool requires it, execute it and report the
+ * result. Errors thrown by the tool are reported as a failed tool call.
+ *
+ * When the prompt turn is cancelled the result has status "cancelled";
+ * the session reports the cancellation to the client.
+ *
+ * @param session - Session the tool runs in
+ * @param tool - Tool definition
+ * @param input - Unvalidated tool input, e.g. from a model
+ */
+export async function runTool(
+  session: AgentSessionInterface,
+  tool: ToolDefinition,
+  input: unknown
+): Promise<ToolRunResult> {
+  const signal = session.signal;
+  const parsed = tool.inputSchema.safeParse(input);
+
+  const options: ToolCallOptions = {
+    tool: tool.name,
+    input: isRecord(input) ? input : {},
+  };
+  if (tool.kind) {
+    options.kind = tool.kind;
+  }
+  if (tool.requiresPermission) {
+    options.requiresPermission = true;
+  }
+  const location = parsed.success ? getLocation(tool, parsed.data) : undefined;
+  if (location) {
+    options.location = location;
+  }
+
+  if (signal.aborted) {
+    return { toolCallId: "", status: "cancelled" };
+  }
+
+  const builder = session.startToolCall(options);
+  await builder.pending().send();
+
+  if (!parsed.success) {
+    const error = `Invalid input: ${formatIssues(parsed.error)}`;
+    await builder.failed(error).send();
+    return { toolCallId: builder.id, status: "failed", error };
+  }
+
+  const startedAt = Date.now();
+  try {
+    if (tool.requiresPermission) {
+      const toolCall = await builder.awaitingPermission().send();
+      const outcome = await session.requestPermission(
+        toolCall,
+        TOOL_PERMISSION_OPTIONS
+      );
+      if (!outcome.granted) {
+        await builder.denied().send();
+        return { toolCallId: builder.id, status: "denied" };
+      }
+    }
+
+    await builder.inProgress().send();
+    const result = await tool.execute(parsed.data, {
+      session,
+      toolCall: builder,
+      signal,
+    });
+
+    if (signal.aborted) {
+      return { toolCallId: builder.id, status: "cancelled" };
+    }
+
+    const output = toContent(result);
+    if (output) {
+      builder.addContent(output);
+    }
+    const duration = Date.now() - startedAt;
+    await builder.complete().setDuration(duration).send();
+
+    const runResult: ToolRunResult = {
+      toolCallId: builder.id,
+      status: "completed",
+      duration,
+    };
+    if (output) {
+      runResult.output = output;
+    }
+    return runResult;
+  } catch (error) {
+    if (signal.aborted) {
+      return { toolCallId: builder.id, status: "cancelled" };
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    const duration = Date.now() - startedAt;
+    await builder.failed(message).setDuration(duration).send();
+    return { toolCallId: builder.id, status: "failed", error: message, duration };
+  }
+}
+
+/**
+ * Describe tools for model providers.
+ *
+ * @param tools - Tool definitions
+ * @param allowedKinds - When given, only tools of these kinds and tools
+ *   without a kind
+ */
+export function describeTools(
+  tools: Iterable<ToolDefinition>,
+  allowedKinds?: ToolKind[]
+): ToolSchema[] {
+  return [...tools]
+    .filter((tool) => !allowedKinds || !tool.kind || allowedKinds.includes(tool.kind))
+    .map((tool) => describeTool(tool));
+}
+
+/**
+ * Describe a tool for model providers.
+ */
+export function describeTool(tool: ToolDefinition): ToolSchema {
+  const schema: ToolSchema = {
+    name: tool.name,
+    inputSchema: toJsonSchema(tool.inputSchema),
+  };
+  if (tool.description !== undefined) {
+    schema.description = tool.description;
+  }
+  return schema;
+}
+
+/**
+ * Convert a zod schema to JSON Schema.
+ *
+ * Covers the zod types used for tool inputs: objects, arrays, records,
+ * strings, numbers, booleans, literals, enums, unions, optional, nullable,
+ * default and refined schemas. Other types convert to `{}` (any value).
+ *
+ * @example
+ * ```typescript
+ * toJsonSchema(z.object({ path: z.string().describe('File to read') }));
+ * // => {
+ * //   type: 'object',
+ * //   properties: { path: { type: 'string', description: 'File to read' } },
+ * //   required: ['path']
+ * // }
+ * ```
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const result = convertSchema(schema);
+  if (schema.description !== undefined) {
+    result["description"] = schema.description;
+  }
+  return result;
+}
+
+function convertSchema(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = toJsonSchema(value);
+      if (!value.isOptional()) {
+        required.push(key);
+      }
+    }
+
+    const result: JsonSchema = { type: "object", properties };
+    if (required.length > 0) {
+      result["required"] = required;
+    }
+    return result;
+  }
+
+  if (schema instanceof z.ZodString) {
+    const result: JsonSchema = { type: "string" };
+    for (const check of schema._def.checks) {
+      if (check.kind === "min") result["minLength"] = check.value;
+      if (check.kind === "max") result["maxLength"] = check.value;
+      if (check.kind === "length") {
+        result["minLength"] = check.value;
+        result["maxLength"] = check.value;
+      }
+      if (check.kind === "regex") result["pattern"] = check.regex.source;
+      if (check.kind === "email") result["format"] = "email";
+      if (check.kind === "url") result["format"] = "uri";
+      if (check.kind === "uuid") result["format"] = "uuid";
+      if (check.kind === "datetime") result["format"] = "date-time";
+    }
+    return result;
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    const result: JsonSchema = { type: "number" };
+    for (const check of schema._def.checks) {
+      if (check.kind === "int") result["type"] = "integer";
+      if (check.kind === "min") {
+        result[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+      }
+      if (check.kind === "max") {
+        result[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+      }
+    }
+    return result;
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return { type: "boolean" };
+  }
+
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value as unknown };
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: [...(schema.options as string[])] };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const result: JsonSchema = {
+      type: "array",
+      items: toJsonSchema(schema.element as z.ZodTypeAny),
+    };
+    const def = schema._def as z.ZodArrayDef;
+    if (def.minLength) result["minItems"] = def.minLength.value;
+    if (def.maxLength) result["maxItems"] = def.maxLength.value;
+    return result;
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return {
+      type: "object",
+      additionalProperties: toJsonSchema(schema.valueSchema as z.ZodTypeAny),
+    };
+  }
+
+  if (schema instanceof z.ZodUnion) {
+    const options = schema.options as z.ZodTypeAny[];
+    return { anyOf: options.map((option) => toJsonSchema(option)) };
+  }
+
+  if (schema instanceof z.ZodOptional) {
+    return toJsonSchema(schema.unwrap() as z.ZodTypeAny);
+  }
+
+  if (schema instanceof z.ZodNullable) {
+    return {
+      anyOf: [toJsonSchema(schema.unwrap() as z.ZodTypeAny), { type: "null" }],
+    };
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    const def = schema._def as z.ZodDefaultDef;
+    return {
+      ...toJsonSchema(def.innerType),
+      default: def.defaultValue() as unknown,
+    };
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    return toJsonSchema(schema.innerType() as z.ZodTypeAny);
+  }
+
+  return {};
+}
+
+/**
+ * Get the location of a tool call from its input.
+ * Uses the tool's `location` function, or the `path` and `line` inputs.
+ */
+function getLocation(
+  tool: ToolDefinition,
+  input: unknown
+): ToolCallLocation | undefined {
+  if (tool.location) {
+    return tool.location(input);
+  }
+
+  if (!isRecord(input) || typeof input["path"] !== "string") {
+    return undefined;
+  }
+
+  const location: ToolCallLocation = { path: input["path"] };
+  if (typeof input["line"] === "number") {
+    location.line = input["line"];
+  }
+  return location;
+}
+
+/**
+ * Convert a tool's return value to tool call content.
+ */
+function toContent(result: ToolCallContent | string | void): ToolCallContent | undefined {
+  if (typeof result === "string") {
+    return { type: "text", text: result };
+  }
+  return result ?? undefined;
+}
+
+/**
+ * Describe validation issues in one line.
+ */
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message
+    )
+    .join("; ");
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -7,6 +7,7 @@
  * @module @anthropic/acp-sdk/agent/types
  */
 
+import type { ZodType, ZodTypeDef } from "zod";
 import type {
   SessionUpdate,
   ContentBlock,
@@ -25,6 +26,9 @@ import type {
   StopReason,
   SessionMode,
   TerminalExitStatus,
+  AuthenticateResponse,
+  UsageStats,
+  ConfigOptionDefinition,
 } from "../types/index.js";
 
 // =============================================================================
@@ -50,6 +54,116 @@ export interface ACPAgentOptions {
     /** Session-related capabilities */
     session?: AgentSessionCapabilities;
   };
+  /** Authentication provider (clients must authenticate before creating sessions) */
+  auth?: AuthProvider;
+  /** Store for persisting sessions so they can be loaded after a restart */
+  sessionStore?: SessionStore;
+  /**
+   * Maximum number of session updates kept per session for replay on
+   * `session/load` (default: 1000, 0 disables history)
+   */
+  historyLimit?: number;
+  /**
+   * What to do when a prompt arrives while another prompt is running in
+   * the same session (default: "queue")
+   */
+  promptConcurrency?: PromptConcurrencyPolicy;
+  /**
+   * Default timeout in ms for requests sent to the client (default: 30000).
+   * Expired requests reject with TimeoutError; 0 disables the timeout.
+   */
+  requestTimeout?: number;
+  /**
+   * Per-method timeouts in ms, overriding `requestTimeout`.
+   * By default `session/request_permission` waits 5 minutes for the user and
+   * `terminal/wait_for_exit` has no timeout of its own.
+   */
+  requestTimeouts?: Record<string, number>;
+  /**
+   * Number of times idempotent requests (`fs/read_text_file`,
+   * `terminal/output`) are retried after timing out (default: 0)
+   */
+  requestRetries?: number;
+  /**
+   * What to do when a terminal is created while the client's
+   * `terminal.maxConcurrent` limit is reached (default: "queue")
+   */
+  terminalLimitPolicy?: TerminalLimitPolicy;
+  /**
+   * Typed config options sessions support. Declarations are sent to the
+   * client in the `session/new` response, and values are validated on
+   * `session/new` and `session/set_config_option`.
+   */
+  configOptions?: ConfigOptionDefinition[];
+  /**
+   * Limits for prompt attachments. Attachments are only accepted when
+   * `capabilities.prompt.attachments` is true.
+   */
+  attachments?: AttachmentOptions;
+}
+
+/**
+ * Limits for prompt attachments.
+ */
+export interface AttachmentOptions {
+  /** Maximum decoded size of one attachment in bytes (default: 10 MB) */
+  maxSize?: number;
+  /** Maximum decoded size of all attachments of a prompt in bytes (default: 20 MB) */
+  maxTotalSize?: number;
+  /**
+   * Accepted MIME types; entries like "image/*" match a whole group.
+   * Default: text types, PNG, JPEG, GIF and WebP images.
+   */
+  allowedMimeTypes?: string[];
+}
+
+/**
+ * Policy for terminal creation beyond the client's concurrent terminal limit.
+ *
+ * - `queue`: wait until another terminal is released
+ * - `reject`: fail with RateLimitedError
+ */
+export type TerminalLimitPolicy = "queue" | "reject";
+
+/**
+ * Policy for prompts that arrive while a session is already processing one.
+ *
+ * - `reject`: fail the new prompt with InvalidSessionStateError
+ * - `queue`: run prompts one after another in arrival order
+ * - `cancel`: cancel the running turn (and any queued prompts), then run the new one
+ */
+export type PromptConcurrencyPolicy = "reject" | "queue" | "cancel";
+
+// =============================================================================
+// Authentication
+// =============================================================================
+
+/**
+ * A single authentication strategy, such as API key or OAuth2 token validation.
+ */
+export interface AuthStrategy {
+  /** Method identifier advertised to clients (e.g., "api_key", "oauth2", "custom") */
+  method: string;
+  /** Human-readable description advertised to clients */
+  description?: string;
+
+  /**
+   * Verify the credentials sent by the client.
+   *
+   * @param credentials - Method-specific credentials from the `authenticate` request
+   * @returns Promise resolving to the authentication result
+   */
+  authenticate(credentials: Record<string, unknown>): Promise<AuthenticateResponse>;
+}
+
+/**
+ * Pluggable authentication for an agent.
+ */
+export interface AuthProvider {
+  /** Supported authentication strategies */
+  strategies: AuthStrategy[];
+  /** Whether session/new, session/load and session/prompt require authentication (default: true) */
+  required?: boolean;
 }
 
 // =============================================================================
@@ -66,8 +180,34 @@ export interface ACPAgentEvents {
   sessionLoaded: (session: AgentSessionInterface) => void;
   /** Prompt received for processing */
   prompt: (session: AgentSessionInterface, content: ContentBlock[]) => void;
+  /** Prompt queued behind a running prompt (position is 1-based) */
+  promptQueued: (
+    session: AgentSessionInterface,
+    content: ContentBlock[],
+    position: number
+  ) => void;
+  /** Queued prompt was cancelled before it started */
+  promptDropped: (
+    session: AgentSessionInterface,
+    content: ContentBlock[]
+  ) => void;
   /** Session was cancelled by client */
   cancelled: (session: AgentSessionInterface) => void;
+  /** Session mode changed */
+  modeChanged: (
+    session: AgentSessionInterface,
+    previousMode: SessionMode,
+    currentMode: SessionMode
+  ) => void;
+  /** Session config option changed */
+  configChanged: (
+    session: AgentSessionInterface,
+    key: string,
+    value: unknown,
+    previousValue: unknown
+  ) => void;
+  /** Client authenticated successfully */
+  authenticated: (method: string, expiresAt: string | undefined) => void;
   /** Error occurred during agent operation */
   error: (error: Error) => void;
   /** Agent started successfully */
@@ -93,14 +233,301 @@ export interface PromptHandler {
    *
    * @param session - The agent session context
    * @param content - The user's message content
+   * @param attachments - The prompt's attachments, decoded into content blocks
    * @returns Promise resolving to the stop reason
    */
   handlePrompt(
     session: AgentSessionInterface,
-    content: ContentBlock[]
+    content: ContentBlock[],
+    attachments: ContentBlock[]
   ): Promise<StopReason>;
 }
 
+// =============================================================================
+// Config
+// =============================================================================
+
+/**
+ * Read-only access to a session's config values.
+ */
+export interface SessionConfigInterface {
+  /** Get a config value, or its declared default if it was never set */
+  get<T = unknown>(key: string): T | undefined;
+  /** Check whether a config value is set or has a declared default */
+  has(key: string): boolean;
+  /** Get all config values, including declared defaults */
+  toObject(): Record<string, unknown>;
+}
+
+// =============================================================================
+// Modes
+// =============================================================================
+
+/**
+ * Definition of a session mode registered with `agent.registerMode()`.
+ */
+export interface ModeDefinition {
+  /** Mode identifier, e.g. "plan" */
+  id: SessionMode;
+  /** Short human-readable name */
+  label: string;
+  /** What the mode is for */
+  description?: string;
+  /** Handler for prompts in this mode (default: the agent's prompt handler) */
+  promptHandler?: PromptHandler;
+  /**
+   * Tool kinds sessions may use in this mode (default: all).
+   * `readFile` counts as "read", `writeFile` as "edit" and
+   * `createTerminal` as "execute". Tool calls started without a kind are
+   * not restricted.
+   */
+  allowedToolKinds?: ToolKind[];
+}
+
+// =============================================================================
+// Slash Commands
+// =============================================================================
+
+/**
+ * A slash command invoked by a prompt like `/review src/main.ts`.
+ */
+export interface CommandInvocation {
+  /** Command name (without slash) */
+  name: string;
+  /** Arguments split on whitespace, with quoted strings kept together */
+  args: string[];
+  /** Raw argument text after the command name */
+  argsText: string;
+  /** Full prompt content, including any blocks after the command text */
+  content: ContentBlock[];
+  /** The prompt's attachments, decoded into content blocks */
+  attachments: ContentBlock[];
+}
+
+/**
+ * Handler for a slash command. Runs in place of the PromptHandler.
+ */
+export type CommandHandler = (
+  session: AgentSessionInterface,
+  invocation: CommandInvocation
+) => Promise<StopReason>;
+
+/**
+ * Definition of a slash command registered with `agent.registerCommand()`.
+ */
+export interface CommandDefinition {
+  /** Command name (without slash) */
+  name: string;
+  /** Human-readable description */
+  description: string;
+  /** Argument hint shown to the user, e.g. "<path> [--fix]" */
+  args?: string;
+  /** Modes the command is available in (default: all modes) */
+  modes?: SessionMode[];
+  /** Handler run when a prompt invokes the command */
+  handler: CommandHandler;
+}
+
+// =============================================================================
+// Tools
+// =============================================================================
+
+/**
+ * Definition of a tool registered with `agent.registerTool()`.
+ *
+ * @typeParam TInput - Validated input type produced by `inputSchema`
+ */
+export interface ToolDefinition<TInput = unknown> {
+  /** Tool name, as seen by the model */
+  name: string;
+  /** What the tool does, for the model */
+  description?: string;
+  /** Category of the tool operation; tools without one aren't restricted by modes */
+  kind?: ToolKind;
+  /** Schema used to validate inputs before the tool runs */
+  inputSchema: ZodType<TInput, ZodTypeDef, unknown>;
+  /** Whether to ask the user for permission before each run */
+  requiresPermission?: boolean;
+  /**
+   * Location reported for a run.
+   * Default: the `path` (and `line`) inputs, if present.
+   */
+  location?(input: TInput): ToolCallLocation | undefined;
+  /**
+   * Run the tool. The returned text or content is reported as the tool
+   * call's output; a thrown error is reported as a failed tool call.
+   */
+  execute(input: TInput, context: ToolContext): Promise<ToolResult>;
+}
+
+/**
+ * Context passed to a tool's `execute` function.
+ */
+export interface ToolContext {
+  /** Session the tool runs in */
+  session: AgentSessionInterface;
+  /** Builder for the tool call, for adding content while running */
+  toolCall: ToolCallBuilderInterface;
+  /** Aborted when the prompt turn is cancelled */
+  signal: AbortSignal;
+}
+
+/**
+ * Value returned by a tool: text, tool call content, or nothing.
+ */
+export type ToolResult = string | ToolCallContent | void;
+
+/**
+ * Result of `session.runTool()`.
+ */
+export interface ToolRunResult {
+  /** ID of the reported tool call */
+  toolCallId: ToolCallId;
+  /** How the run ended */
+  status: "completed" | "failed" | "denied" | "cancelled";
+  /** Output of a completed run */
+  output?: ToolCallContent;
+  /** Error message of a failed run */
+  error?: string;
+  /** Execution time in milliseconds */
+  duration?: number;
+}
+
+/**
+ * A JSON Schema document.
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Tool description for model providers, from `agent.getToolSchemas()`.
+ */
+export interface ToolSchema {
+  /** Tool name */
+  name: string;
+  /** What the tool does */
+  description?: string;
+  /** JSON Schema of the tool's input */
+  inputSchema: JsonSchema;
+}
+
+// =============================================================================
+// Model Providers
+// =============================================================================
+
+/**
+ * A tool use requested by the model.
+ */
+export interface ModelToolUse {
+  type: "tool_use";
+  /** Provider-assigned ID, echoed back in the tool result */
+  id: string;
+  /** Tool name */
+  name: string;
+  /** Tool input, validated by the tool before it runs */
+  input: unknown;
+}
+
+/**
+ * The result of a tool use, sent back to the model.
+ */
+export interface ModelToolResult {
+  type: "tool_result";
+  /** ID of the tool use this result answers */
+  toolUseId: string;
+  /** Tool output, or the reason the tool didn't run */
+  content: string;
+  /** Whether the tool failed, was denied or was cancelled */
+  isError?: boolean;
+}
+
+/**
+ * Reasoning produced by the model.
+ */
+export interface ModelThinking {
+  type: "thinking";
+  /** Reasoning text */
+  text: string;
+}
+
+/**
+ * A message in the conversation sent to the model.
+ * User messages hold prompt content and tool results; assistant messages
+ * hold text, thinking and tool uses.
+ */
+export interface ModelMessage {
+  role: "user" | "assistant";
+  content: Array<ContentBlock | ModelThinking | ModelToolUse | ModelToolResult>;
+}
+
+/**
+ * A request for one model response.
+ */
+export interface ModelRequest {
+  /** Conversation so far, oldest first */
+  messages: ModelMessage[];
+  /** Tools the model may use */
+  tools: ToolSchema[];
+  /** System prompt */
+  system?: string;
+  /** Maximum number of tokens to generate */
+  maxTokens?: number;
+  /** Aborted when the prompt turn is cancelled */
+  signal: AbortSignal;
+}
+
+/**
+ * Why the model stopped generating.
+ */
+export type ModelStopReason = "end_turn" | "tool_use" | "max_tokens";
+
+/**
+ * An event streamed by a model provider.
+ */
+export type ModelEvent =
+  | { type: "text"; text: string }
+  | ModelThinking
+  | ModelToolUse
+  | { type: "usage"; usage: Partial<UsageStats> }
+  | { type: "stop"; reason: ModelStopReason };
+
+/**
+ * Adapter between a model API and `AgentLoop`.
+ *
+ * @example
+ * ```typescript
+ * const provider: ModelProvider = {
+ *   async *stream(request) {
+ *     for await (const chunk of callModel(request)) {
+ *       yield { type: 'text', text: chunk.text };
+ *     }
+ *     yield { type: 'stop', reason: 'end_turn' };
+ *   }
+ * };
+ * ```
+ */
+export interface ModelProvider {
+  /**
+   * Stream one model response. When the stream ends without a "stop"
+   * event, the stop reason is "tool_use" if the model used tools and
+   * "end_turn" otherwise.
+   */
+  stream(request: ModelRequest): AsyncIterable<ModelEvent>;
+}
+
+// =============================================================================
+// Streaming
+// =============================================================================
+
+/**
+ * Options for `session.streamMessage()` and `session.streamThought()`.
+ */
+export interface StreamOptions {
+  /** Send a chunk once it has this many characters (default: 256) */
+  maxChunkSize?: number;
+  /** Send a chunk at most this many milliseconds after its first text (default: 50) */
+  flushInterval?: number;
+}
+
 // =============================================================================
 // Agent Session Interface
 // =============================================================================
@@ -119,6 +546,18 @@ export interface AgentSessionInterface {
   readonly currentMode: SessionMode | undefined;
   /** Whether this session has been cancelled */
   readonly isCancelled: boolean;
+  /**
+   * Signal for the current prompt turn, aborted when the turn is cancelled.
+   * Pass it to model calls and other cancellable work.
+   */
+  readonly signal: AbortSignal;
+  /** Capabilities the client advertised during initialization */
+  readonly capabilities: ClientData["capabilities"];
+  /** Config values for this session */
+  readonly config: SessionConfigInterface;
+
+  /** Check whether the client supports a capability */
+  supports(capability: ClientCapability): boolean;
 
   /** Send a session update to the client */
   sendUpdate(update: SessionUpdate): Promise<void>;
@@ -127,14 +566,37 @@ export interface AgentSessionInterface {
   sendAgentMessage(text: string, index?: number, final?: boolean): Promise<void>;
 
   /** Send a thought/reasoning chunk */
-  sendThought(text: string, index?: number, visible?: boolean): Promise<void>;
+  sendThought(
+    text: string,
+    index?: number,
+    visible?: boolean,
+    final?: boolean
+  ): Promise<void>;
+
+  /** Stream an agent message from text chunks, coalescing them; returns the full text */
+  streamMessage(chunks: AsyncIterable<string>, options?: StreamOptions): Promise<string>;
+
+  /** Stream a thought from text chunks, coalescing them; returns the full text */
+  streamThought(
+    chunks: AsyncIterable<string>,
+    options?: StreamOptions & { visible?: boolean }
+  ): Promise<string>;
 
   /** Send a plan update */
   sendPlan(plan: Plan): Promise<void>;
 
+  /** Start a plan whose changes are sent automatically */
+  startPlan(title?: string): PlanBuilderInterface;
+
   /** Start a new tool call and return a builder */
   startToolCall(options: ToolCallOptions): ToolCallBuilderInterface;
 
+  /** Run a registered tool with its full tool call lifecycle */
+  runTool(name: string, input: unknown): Promise<ToolRunResult>;
+
+  /** Describe the registered tools allowed in the current mode */
+  getToolSchemas(): ToolSchema[];
+
   /** Request permission from the user */
   requestPermission(
     toolCall: ToolCall,
@@ -159,6 +621,9 @@ export interface AgentSessionInterface {
 
   /** Throw an error if the session has been cancelled */
   throwIfCancelled(): void;
+
+  /** Record token usage for the current prompt turn */
+  reportUsage(usage: Partial<UsageStats>): void;
 }
 
 // =============================================================================
@@ -268,6 +733,52 @@ export interface DiffHunkData {
   content: string;
 }
 
+// =============================================================================
+// Plan Builder Interface
+// =============================================================================
+
+/**
+ * Interface for building a plan step by step.
+ */
+export interface PlanBuilderInterface {
+  /** The plan ID */
+  readonly id: string;
+  /** Whether the plan has steps and all of them have finished */
+  readonly isComplete: boolean;
+
+  /** Set the plan title */
+  setTitle(title: string): this;
+
+  /** Add a top-level step */
+  addStep(id: string, description: string, details?: string): this;
+
+  /** Add a substep to a step */
+  addSubstep(
+    parentId: string,
+    id: string,
+    description: string,
+    details?: string
+  ): this;
+
+  /** Mark a step as in progress */
+  start(stepId: string): this;
+
+  /** Mark a step as completed */
+  complete(stepId: string): this;
+
+  /** Mark a step as failed */
+  fail(stepId: string, reason?: string): this;
+
+  /** Mark a step as skipped */
+  skip(stepId: string): this;
+
+  /** Get a snapshot of the plan */
+  toPlan(): Plan;
+
+  /** Wait until all changes have been sent */
+  send(): Promise<Plan>;
+}
+
 // =============================================================================
 // Permission Outcome
 // =============================================================================
@@ -368,8 +879,49 @@ export interface SessionData {
   cancelled: boolean;
   /** Message count (for loaded sessions) */
   messageCount: number;
+  /** Session updates recorded for replay on load (oldest first) */
+  history?: SessionUpdate[];
+  /** Cumulative token usage across all prompt turns */
+  usage?: UsageStats;
 }
 
+/**
+ * Session data as persisted by a SessionStore.
+ * Runtime-only state (such as cancellation) is not persisted.
+ */
+export type StoredSessionData = Omit<SessionData, "cancelled">;
+
+/**
+ * Storage backend for agent sessions.
+ * Implement this interface to persist sessions in a database or other storage.
+ */
+export interface SessionStore {
+  /** Save (create or replace) a session */
+  save(data: StoredSessionData): Promise<void>;
+
+  /** Load a session, resolving to undefined if it doesn't exist */
+  load(sessionId: string): Promise<StoredSessionData | undefined>;
+
+  /** Delete a session, resolving to true if it existed */
+  delete(sessionId: string): Promise<boolean>;
+
+  /** List the IDs of all stored sessions */
+  list(): Promise<string[]>;
+}
+
+/**
+ * Boolean client capabilities that sessions can check, as `<group>.<name>`.
+ */
+export type ClientCapability =
+  | "fs.read"
+  | "fs.write"
+  | "fs.watch"
+  | "terminal.create"
+  | "terminal.interactive"
+  | "ui.permissionDialogs"
+  | "ui.diffViewer"
+  | "ui.codeNavigation";
+
 /**
  * Client information stored after initialization.
  */
@@ -18,12 +18,16 @@ import type {
   TerminalHandler,
   PermissionHandler,
   ConnectedAgentInfo,
+  AgentFeature,
+  SessionConfigOption,
+  SessionConfigValue,
 } from "./types.js";
 import type {
   JsonRpcRequest,
   JsonRpcResponse,
   JsonRpcNotification,
   InitializeResponse,
+  AuthenticateResponse,
   SessionNewResponse,
   SessionLoadResponse,
   SessionUpdate,
@@ -36,13 +40,26 @@ import type {
   ReleaseTerminalRequest,
   RequestPermissionRequest,
   ToolCall,
+  ConfigOptionDefinition,
 } from "../types/index.js";
 import {
-  ErrorCodes,
   SessionUpdateSchema,
   isJsonRpcRequest,
   isJsonRpcNotification,
 } from "../types/index.js";
+import {
+  AuthRequiredError,
+  CapabilityNotSupportedError,
+  ConnectionLostError,
+  TimeoutError,
+  fromJsonRpcError,
+} from "../protocol/errors.js";
+import {
+  ProtocolHandler,
+  type Middleware,
+  type RequestHandler,
+  type NotificationHandler,
+} from "../protocol/handler.js";
 
 /**
  * Protocol version supported by this client.
@@ -54,6 +71,14 @@ const PROTOCOL_VERSION = 1;
  */
 const DEFAULT_REQUEST_TIMEOUT = 30000;
 
+/**
+ * Reconnect policy defaults.
+ */
+const DEFAULT_RECONNECT_ATTEMPTS = 5;
+const DEFAULT_RECONNECT_DELAY = 500;
+const DEFAULT_MAX_RECONNECT_DELAY = 30000;
+const DEFAULT_RECONNECT_BACKOFF = 2;
+
 /**
  * ACP Client for connecting to AI agents.
  *
@@ -96,9 +121,25 @@ export class ACPClient {
   /** Event emitter for client events */
   private readonly emitter = new EventEmitter<ACPClientEvents>();
 
+  /** Dispatcher for requests and notifications from the agent */
+  private readonly protocol: ProtocolHandler;
+
   /** Active sessions by ID */
   private readonly sessions = new Map<string, Session>();
 
+  /** History replayed by the agent for sessions that are being loaded */
+  private readonly loadingSessions = new Map<string, SessionUpdate[]>();
+
+  /**
+   * Updates for unknown sessions received while session/new is in flight.
+   * The agent may send updates for a new session (e.g. its commands) before
+   * the session/new response has been processed.
+   */
+  private readonly unclaimedUpdates = new Map<string, SessionUpdate[]>();
+
+  /** Number of session/new requests in flight */
+  private creatingSessions = 0;
+
   /** Request timeout */
   private readonly requestTimeout: number;
 
@@ -106,6 +147,7 @@ export class ACPClient {
   private readonly pendingRequests = new Map<
     string | number,
     {
+      method: string;
       resolve: (response: JsonRpcResponse) => void;
       reject: (error: Error) => void;
       timeout: ReturnType<typeof setTimeout>;
@@ -121,6 +163,14 @@ export class ACPClient {
   /** Whether client is connected */
   private _connected = false;
 
+  /** Whether the client is reconnecting after losing the connection */
+  private _reconnecting = false;
+
+  /** Delay before the next reconnect attempt, cut short by disconnect() */
+  private reconnectWait:
+    | { timer: ReturnType<typeof setTimeout>; resolve: () => void }
+    | undefined;
+
   /** File system handler */
   private fileSystemHandler: FileSystemHandler | undefined;
 
@@ -130,6 +180,11 @@ export class ACPClient {
   /** Permission handler */
   private permissionHandler: PermissionHandler | undefined;
 
+  /** Credentials from the last successful authentication (used for re-auth) */
+  private authCredentials:
+    | { method: string; credentials: Record<string, unknown> }
+    | undefined;
+
   /**
    * Creates a new ACP client.
    *
@@ -141,6 +196,16 @@ export class ACPClient {
     this.options = options;
     this.requestTimeout = options.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT;
 
+    this.protocol = new ProtocolHandler({
+      onNotificationError: (_method, error) => {
+        this.emitter.emit(
+          "error",
+          error instanceof Error ? error : new Error(String(error))
+        );
+      },
+    });
+    this.registerHandlers();
+
     // Set up transport event handlers
     this.setupTransportHandlers();
   }
@@ -167,8 +232,16 @@ export class ACPClient {
 
     // Start transport
     await this.transport.start();
+    await this.initialize();
 
-    // Send initialize request
+    this._connected = true;
+    this.emitter.emit("connected");
+  }
+
+  /**
+   * Send the initialize request and store the agent info.
+   */
+  private async initialize(): Promise<void> {
     const initResponse = await this.sendRequest<InitializeResponse>(
       "initialize",
       {
@@ -194,8 +267,9 @@ export class ACPClient {
       capabilities: initResponse.capabilities,
     };
 
-    this._connected = true;
-    this.emitter.emit("connected");
+    if (initResponse.authMethods !== undefined) {
+      this._agentInfo.authMethods = initResponse.authMethods;
+    }
   }
 
   /**
@@ -207,16 +281,14 @@ export class ACPClient {
    * ```
    */
   async disconnect(): Promise<void> {
-    if (!this._connected) {
+    if (!this._connected && !this._reconnecting) {
       return;
     }
+    this._connected = false;
+    this.stopReconnecting();
 
     // Cancel all pending requests
-    for (const [id, pending] of this.pendingRequests) {
-      clearTimeout(pending.timeout);
-      pending.reject(new Error("Client disconnected"));
-      this.pendingRequests.delete(id);
-    }
+    this.rejectPendingRequests(() => new Error("Client disconnected"));
 
     // Deactivate all sessions
     for (const session of this.sessions.values()) {
@@ -227,11 +299,48 @@ export class ACPClient {
     // Close transport
     await this.transport.close();
 
-    this._connected = false;
     this._agentInfo = undefined;
+    this.authCredentials = undefined;
     this.emitter.emit("disconnected");
   }
 
+  /**
+   * Authenticate with the agent.
+   *
+   * The credentials are remembered so that requests failing with the
+   * auth-required error code are transparently re-authenticated and retried.
+   *
+   * @param method - Authentication method (see `agentInfo.authMethods`)
+   * @param credentials - Method-specific credentials
+   * @returns The authentication result
+   * @throws AuthRequiredError if the agent rejects the credentials
+   *
+   * @example
+   * ```typescript
+   * await client.connect();
+   * await client.authenticate('api_key', { apiKey: process.env.AGENT_API_KEY });
+   * ```
+   */
+  async authenticate(
+    method: string,
+    credentials: Record<string, unknown>
+  ): Promise<AuthenticateResponse> {
+    this.ensureConnected();
+
+    const response = await this.dispatchRequest<AuthenticateResponse>(
+      "authenticate",
+      { method, credentials }
+    );
+
+    if (!response.success) {
+      this.authCredentials = undefined;
+      throw new AuthRequiredError(response.error ?? "Authentication failed");
+    }
+
+    this.authCredentials = { method, credentials };
+    return response;
+  }
+
   // ===========================================================================
   // Session Management
   // ===========================================================================
@@ -254,63 +363,89 @@ export class ACPClient {
   async createSession(options: NewSessionOptions): Promise<Session> {
     this.ensureConnected();
 
-    const response = await this.sendRequest<SessionNewResponse>("session/new", {
-      workingDirectory: options.workingDirectory,
-      systemPrompt: options.systemPrompt,
-      initialMode: options.initialMode,
-      configOptions: options.configOptions,
-    });
+    let response: SessionNewResponse;
+    this.creatingSessions++;
+    try {
+      response = await this.sendRequest<SessionNewResponse>("session/new", {
+        workingDirectory: options.workingDirectory,
+        systemPrompt: options.systemPrompt,
+        initialMode: options.initialMode,
+        configOptions: options.configOptions,
+      });
+    } catch (error) {
+      this.claimUpdates(undefined);
+      throw error;
+    }
 
     const session = new Session(
       response.sessionId,
       this,
       options.initialMode
     );
-
-    // Set available modes from agent capabilities
-    if (this._agentInfo?.capabilities.sessionCapabilities?.modes) {
-      session.setAvailableModes(
-        this._agentInfo.capabilities.sessionCapabilities.modes
-      );
+    this.describeSession(
+      session,
+      options.configOptions ?? {},
+      response.configOptions
+    );
+    if (response.modes) {
+      session.setModes(response.modes);
     }
 
     this.sessions.set(response.sessionId, session);
+    for (const update of this.claimUpdates(response.sessionId)) {
+      session.handleUpdate(update);
+    }
     return session;
   }
 
   /**
    * Load an existing session.
+   * Updates replayed by the agent while loading are available as `session.history`.
    *
    * @param sessionId - Session ID to load
    * @returns Loaded session instance
+   * @throws CapabilityNotSupportedError if the agent can't load sessions
    * @throws Error if session loading fails
    *
    * @example
    * ```typescript
    * const session = await client.loadSession('sess_abc123');
+   *
+   * for (const update of session.history) {
+   *   if (update.type === 'agent_message_chunk') {
+   *     console.log(update.data.content);
+   *   }
+   * }
    * ```
    */
   async loadSession(sessionId: string): Promise<Session> {
     this.ensureConnected();
 
-    if (!this._agentInfo?.capabilities.loadSession) {
-      throw new Error("Agent does not support loading sessions");
+    if (!this.supports("loadSession")) {
+      throw new CapabilityNotSupportedError("loadSession");
     }
 
-    const response = await this.sendRequest<SessionLoadResponse>(
-      "session/load",
-      { sessionId }
-    );
+    // The agent replays the session history before responding
+    const history: SessionUpdate[] = [];
+    this.loadingSessions.set(sessionId, history);
 
-    const session = new Session(response.sessionId, this, response.mode);
+    let response: SessionLoadResponse;
+    try {
+      response = await this.sendRequest<SessionLoadResponse>("session/load", {
+        sessionId,
+      });
+    } finally {
+      this.loadingSessions.delete(sessionId);
+    }
 
-    // Set available modes from agent capabilities
-    if (this._agentInfo?.capabilities.sessionCapabilities?.modes) {
-      session.setAvailableModes(
-        this._agentInfo.capabilities.sessionCapabilities.modes
-      );
+    const session = new Session(response.sessionId, this, response.mode);
+    this.describeSession(session, response.configOptions);
+    if (response.usage) {
+      session.setUsage(response.usage);
     }
 
+    session.replayHistory(history);
+
     this.sessions.set(response.sessionId, session);
     return session;
   }
@@ -426,6 +561,50 @@ export class ACPClient {
     this.permissionHandler = handler;
   }
 
+  /**
+   * Add a middleware that sees every request and notification from the agent.
+   *
+   * @param middleware - Koa-style middleware function
+   *
+   * @example
+   * ```typescript
+   * client.use(async (ctx, next) => {
+   *   try {
+   *     await next();
+   *     console.log(`${ctx.method} ->`, ctx.result);
+   *   } catch (error) {
+   *     console.error(`${ctx.method} failed:`, error);
+   *     throw error;
+   *   }
+   * });
+   * ```
+   */
+  use(middleware: Middleware): void {
+    this.protocol.use(middleware);
+  }
+
+  /**
+   * Register a handler for a request method sent by the agent.
+   * Can be used for custom methods or to replace a built-in handler.
+   *
+   * @param method - The method name
+   * @param handler - Handler that receives the raw params and returns the result
+   */
+  onRequest(method: string, handler: RequestHandler): void {
+    this.protocol.onRequest(method, handler);
+  }
+
+  /**
+   * Register a handler for a notification method sent by the agent.
+   * Can be used for custom notifications or to replace a built-in handler.
+   *
+   * @param method - The method name
+   * @param handler - Handler that receives the raw params
+   */
+  onNotification(method: string, handler: NotificationHandler): void {
+    this.protocol.onNotification(method, handler);
+  }
+
   // ===========================================================================
   // Getters
   // ===========================================================================
@@ -437,6 +616,51 @@ export class ACPClient {
     return this._agentInfo;
   }
 
+  /**
+   * Check whether the connected agent supports a feature, based on the
+   * capabilities it declared during initialization.
+   *
+   * @param feature - Feature to check (see AgentFeature)
+   * @returns Whether the feature is supported; false when not connected
+   *
+   * @example
+   * ```typescript
+   * if (client.supports('mode:plan')) {
+   *   await session.setMode('plan');
+   * }
+   * ```
+   */
+  supports(feature: AgentFeature): boolean {
+    const capabilities = this._agentInfo?.capabilities;
+    if (!capabilities) {
+      return false;
+    }
+
+    if (feature.startsWith("mode:")) {
+      const modes = capabilities.sessionCapabilities?.modes ?? [];
+      return modes.includes(feature.slice("mode:".length));
+    }
+    if (feature.startsWith("config:")) {
+      const keys = capabilities.sessionCapabilities?.configOptions ?? [];
+      return keys.includes(feature.slice("config:".length));
+    }
+
+    switch (feature) {
+      case "loadSession":
+        return capabilities.loadSession === true;
+      case "prompt.streaming":
+        return capabilities.promptCapabilities?.streaming === true;
+      case "prompt.cancellation":
+        return capabilities.promptCapabilities?.cancellation === true;
+      case "prompt.attachments":
+        return capabilities.promptCapabilities?.attachments === true;
+      case "session.persistence":
+        return capabilities.sessionCapabilities?.persistence === true;
+      default:
+        return false;
+    }
+  }
+
   /**
    * Check if the client is connected.
    */
@@ -444,6 +668,13 @@ export class ACPClient {
     return this._connected;
   }
 
+  /**
+   * Check if the client is reconnecting after losing the connection.
+   */
+  get reconnecting(): boolean {
+    return this._reconnecting;
+  }
+
   // ===========================================================================
   // Internal Methods (used by Session)
   // ===========================================================================
@@ -451,9 +682,35 @@ export class ACPClient {
   /**
    * Send a JSON-RPC request and wait for response.
    *
+   * If the agent answers with the auth-required error code and the client
+   * has authenticated before, it re-authenticates once and retries.
+   *
    * @internal
    */
   async sendRequest<T>(method: string, params?: unknown): Promise<T> {
+    try {
+      return await this.dispatchRequest<T>(method, params);
+    } catch (error) {
+      if (
+        !(error instanceof AuthRequiredError) ||
+        !this.authCredentials ||
+        method === "authenticate"
+      ) {
+        throw error;
+      }
+
+      await this.authenticate(
+        this.authCredentials.method,
+        this.authCredentials.credentials
+      );
+      return this.dispatchRequest<T>(method, params);
+    }
+  }
+
+  /**
+   * Send a single JSON-RPC request and wait for its response.
+   */
+  private async dispatchRequest<T>(method: string, params?: unknown): Promise<T> {
     // Skip connection check for initialize method (called during connect())
     if (method !== "initialize") {
       this.ensureConnected();
@@ -471,18 +728,15 @@ export class ACPClient {
       // Set up timeout
       const timeout = setTimeout(() => {
         this.pendingRequests.delete(id);
-        reject(new Error(`Request ${method} timed out after ${this.requestTimeout}ms`));
+        reject(new TimeoutError(method, this.requestTimeout));
       }, this.requestTimeout);
 
       // Store pending request
       this.pendingRequests.set(id, {
+        method,
         resolve: (response: JsonRpcResponse) => {
           if (response.error) {
-            reject(
-              new Error(
-                `${response.error.message} (code: ${response.error.code})`
-              )
-            );
+            reject(fromJsonRpcError(response.error));
           } else {
             resolve(response.result as T);
           }
@@ -492,7 +746,7 @@ export class ACPClient {
       });
 
       // Send request
-      this.transport.request(request).then(
+      this.transport.request(request, { timeout: this.requestTimeout }).then(
         (response) => {
           const pending = this.pendingRequests.get(id);
           if (pending) {
@@ -547,120 +801,296 @@ export class ACPClient {
     });
 
     this.transport.on("close", () => {
-      this._connected = false;
-      this.emitter.emit("disconnected");
+      this.handleTransportClose();
     });
   }
 
   /**
-   * Handle an incoming message from the transport.
+   * Handle the transport closing without disconnect() being called.
    */
-  private handleMessage(
-    message: JsonRpcRequest | JsonRpcResponse | JsonRpcNotification
-  ): void {
-    if (isJsonRpcRequest(message)) {
-      this.handleRequest(message).catch((error) => {
-        this.emitter.emit("error", error);
-      });
-    } else if (isJsonRpcNotification(message)) {
-      this.handleNotification(message);
+  private handleTransportClose(): void {
+    this.rejectPendingRequests(
+      (method) => new ConnectionLostError(method)
+    );
+
+    // Closed by disconnect(), or during a reconnect attempt
+    const wasConnected = this._connected;
+    this._connected = false;
+    if (!wasConnected || this._reconnecting) {
+      return;
     }
-    // Responses are handled by the pending request handlers
+
+    if (!this.options.reconnect) {
+      this.emitter.emit("disconnected");
+      return;
+    }
+
+    this.reconnect().catch((error) => {
+      this.emitter.emit(
+        "error",
+        error instanceof Error ? error : new Error(String(error))
+      );
+    });
   }
 
   /**
-   * Handle an incoming request from the agent.
+   * Reconnect with backoff until an attempt succeeds or the attempts run out.
    */
-  private async handleRequest(request: JsonRpcRequest): Promise<void> {
-    let result: unknown;
-    let error: { code: number; message: string } | undefined;
+  private async reconnect(): Promise<void> {
+    const policy = this.options.reconnect ?? {};
+    const maxAttempts = policy.maxAttempts ?? DEFAULT_RECONNECT_ATTEMPTS;
+    const maxDelay = policy.maxDelay ?? DEFAULT_MAX_RECONNECT_DELAY;
+    const backoff = policy.backoffFactor ?? DEFAULT_RECONNECT_BACKOFF;
+    let delay = policy.initialDelay ?? DEFAULT_RECONNECT_DELAY;
+
+    this._reconnecting = true;
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      this.emitter.emit("reconnecting", attempt, delay);
+      await this.waitForReconnect(delay);
+      if (!this._reconnecting) {
+        return;
+      }
 
-    try {
-      switch (request.method) {
-        case "fs/read_text_file":
-          result = await this.handleFsReadTextFile(
-            request.params as ReadTextFileRequest
-          );
-          break;
+      try {
+        await this.transport.start();
+        await this.initialize();
+        this._connected = true;
 
-        case "fs/write_text_file":
-          result = await this.handleFsWriteTextFile(
-            request.params as WriteTextFileRequest
+        if (this.authCredentials) {
+          await this.authenticate(
+            this.authCredentials.method,
+            this.authCredentials.credentials
           );
-          break;
+        }
+        const lostSessions = await this.resumeSessions();
+
+        this._reconnecting = false;
+        this.emitter.emit("reconnected", attempt, lostSessions);
+        return;
+      } catch (error) {
+        this._connected = false;
+        if (!this._reconnecting) {
+          return;
+        }
+        this.emitter.emit(
+          "error",
+          error instanceof Error ? error : new Error(String(error))
+        );
+        await this.transport.close().catch(() => undefined);
+      }
 
-        case "terminal/create":
-          result = await this.handleTerminalCreate(
-            request.params as CreateTerminalRequest
-          );
-          break;
+      delay = Math.min(delay * backoff, maxDelay);
+    }
 
-        case "terminal/output":
-          result = await this.handleTerminalOutput(
-            request.params as TerminalOutputRequest
-          );
-          break;
+    // Out of attempts
+    this._reconnecting = false;
+    for (const session of this.sessions.values()) {
+      session.deactivate();
+    }
+    this.sessions.clear();
+    this.emitter.emit("disconnected");
+  }
 
-        case "terminal/wait_for_exit":
-          result = await this.handleTerminalWaitForExit(
-            request.params as WaitForExitRequest
-          );
-          break;
+  /**
+   * Set the modes and config options of a new or loaded session from the
+   * agent capabilities and the config option declarations the agent sent.
+   *
+   * @param values - Current config values by key
+   * @param definitions - Config option declarations from session/new
+   */
+  private describeSession(
+    session: Session,
+    values: Record<string, unknown> = {},
+    definitions: ConfigOptionDefinition[] = []
+  ): void {
+    const sessionCapabilities = this._agentInfo?.capabilities.sessionCapabilities;
+    session.setAvailableModes(sessionCapabilities?.modes ?? []);
 
-        case "terminal/kill":
-          result = await this.handleTerminalKill(
-            request.params as KillTerminalRequest
-          );
-          break;
+    const options: SessionConfigOption[] = definitions.map((definition) =>
+      toSessionConfigOption(definition, values[definition.key])
+    );
+    for (const key of sessionCapabilities?.configOptions ?? []) {
+      if (!options.some((option) => option.id === key)) {
+        const option: SessionConfigOption = { id: key, label: key };
+        if (values[key] !== undefined) {
+          option.currentValueId = toValueId(values[key]);
+        }
+        options.push(option);
+      }
+    }
+    session.setConfigOptions(options);
+  }
 
-        case "terminal/release":
-          result = await this.handleTerminalRelease(
-            request.params as ReleaseTerminalRequest
-          );
-          break;
+  /**
+   * Finish a session/new request and take the updates received for the new
+   * session before it was registered.
+   *
+   * @param sessionId - ID of the new session, or undefined if the request failed
+   */
+  private claimUpdates(sessionId: string | undefined): SessionUpdate[] {
+    this.creatingSessions--;
+    const updates =
+      sessionId !== undefined ? this.unclaimedUpdates.get(sessionId) ?? [] : [];
+    if (sessionId !== undefined) {
+      this.unclaimedUpdates.delete(sessionId);
+    }
+    if (this.creatingSessions === 0) {
+      this.unclaimedUpdates.clear();
+    }
+    return updates;
+  }
 
-        case "session/request_permission":
-          result = await this.handleRequestPermission(
-            request.params as RequestPermissionRequest
-          );
-          break;
+  /**
+   * Load the active sessions on the new connection.
+   *
+   * @returns IDs of the sessions that could not be loaded; they are deactivated
+   */
+  private async resumeSessions(): Promise<string[]> {
+    const lostSessions: string[] = [];
+
+    for (const [sessionId, session] of [...this.sessions]) {
+      let resumed = false;
+      if (this._agentInfo?.capabilities.loadSession) {
+        // The session already has the history the agent replays
+        this.sessions.delete(sessionId);
+        this.loadingSessions.set(sessionId, []);
+        try {
+          await this.sendRequest<SessionLoadResponse>("session/load", {
+            sessionId,
+          });
+          resumed = true;
+        } catch (error) {
+          if (error instanceof ConnectionLostError) {
+            this.sessions.set(sessionId, session);
+            throw error;
+          }
+        } finally {
+          this.loadingSessions.delete(sessionId);
+        }
+      }
 
-        default:
-          error = {
-            code: ErrorCodes.MethodNotFound,
-            message: `Method not found: ${request.method}`,
-          };
+      if (resumed) {
+        this.sessions.set(sessionId, session);
+      } else {
+        session.deactivate();
+        this.sessions.delete(sessionId);
+        lostSessions.push(sessionId);
       }
-    } catch (err) {
-      error = {
-        code: ErrorCodes.InternalError,
-        message: err instanceof Error ? err.message : String(err),
-      };
     }
 
-    // Send response
-    const response: JsonRpcResponse = {
-      jsonrpc: "2.0",
-      id: request.id,
-      ...(error ? { error } : { result }),
-    };
+    return lostSessions;
+  }
 
-    await this.transport.notify({
-      jsonrpc: "2.0",
-      method: "__response__",
-      params: response,
+  /**
+   * Wait before a reconnect attempt.
+   */
+  private waitForReconnect(delay: number): Promise<void> {
+    return new Promise((resolve) => {
+      this.reconnectWait = {
+        timer: setTimeout(() => {
+          this.reconnectWait = undefined;
+          resolve();
+        }, delay),
+        resolve,
+      };
     });
   }
 
   /**
-   * Handle an incoming notification from the agent.
+   * Stop reconnecting, ending the wait for the next attempt.
+   */
+  private stopReconnecting(): void {
+    this._reconnecting = false;
+    if (this.reconnectWait) {
+      clearTimeout(this.reconnectWait.timer);
+      this.reconnectWait.resolve();
+      this.reconnectWait = undefined;
+    }
+  }
+
+  /**
+   * Reject all pending requests.
    */
-  private handleNotification(notification: JsonRpcNotification): void {
-    if (notification.method === "session/update") {
-      this.handleSessionUpdate(notification.params as SessionUpdate);
+  private rejectPendingRequests(createError: (method: string) => Error): void {
+    for (const [id, pending] of this.pendingRequests) {
+      clearTimeout(pending.timeout);
+      this.pendingRequests.delete(id);
+      pending.reject(createError(pending.method));
     }
   }
 
+  /**
+   * Handle an incoming message from the transport.
+   */
+  private handleMessage(
+    message: JsonRpcRequest | JsonRpcResponse | JsonRpcNotification
+  ): void {
+    if (isJsonRpcRequest(message)) {
+      this.handleRequest(message).catch((error) => {
+        this.emitter.emit("error", error);
+      });
+    } else if (isJsonRpcNotification(message)) {
+      // Notification errors are reported through the protocol handler
+      void this.handleNotification(message);
+    }
+    // Responses are handled by the pending request handlers
+  }
+
+  /**
+   * Handle an incoming request from the agent.
+   */
+  private async handleRequest(request: JsonRpcRequest): Promise<void> {
+    const response = await this.protocol.handleMessage(request);
+    if (!response) {
+      return;
+    }
+
+    await this.transport.respond(response);
+  }
+
+  /**
+   * Handle an incoming notification from the agent.
+   */
+  private async handleNotification(
+    notification: JsonRpcNotification
+  ): Promise<void> {
+    await this.protocol.handleMessage(notification);
+  }
+
+  /**
+   * Register the built-in handlers for agent requests and notifications.
+   */
+  private registerHandlers(): void {
+    this.protocol.onRequest("fs/read_text_file", (params) =>
+      this.handleFsReadTextFile(params as ReadTextFileRequest)
+    );
+    this.protocol.onRequest("fs/write_text_file", (params) =>
+      this.handleFsWriteTextFile(params as WriteTextFileRequest)
+    );
+    this.protocol.onRequest("terminal/create", (params) =>
+      this.handleTerminalCreate(params as CreateTerminalRequest)
+    );
+    this.protocol.onRequest("terminal/output", (params) =>
+      this.handleTerminalOutput(params as TerminalOutputRequest)
+    );
+    this.protocol.onRequest("terminal/wait_for_exit", (params) =>
+      this.handleTerminalWaitForExit(params as WaitForExitRequest)
+    );
+    this.protocol.onRequest("terminal/kill", (params) =>
+      this.handleTerminalKill(params as KillTerminalRequest)
+    );
+    this.protocol.onRequest("terminal/release", (params) =>
+      this.handleTerminalRelease(params as ReleaseTerminalRequest)
+    );
+    this.protocol.onRequest("session/request_permission", (params) =>
+      this.handleRequestPermission(params as RequestPermissionRequest)
+    );
+
+    this.protocol.onNotification("session/update", (params) => {
+      this.handleSessionUpdate(params);
+    });
+  }
+
   /**
    * Handle a session update notification.
    */
@@ -679,9 +1109,17 @@ export class ACPClient {
     const update = parseResult.data as SessionUpdate;
     const session = this.sessions.get(update.sessionId);
 
-    // Route to session
+    // Route to session, or buffer history replayed during session/load and
+    // updates for sessions that are being created
+    const loading = this.loadingSessions.get(update.sessionId);
     if (session) {
       session.handleUpdate(update);
+    } else if (loading) {
+      loading.push(update);
+    } else if (this.creatingSessions > 0) {
+      const updates = this.unclaimedUpdates.get(update.sessionId) ?? [];
+      updates.push(update);
+      this.unclaimedUpdates.set(update.sessionId, updates);
     }
 
     // Emit global event
@@ -785,6 +1223,8 @@ export class ACPClient {
   private async handleRequestPermission(
     params: RequestPermissionRequest
   ): Promise<unknown> {
+    this.sessions.get(params.sessionId)?.handlePermissionRequest(params);
+
     if (!this.permissionHandler) {
       // Default: deny all permissions if no handler
       return {
@@ -817,3 +1257,46 @@ export class ACPClient {
     }
   }
 }
+
+/**
+ * Convert a config option declared by the agent to the client's form.
+ *
+ * @param value - Current value; the declared default is used if undefined
+ */
+function toSessionConfigOption(
+  definition: ConfigOptionDefinition,
+  value: unknown
+): SessionConfigOption {
+  const option: SessionConfigOption = {
+    id: definition.key,
+    label: definition.label,
+  };
+  if (definition.description !== undefined) {
+    option.description = definition.description;
+  }
+  if (definition.type === "enum") {
+    option.values = definition.choices.map((choice) => {
+      const configValue: SessionConfigValue = {
+        id: choice.value,
+        label: choice.label,
+      };
+      if (choice.description !== undefined) {
+        configValue.description = choice.description;
+      }
+      return configValue;
+    });
+  }
+
+  const current = value ?? definition.default;
+  if (current !== undefined) {
+    option.currentValueId = toValueId(current);
+  }
+  return option;
+}
+
+/**
+ * Format a config value as a value ID.
+ */
+function toValueId(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
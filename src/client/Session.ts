@@ -9,17 +9,24 @@
 
 import { EventEmitter } from "eventemitter3";
 import type { ACPClient } from "./ACPClient.js";
+import { Transcript } from "./Transcript.js";
+import { CapabilityNotSupportedError } from "../protocol/errors.js";
 import type {
   SessionEvents,
   PromptResult,
+  PromptStreamEvent,
   SessionConfigOption,
+  AgentFeature,
 } from "./types.js";
 import type {
   ContentBlock,
+  RequestPermissionRequest,
   SessionMode,
+  SessionModeInfo,
   SessionUpdate,
   AvailableCommand,
   SessionPromptResponse,
+  UsageStats,
 } from "../types/index.js";
 
 /**
@@ -56,12 +63,24 @@ export class Session {
   /** Available modes for this session */
   private _availableModes: SessionMode[] = [];
 
+  /** Labels and descriptions of the modes the agent describes */
+  private _modes: SessionModeInfo[] = [];
+
   /** Current configuration options */
   private _configOptions: SessionConfigOption[] = [];
 
   /** Available commands */
   private _availableCommands: AvailableCommand[] = [];
 
+  /** Running token usage totals for the session's prompts */
+  private _usage: UsageStats = { inputTokens: 0, outputTokens: 0 };
+
+  /** Updates replayed by the agent when the session was loaded */
+  private _history: SessionUpdate[] = [];
+
+  /** Conversation assembled from prompts and session updates */
+  private readonly _transcript = new Transcript();
+
   /** Whether the session is active */
   private _isActive = true;
 
@@ -101,18 +120,113 @@ export class Session {
   async prompt(content: ContentBlock[]): Promise<PromptResult> {
     this.ensureActive();
 
-    const response = await this.client.sendRequest<SessionPromptResponse>(
-      "session/prompt",
-      {
-        sessionId: this.id,
-        content,
-      }
-    );
+    this._transcript.startTurn(content);
+    let response: SessionPromptResponse;
+    try {
+      response = await this.client.sendRequest<SessionPromptResponse>(
+        "session/prompt",
+        {
+          sessionId: this.id,
+          content,
+        }
+      );
+    } catch (error) {
+      // The turn is over even though the prompt failed
+      this._transcript.endTurn({ stopReason: "error", usage: undefined });
+      throw error;
+    }
 
-    return {
+    if (response.usage) {
+      this.addUsage(response.usage);
+      this.emitter.emit("usage", { ...response.usage }, this.usage);
+    }
+
+    const result: PromptResult = {
       stopReason: response.stopReason,
       usage: response.usage,
     };
+    this._transcript.endTurn(result);
+    return result;
+  }
+
+  /**
+   * Send a prompt to the agent and iterate over what it sends back.
+   *
+   * The prompt is sent when iteration starts. Events arrive in order and the
+   * last one is the prompt result. Leaving the loop early cancels the prompt.
+   *
+   * @param content - Content blocks to send
+   * @returns Async iterable of prompt events, ending with the result
+   * @throws Error if the session is not active or the prompt fails
+   *
+   * @example
+   * ```typescript
+   * for await (const event of session.promptStream([
+   *   { type: 'text', text: 'Add tests for the parser' }
+   * ])) {
+   *   if (event.type === 'message_delta') {
+   *     process.stdout.write(event.text);
+   *   } else if (event.type === 'result') {
+   *     console.log('\nStop reason:', event.result.stopReason);
+   *   }
+   * }
+   * ```
+   */
+  async *promptStream(
+    content: ContentBlock[]
+  ): AsyncGenerator<PromptStreamEvent, void, undefined> {
+    const queue: PromptStreamEvent[] = [];
+    let wake: (() => void) | undefined;
+    const push = (event: PromptStreamEvent): void => {
+      queue.push(event);
+      wake?.();
+    };
+
+    const onUpdate = (update: SessionUpdate): void => {
+      const event = this.toStreamEvent(update);
+      if (event) {
+        push(event);
+      }
+    };
+    const onPermissionRequest = (request: RequestPermissionRequest): void => {
+      push({ type: "permission_requested", request });
+    };
+    this.on("update", onUpdate);
+    this.on("permissionRequest", onPermissionRequest);
+
+    let settled = false;
+    const finish = (): void => {
+      settled = true;
+      wake?.();
+    };
+    const prompt = this.prompt(content);
+    prompt.then(finish, finish);
+
+    try {
+      for (;;) {
+        const event = queue.shift();
+        if (event) {
+          yield event;
+        } else if (settled) {
+          break;
+        } else {
+          await new Promise<void>((resolve) => {
+            wake = resolve;
+          });
+          wake = undefined;
+        }
+      }
+
+      yield { type: "result", result: await prompt };
+    } finally {
+      this.off("update", onUpdate);
+      this.off("permissionRequest", onPermissionRequest);
+
+      // The loop was left before the prompt finished
+      if (!settled) {
+        await this.cancel().catch(() => undefined);
+      }
+    }
   }
 
   /**
@@ -140,6 +254,7 @@ export class Session {
    *
    * @param modeId - Mode identifier to set
    * @returns Promise resolving when mode is set
+   * @throws CapabilityNotSupportedError if the agent doesn't offer the mode
    *
    * @example
    * ```typescript
@@ -148,10 +263,12 @@ export class Session {
    */
   async setMode(modeId: string): Promise<void> {
     this.ensureActive();
+    this.ensureSupported(`mode:${modeId}`);
 
     const response = await this.client.sendRequest<{
       previousMode: SessionMode;
       currentMode: SessionMode;
+      mode?: SessionModeInfo;
     }>("session/set_mode", {
       sessionId: this.id,
       mode: modeId,
@@ -159,6 +276,7 @@ export class Session {
 
     const previousMode = this._currentMode;
     this._currentMode = response.currentMode;
+    this.rememberMode(response.mode);
 
     if (previousMode !== response.currentMode) {
       this.emitter.emit(
@@ -175,6 +293,7 @@ export class Session {
    * @param configId - Configuration key
    * @param valueId - Value to set
    * @returns Promise resolving when option is set
+   * @throws CapabilityNotSupportedError if the agent doesn't declare the option
    *
    * @example
    * ```typescript
@@ -183,6 +302,7 @@ export class Session {
    */
   async setConfigOption(configId: string, valueId: string): Promise<void> {
     this.ensureActive();
+    this.ensureSupported(`config:${configId}`);
 
     const response = await this.client.sendRequest<{
       key: string;
@@ -194,11 +314,7 @@ export class Session {
       value: valueId,
     });
 
-    // Update local config state
-    const option = this._configOptions.find((o) => o.id === configId);
-    if (option) {
-      option.currentValueId = valueId;
-    }
+    this.updateConfigValue(configId, valueId);
 
     this.emitter.emit("configChange", configId, response.currentValue);
   }
@@ -252,10 +368,13 @@ export class Session {
    * @internal
    */
   handleUpdate(update: SessionUpdate): void {
+    this._transcript.applyUpdate(update);
+
     // Process specific update types
     switch (update.type) {
       case "current_mode_update":
         this._currentMode = update.data.currentMode;
+        this.rememberMode(update.data.mode);
         this.emitter.emit(
           "modeChange",
           update.data.previousMode,
@@ -264,6 +383,12 @@ export class Session {
         break;
 
       case "config_option_update":
+        this.updateConfigValue(
+          update.data.key,
+          typeof update.data.currentValue === "string"
+            ? update.data.currentValue
+            : JSON.stringify(update.data.currentValue)
+        );
         this.emitter.emit(
           "configChange",
           update.data.key,
@@ -281,6 +406,28 @@ export class Session {
     this.emitter.emit("update", update);
   }
 
+  /**
+   * Handle a permission request from the agent for this session.
+   * Called by ACPClient before the permission handler runs.
+   *
+   * @internal
+   */
+  handlePermissionRequest(request: RequestPermissionRequest): void {
+    this.emitter.emit("permissionRequest", request);
+  }
+
+  /**
+   * Apply the history replayed by the agent during session/load.
+   *
+   * @internal
+   */
+  replayHistory(updates: SessionUpdate[]): void {
+    for (const update of updates) {
+      this.handleUpdate(update);
+    }
+    this._history = [...updates];
+  }
+
   /**
    * Mark the session as inactive.
    *
@@ -299,6 +446,24 @@ export class Session {
     this._availableModes = modes;
   }
 
+  /**
+   * Set the token usage of the session's earlier prompts, e.g. when it is loaded.
+   *
+   * @internal
+   */
+  setUsage(usage: UsageStats): void {
+    this._usage = { ...usage };
+  }
+
+  /**
+   * Set the descriptions of the agent's modes.
+   *
+   * @internal
+   */
+  setModes(modes: SessionModeInfo[]): void {
+    this._modes = modes;
+  }
+
   /**
    * Set configuration options for this session.
    *
@@ -326,6 +491,13 @@ export class Session {
     return [...this._availableModes];
   }
 
+  /**
+   * Get the labels and descriptions of the modes the agent describes.
+   */
+  get modes(): SessionModeInfo[] {
+    return [...this._modes];
+  }
+
   /**
    * Get current configuration options.
    */
@@ -340,6 +512,30 @@ export class Session {
     return [...this._availableCommands];
   }
 
+  /**
+   * Get the conversation history replayed when the session was loaded, oldest first.
+   * Empty for sessions created with ACPClient.createSession().
+   */
+  get history(): SessionUpdate[] {
+    return [...this._history];
+  }
+
+  /**
+   * Get the conversation of this session, assembled turn by turn from
+   * prompts and session updates, including replayed history.
+   */
+  get transcript(): Transcript {
+    return this._transcript;
+  }
+
+  /**
+   * Get the running token usage totals for the session's prompts.
+   * A loaded session starts from the totals the agent kept for it.
+   */
+  get usage(): UsageStats {
+    return { ...this._usage };
+  }
+
   /**
    * Check if the session is active.
    */
@@ -351,6 +547,71 @@ export class Session {
   // Private Helpers
   // ===========================================================================
 
+  /**
+   * Convert a session update to a prompt stream event, if it has one.
+   */
+  private toStreamEvent(update: SessionUpdate): PromptStreamEvent | undefined {
+    switch (update.type) {
+      case "agent_message_chunk":
+        return { type: "message_delta", text: update.data.content };
+      case "thought_message_chunk":
+        return { type: "thought_delta", text: update.data.content };
+      case "tool_call":
+        return { type: "tool_call_started", toolCall: update.data };
+      case "tool_call_update": {
+        const toolCall = this._transcript.getToolCall(update.data.id);
+        return toolCall
+          ? { type: "tool_call_updated", update: update.data, toolCall }
+          : undefined;
+      }
+      case "plan":
+        return { type: "plan", plan: update.data };
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Add the usage of a prompt turn to the running totals.
+   */
+  private addUsage(usage: UsageStats): void {
+    this._usage.inputTokens += usage.inputTokens;
+    this._usage.outputTokens += usage.outputTokens;
+
+    if (usage.cachedInputTokens !== undefined) {
+      this._usage.cachedInputTokens =
+        (this._usage.cachedInputTokens ?? 0) + usage.cachedInputTokens;
+    }
+  }
+
+  /**
+   * Record the description of a mode sent with a mode change.
+   */
+  private rememberMode(mode: SessionModeInfo | undefined): void {
+    if (mode) {
+      this._modes = [...this._modes.filter((m) => m.id !== mode.id), mode];
+    }
+  }
+
+  /**
+   * Record the current value of a config option.
+   */
+  private updateConfigValue(configId: string, valueId: string): void {
+    const option = this._configOptions.find((o) => o.id === configId);
+    if (option) {
+      option.currentValueId = valueId;
+    }
+  }
+
+  /**
+   * Ensure the agent supports a feature before asking it to use it.
+   */
+  private ensureSupported(feature: AgentFeature): void {
+    if (!this.client.supports(feature)) {
+      throw new CapabilityNotSupportedError(feature);
+    }
+  }
+
   /**
    * Ensure the session is active before performing operations.
    */
@@ -0,0 +1,324 @@
+/**
+ * Session Transcript
+ *
+ * Assembles the session updates of a session into prompt turns: message
+ * and thought chunks into text, tool call updates into their tool calls,
+ * and the latest plan.
+ *
+ * @module @anthropic/acp-sdk/client/Transcript
+ */
+
+import { EventEmitter } from "eventemitter3";
+import type {
+  PromptResult,
+  TranscriptEvents,
+  TranscriptSnapshot,
+  TranscriptToolCall,
+  TranscriptTurn,
+} from "./types.js";
+import type {
+  ContentBlock,
+  Plan,
+  SessionUpdate,
+  ToolCall,
+  ToolCallUpdate,
+} from "../types/index.js";
+
+/**
+ * A turn with the chunks its text is assembled from.
+ */
+interface TurnState {
+  turn: TranscriptTurn;
+  promptChunks: Map<number, string>;
+  messageChunks: Map<number, string>;
+  thoughtChunks: Map<number, string>;
+  /** Whether more replayed prompt chunks are expected */
+  collectingPrompt: boolean;
+}
+
+/**
+ * The conversation of a session, turn by turn.
+ *
+ * Chunks are assembled in index order, so chunks that arrive out of order
+ * or twice still produce the right text. Tool call updates are merged into
+ * their tool call by ID, even after the turn has ended.
+ *
+ * Sessions keep their transcript up to date; it includes the history
+ * replayed when a session is loaded.
+ *
+ * @example
+ * ```typescript
+ * session.transcript.on('messageChange', (text, turn) => {
+ *   render(turn.index, text);
+ * });
+ * session.transcript.on('toolCallChange', (toolCall) => {
+ *   console.log(`${toolCall.tool}: ${toolCall.status}`);
+ * });
+ *
+ * await session.prompt([{ type: 'text', text: 'Fix the tests' }]);
+ * await saveFile('transcript.json', JSON.stringify(session.transcript));
+ * ```
+ */
+export class Transcript {
+  /** Event emitter for transcript events */
+  private readonly emitter = new EventEmitter<TranscriptEvents>();
+
+  /** Turns, oldest first */
+  private readonly states: TurnState[] = [];
+
+  /** Tool calls by ID, with the turn they belong to */
+  private readonly toolCalls = new Map<
+    string,
+    { state: TurnState; toolCall: TranscriptToolCall }
+  >();
+
+  /** Latest plan */
+  private _plan: Plan | undefined;
+
+  // ===========================================================================
+  // Getters
+  // ===========================================================================
+
+  /**
+   * Get all turns, oldest first.
+   */
+  get turns(): TranscriptTurn[] {
+    return this.states.map((state) => structuredClone(state.turn));
+  }
+
+  /**
+   * Get the latest turn.
+   */
+  get currentTurn(): TranscriptTurn | undefined {
+    const state = this.states.at(-1);
+    return state ? structuredClone(state.turn) : undefined;
+  }
+
+  /**
+   * Get the latest plan sent by the agent.
+   */
+  get plan(): Plan | undefined {
+    return this._plan ? structuredClone(this._plan) : undefined;
+  }
+
+  /**
+   * Get a tool call by ID.
+   *
+   * @param toolCallId - Tool call ID
+   * @returns The tool call with its updates merged in, or undefined
+   */
+  getToolCall(toolCallId: string): TranscriptToolCall | undefined {
+    const entry = this.toolCalls.get(toolCallId);
+    return entry ? structuredClone(entry.toolCall) : undefined;
+  }
+
+  /**
+   * Get the transcript as plain data for JSON serialization.
+   */
+  toJSON(): TranscriptSnapshot {
+    const snapshot: TranscriptSnapshot = { turns: this.turns };
+    if (this._plan) {
+      snapshot.plan = structuredClone(this._plan);
+    }
+    return snapshot;
+  }
+
+  // ===========================================================================
+  // Event Handling
+  // ===========================================================================
+
+  /**
+   * Register an event handler.
+   *
+   * @param event - Event name
+   * @param handler - Event handler function
+   */
+  on<K extends keyof TranscriptEvents>(
+    event: K,
+    handler: TranscriptEvents[K]
+  ): void {
+    this.emitter.on(event, handler as (...args: unknown[]) => void);
+  }
+
+  /**
+   * Unregister an event handler.
+   *
+   * @param event - Event name
+   * @param handler - Event handler function to remove
+   */
+  off<K extends keyof TranscriptEvents>(
+    event: K,
+    handler: TranscriptEvents[K]
+  ): void {
+    this.emitter.off(event, handler as (...args: unknown[]) => void);
+  }
+
+  // ===========================================================================
+  // Internal Methods
+  // ===========================================================================
+
+  /**
+   * Start a turn for a prompt sent by this client.
+   *
+   * @internal
+   */
+  startTurn(prompt: ContentBlock[]): void {
+    this.addTurn(structuredClone(prompt), false);
+  }
+
+  /**
+   * End the latest turn with the prompt result.
+   *
+   * @internal
+   */
+  endTurn(result: PromptResult): void {
+    const state = this.states.at(-1);
+    if (!state) {
+      return;
+    }
+
+    state.turn.stopReason = result.stopReason;
+    if (result.usage) {
+      state.turn.usage = { ...result.usage };
+    }
+    this.emitter.emit("turnEnd", structuredClone(state.turn));
+  }
+
+  /**
+   * Apply a session update from the agent.
+   *
+   * @internal
+   */
+  applyUpdate(update: SessionUpdate): void {
+    switch (update.type) {
+      case "user_message_chunk": {
+        const current = this.states.at(-1);
+        const state = current?.collectingPrompt
+          ? current
+          : this.addTurn([], true);
+        state.promptChunks.set(update.data.index, update.data.content);
+        state.turn.prompt = sortChunks(state.promptChunks).map(
+          (text) => ({ type: "text", text })
+        );
+        if (update.data.final) {
+          state.collectingPrompt = false;
+        }
+        this.emitter.emit(
+          "promptChange",
+          structuredClone(state.turn.prompt),
+          structuredClone(state.turn)
+        );
+        break;
+      }
+
+      case "agent_message_chunk": {
+        const state = this.contentTurn();
+        state.messageChunks.set(update.data.index, update.data.content);
+        state.turn.agentMessage = sortChunks(state.messageChunks).join("");
+        this.emitter.emit(
+          "messageChange",
+          state.turn.agentMessage,
+          structuredClone(state.turn)
+        );
+        break;
+      }
+
+      case "thought_message_chunk": {
+        const state = this.contentTurn();
+        state.thoughtChunks.set(update.data.index, update.data.content);
+        state.turn.thoughts = sortChunks(state.thoughtChunks).join("");
+        this.emitter.emit(
+          "thoughtChange",
+          state.turn.thoughts,
+          structuredClone(state.turn)
+        );
+        break;
+      }
+
+      case "tool_call":
+      case "tool_call_update":
+        this.mergeToolCall(update.data.id, update.data);
+        break;
+
+      case "plan": {
+        const state = this.contentTurn();
+        this._plan = structuredClone(update.data);
+        state.turn.plan = structuredClone(update.data);
+        this.emitter.emit(
+          "planChange",
+          structuredClone(update.data),
+          structuredClone(state.turn)
+        );
+        break;
+      }
+    }
+  }
+
+  // ===========================================================================
+  // Private Helpers
+  // ===========================================================================
+
+  private addTurn(prompt: ContentBlock[], collectingPrompt: boolean): TurnState {
+    const state: TurnState = {
+      turn: {
+        index: this.states.length,
+        prompt,
+        agentMessage: "",
+        thoughts: "",
+        toolCalls: [],
+      },
+      promptChunks: new Map(),
+      messageChunks: new Map(),
+      thoughtChunks: new Map(),
+      collectingPrompt,
+    };
+    this.states.push(state);
+    this.emitter.emit("turnStart", structuredClone(state.turn));
+    return state;
+  }
+
+  /**
+   * Get the turn agent output belongs to, starting one if there is none.
+   */
+  private contentTurn(): TurnState {
+    const state = this.states.at(-1) ?? this.addTurn([], false);
+    state.collectingPrompt = false;
+    return state;
+  }
+
+  /**
+   * Merge a tool call or tool call update into the tool call with its ID.
+   * An update for an unknown tool call starts one in the latest turn.
+   */
+  private mergeToolCall(id: string, data: ToolCall | ToolCallUpdate): void {
+    let entry = this.toolCalls.get(id);
+    if (!entry) {
+      const state = this.contentTurn();
+      const toolCall: TranscriptToolCall = {
+        id,
+        tool: "",
+        input: {},
+        status: data.status,
+      };
+      state.turn.toolCalls.push(toolCall);
+      entry = { state, toolCall };
+      this.toolCalls.set(id, entry);
+    }
+
+    Object.assign(entry.toolCall, structuredClone(data));
+    this.emitter.emit(
+      "toolCallChange",
+      structuredClone(entry.toolCall),
+      structuredClone(entry.state.turn)
+    );
+  }
+}
+
+/**
+ * Chunk contents in index order.
+ */
+function sortChunks(chunks: Map<number, string>): string[] {
+  return [...chunks.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, content]) => content);
+}
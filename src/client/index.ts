@@ -61,15 +61,23 @@ export { ACPClient } from "./ACPClient.js";
 // Session class
 export { Session } from "./Session.js";
 
+// Transcript class
+export { Transcript } from "./Transcript.js";
+
 // Types
 export type {
   ACPClientOptions,
+  ReconnectOptions,
   ACPClientEvents,
   SessionEvents,
   NewSessionOptions,
   SessionConfigOption,
   SessionConfigValue,
   PromptResult,
+  TranscriptTurn,
+  TranscriptToolCall,
+  TranscriptSnapshot,
+  TranscriptEvents,
   FileSystemHandler,
   ReadFileResult,
   WriteFileResult,
@@ -80,6 +88,7 @@ export type {
   PermissionHandler,
   ClientPermissionOutcome,
   ConnectedAgentInfo,
+  AgentFeature,
 } from "./types.js";
 
 // Default handler implementations
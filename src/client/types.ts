@@ -7,14 +7,20 @@
  */
 
 import type {
+  ContentBlock,
+  Plan,
   SessionUpdate,
   ToolCall,
+  ToolCallContent,
+  ToolCallUpdate,
+  RequestPermissionRequest,
   PermissionOption,
   PermissionScope,
   StopReason,
   UsageStats,
   AvailableCommand,
   TerminalExitStatus,
+  AuthMethod,
 } from "../types/index.js";
 
 // =============================================================================
@@ -40,6 +46,29 @@ export interface ACPClientOptions {
   terminal?: boolean;
   /** Request timeout in ms (default: 30000) */
   requestTimeout?: number;
+  /**
+   * Reconnect when the connection closes unexpectedly, e.g. when the agent
+   * process crashes. Off by default.
+   */
+  reconnect?: ReconnectOptions;
+}
+
+/**
+ * Policy for reconnecting to the agent.
+ *
+ * Each attempt restarts the transport, initializes again, re-authenticates
+ * and loads the active sessions (if the agent supports loading sessions).
+ * Sessions that can't be loaded are deactivated.
+ */
+export interface ReconnectOptions {
+  /** Maximum number of attempts before giving up (default: 5) */
+  maxAttempts?: number;
+  /** Delay before the first attempt in ms (default: 500) */
+  initialDelay?: number;
+  /** Maximum delay between attempts in ms (default: 30000) */
+  maxDelay?: number;
+  /** Factor the delay grows by after each failed attempt (default: 2) */
+  backoffFactor?: number;
 }
 
 // =============================================================================
@@ -56,6 +85,10 @@ export interface ACPClientEvents {
   connected: () => void;
   /** Connection closed */
   disconnected: () => void;
+  /** The connection was lost and a reconnect attempt is scheduled */
+  reconnecting: (attempt: number, delay: number) => void;
+  /** Reconnected to the agent; `lostSessions` could not be resumed */
+  reconnected: (attempt: number, lostSessions: string[]) => void;
   /** Error occurred */
   error: (error: Error) => void;
 }
@@ -76,6 +109,10 @@ export interface SessionEvents {
   configChange: (key: string, value: unknown) => void;
   /** Available commands changed */
   commandsChange: (commands: AvailableCommand[]) => void;
+  /** Token usage reported for a prompt turn, with the session's running totals */
+  usage: (turn: UsageStats, total: UsageStats) => void;
+  /** The agent asked for permission, before the permission handler runs */
+  permissionRequest: (request: RequestPermissionRequest) => void;
 }
 
 // =============================================================================
@@ -142,6 +179,121 @@ export interface PromptResult {
   usage: UsageStats | undefined;
 }
 
+// =============================================================================
+// Prompt Stream
+// =============================================================================
+
+/**
+ * Events yielded by Session.promptStream(). The last event is always
+ * "result".
+ */
+export type PromptStreamEvent =
+  | {
+      /** Text the agent added to its message */
+      type: "message_delta";
+      text: string;
+    }
+  | {
+      /** Text the agent added to its thoughts */
+      type: "thought_delta";
+      text: string;
+    }
+  | {
+      /** The agent started a tool call */
+      type: "tool_call_started";
+      toolCall: ToolCall;
+    }
+  | {
+      /** A tool call changed; `toolCall` has all updates so far merged in */
+      type: "tool_call_updated";
+      update: ToolCallUpdate;
+      toolCall: TranscriptToolCall;
+    }
+  | {
+      /** The agent sent its plan */
+      type: "plan";
+      plan: Plan;
+    }
+  | {
+      /** The agent asked for permission */
+      type: "permission_requested";
+      request: RequestPermissionRequest;
+    }
+  | {
+      /** The prompt finished */
+      type: "result";
+      result: PromptResult;
+    };
+
+// =============================================================================
+// Transcript
+// =============================================================================
+
+/**
+ * A tool call with the latest status and results merged in.
+ */
+export interface TranscriptToolCall extends ToolCall {
+  /** Tool output, once reported */
+  output?: ToolCallContent;
+  /** Error message if the tool call failed */
+  error?: string;
+  /** Execution duration in milliseconds */
+  duration?: number;
+}
+
+/**
+ * One prompt turn: the user's prompt and everything the agent sent for it.
+ */
+export interface TranscriptTurn {
+  /** Position of the turn in the transcript, starting at 0 */
+  index: number;
+  /** The user's prompt */
+  prompt: ContentBlock[];
+  /** Agent message assembled from its chunks */
+  agentMessage: string;
+  /** Agent thoughts assembled from their chunks */
+  thoughts: string;
+  /** Tool calls in the order they started */
+  toolCalls: TranscriptToolCall[];
+  /** Latest plan sent during the turn */
+  plan?: Plan;
+  /** Why the turn ended (unset while running and for replayed turns) */
+  stopReason?: StopReason;
+  /** Token usage reported for the turn */
+  usage?: UsageStats;
+}
+
+/**
+ * JSON form of a transcript.
+ */
+export interface TranscriptSnapshot {
+  /** Turns, oldest first */
+  turns: TranscriptTurn[];
+  /** Latest plan sent by the agent */
+  plan?: Plan;
+}
+
+/**
+ * Events emitted by a transcript. Every event carries a snapshot of the
+ * turn it changed.
+ */
+export interface TranscriptEvents {
+  /** A turn started */
+  turnStart: (turn: TranscriptTurn) => void;
+  /** A turn ended with a stop reason */
+  turnEnd: (turn: TranscriptTurn) => void;
+  /** Prompt text replayed by the agent was added */
+  promptChange: (prompt: ContentBlock[], turn: TranscriptTurn) => void;
+  /** The agent message grew */
+  messageChange: (text: string, turn: TranscriptTurn) => void;
+  /** The agent thoughts grew */
+  thoughtChange: (text: string, turn: TranscriptTurn) => void;
+  /** A tool call started or was updated */
+  toolCallChange: (toolCall: TranscriptToolCall, turn: TranscriptTurn) => void;
+  /** The agent sent a plan */
+  planChange: (plan: Plan, turn: TranscriptTurn) => void;
+}
+
 // =============================================================================
 // File System Handler
 // =============================================================================
@@ -327,6 +479,8 @@ export interface ConnectedAgentInfo {
   version: string;
   /** Protocol version */
   protocolVersion: number;
+  /** Authentication methods accepted by the agent */
+  authMethods?: AuthMethod[];
   /** Agent capabilities */
   capabilities: {
     /** Can load saved sessions */
@@ -345,3 +499,22 @@ export interface ConnectedAgentInfo {
     };
   };
 }
+
+/**
+ * A feature of the connected agent that can be checked with
+ * ACPClient.supports().
+ *
+ * - `loadSession` - loading saved sessions
+ * - `prompt.*` - prompt capabilities
+ * - `session.persistence` - sessions outlive the agent process
+ * - `mode:<id>` - a session mode, e.g. `mode:plan`
+ * - `config:<key>` - a session config option, e.g. `config:model`
+ */
+export type AgentFeature =
+  | "loadSession"
+  | "prompt.streaming"
+  | "prompt.cancellation"
+  | "prompt.attachments"
+  | "session.persistence"
+  | `mode:${string}`
+  | `config:${string}`;
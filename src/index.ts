@@ -70,7 +70,11 @@ export * from "./types/index.js";
 // - StdioTransport: Standard I/O for subprocess communication
 // - HttpTransport: HTTP/HTTPS for remote communication
 //
-export type { Transport, TransportEvents } from "./transport/index.js";
+export type {
+  Transport,
+  TransportEvents,
+  RequestOptions,
+} from "./transport/index.js";
 export {
   StdioTransport,
   type StdioTransportOptions,
@@ -91,6 +95,9 @@ export {
   ProtocolHandler,
   type RequestHandler,
   type NotificationHandler,
+  type Middleware,
+  type MiddlewareContext,
+  type ProtocolHandlerOptions,
   generateId,
   resetIdCounter,
   isRequest,
@@ -98,6 +105,7 @@ export {
   isNotification,
   isError,
   parseMessage,
+  parseParams,
   serializeMessage,
   isValidMessage,
   isValidRequest,
@@ -123,6 +131,10 @@ export {
   CapabilityNotSupportedError,
   RateLimitedError,
   TimeoutError,
+  ConnectionLostError,
+  fromJsonRpcError,
+  registerErrorClass,
+  type ErrorFactory,
 } from "./protocol/index.js";
 
 // =============================================================================
@@ -132,18 +144,25 @@ export {
 // Client-side ACP implementation for connecting to agents:
 // - ACPClient: Main client class
 // - Session: Session management and prompting
+// - Transcript: Session updates assembled into turns
 // - Handler implementations: File system, terminal, permissions
 //
 export {
   ACPClient,
   Session,
+  Transcript,
   type ACPClientOptions,
+  type ReconnectOptions,
   type ACPClientEvents,
   type SessionEvents,
   type NewSessionOptions,
   type SessionConfigOption,
   type SessionConfigValue,
   type PromptResult,
+  type TranscriptTurn,
+  type TranscriptToolCall,
+  type TranscriptSnapshot,
+  type TranscriptEvents,
   type FileSystemHandler,
   type ReadFileResult,
   type WriteFileResult,
@@ -154,6 +173,7 @@ export {
   type PermissionHandler,
   type ClientPermissionOutcome,
   type ConnectedAgentInfo,
+  type AgentFeature,
 } from "./client/index.js";
 
 // Client handler implementations
@@ -179,21 +199,68 @@ export {
   ACPAgent,
   AgentSession,
   ToolCallBuilder,
+  PlanBuilder,
   Terminal,
+  SessionConfig,
+  toJsonSchema,
+  decodeAttachments,
+  DEFAULT_ATTACHMENT_MIME_TYPES,
+  AgentLoop,
+  ScriptedModelProvider,
+  MemorySessionStore,
+  FileSessionStore,
+  createApiKeyStrategy,
+  createOAuth2Strategy,
   type ACPAgentOptions,
   type ACPAgentEvents,
   type PromptHandler,
+  type PromptConcurrencyPolicy,
+  type TerminalLimitPolicy,
+  type AttachmentOptions,
+  type ClientCapability,
+  type SessionConfigInterface,
+  type ModeDefinition,
+  type CommandDefinition,
+  type CommandHandler,
+  type CommandInvocation,
+  type ToolDefinition,
+  type ToolContext,
+  type ToolResult,
+  type ToolRunResult,
+  type ToolSchema,
+  type JsonSchema,
+  type AgentLoopOptions,
+  type ScriptedResponse,
+  type ModelProvider,
+  type ModelRequest,
+  type ModelEvent,
+  type ModelMessage,
+  type ModelStopReason,
+  type ModelThinking,
+  type ModelToolUse,
+  type ModelToolResult,
+  type AuthProvider,
+  type AuthStrategy,
+  type AuthStrategyOptions,
+  type OAuth2VerifyResult,
   type AgentSessionInterface,
+  type StreamOptions,
   type ToolCallOptions,
   type ToolCallBuilderInterface,
   type DiffHunkData,
+  type PlanBuilderInterface,
   type AgentPermissionOutcome,
   type AgentTerminalOptions,
   type TerminalInterface,
   type TerminalOutputResult,
   type SessionData,
   type ClientData,
+  type SessionStore,
+  type StoredSessionData,
+  type FileSessionStoreOptions,
   type ToolCallSender,
+  type PlanSender,
   type TerminalRequester,
   type SessionRequestHandler,
+  type AgentSessionOptions,
 } from "./agent/index.js";
@@ -275,3 +275,107 @@ export class TimeoutError extends ACPError {
     Object.setPrototypeOf(this, TimeoutError.prototype);
   }
 }
+
+// =============================================================================
+// Connection Errors
+// =============================================================================
+
+/**
+ * Connection lost - The connection closed before a response arrived.
+ * Raised locally for pending requests; never sent over the wire.
+ */
+export class ConnectionLostError extends InternalError {
+  constructor(method?: string) {
+    super(
+      method
+        ? `Connection lost before ${method} completed`
+        : "Connection lost",
+      method !== undefined ? { method } : undefined
+    );
+    this.name = "ConnectionLostError";
+    Object.setPrototypeOf(this, ConnectionLostError.prototype);
+  }
+}
+
+// =============================================================================
+// Error Registry
+// =============================================================================
+
+/**
+ * Creates an empty instance of an error class. The message and data of the
+ * error received over the wire are filled in afterwards.
+ */
+export type ErrorFactory = () => ACPError;
+
+/**
+ * Error classes by code, used to rehydrate errors received over the wire.
+ */
+const errorRegistry = new Map<number, ErrorFactory>([
+  [ErrorCodes.ParseError, () => new ParseError()],
+  [ErrorCodes.InvalidRequest, () => new InvalidRequestError()],
+  [ErrorCodes.MethodNotFound, () => new MethodNotFoundError("")],
+  [ErrorCodes.InvalidParams, () => new InvalidParamsError()],
+  [ErrorCodes.InternalError, () => new InternalError()],
+  [ErrorCodes.SessionNotFound, () => new SessionNotFoundError("")],
+  [ErrorCodes.AuthRequired, () => new AuthRequiredError()],
+  [ErrorCodes.PermissionDenied, () => new PermissionDeniedError()],
+  [ErrorCodes.OperationCancelled, () => new OperationCancelledError()],
+  [ErrorCodes.ResourceNotFound, () => new ResourceNotFoundError("")],
+  [ErrorCodes.ResourceAccessDenied, () => new ResourceAccessDeniedError("")],
+  [
+    ErrorCodes.InvalidSessionState,
+    () => new InvalidSessionStateError("", ""),
+  ],
+  [
+    ErrorCodes.CapabilityNotSupported,
+    () => new CapabilityNotSupportedError(""),
+  ],
+  [ErrorCodes.RateLimited, () => new RateLimitedError()],
+  [ErrorCodes.Timeout, () => new TimeoutError()],
+]);
+
+/**
+ * Register the error class for a custom error code, so errors with that
+ * code are rehydrated into it by fromJsonRpcError(). Registering a code
+ * again replaces its class.
+ *
+ * @param code - Error code
+ * @param factory - Creates an instance of the error class
+ *
+ * @example
+ * ```typescript
+ * class QuotaExceededError extends ACPError {
+ *   constructor() {
+ *     super(-32050, 'Quota exceeded');
+ *     this.name = 'QuotaExceededError';
+ *     Object.setPrototypeOf(this, QuotaExceededError.prototype);
+ *   }
+ * }
+ *
+ * registerErrorClass(-32050, () => new QuotaExceededError());
+ * ```
+ */
+export function registerErrorClass(code: number, factory: ErrorFactory): void {
+  errorRegistry.set(code, factory);
+}
+
+/**
+ * Convert a JSON-RPC error object received over the wire back into the
+ * ACPError subclass registered for its code, keeping the original message
+ * and data. Unknown codes produce a plain ACPError.
+ *
+ * @example
+ * ```typescript
+ * if (response.error) {
+ *   throw fromJsonRpcError(response.error);
+ * }
+ * ```
+ */
+export function fromJsonRpcError(error: JsonRpcError): ACPError {
+  const factory = errorRegistry.get(error.code);
+  if (!factory) {
+    return new ACPError(error.code, error.message, error.data);
+  }
+
+  return Object.assign(factory(), { message: error.message, data: error.data });
+}
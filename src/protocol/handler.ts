@@ -29,6 +29,50 @@ export type RequestHandler = (params: unknown) => Promise<unknown>;
  */
 export type NotificationHandler = (params: unknown) => void | Promise<void>;
 
+/**
+ * Context passed through the middleware chain for each incoming message.
+ */
+export interface MiddlewareContext {
+  /** Whether the message is a request (expects a response) or a notification */
+  readonly type: "request" | "notification";
+  /** Request ID (undefined for notifications) */
+  readonly id: number | string | undefined;
+  /** The method being called */
+  readonly method: string;
+  /** Message params (middleware may replace them before calling next) */
+  params: unknown;
+  /**
+   * Handler result, available after `next()` resolves.
+   * Middleware may set it to short-circuit or replace the result.
+   */
+  result?: unknown;
+  /** Free-form state shared between middleware for this message */
+  state: Record<string, unknown>;
+}
+
+/**
+ * Koa-style middleware for incoming JSON-RPC messages.
+ *
+ * Middleware runs in registration order around the registered handler.
+ * Errors thrown by the handler (or by later middleware) reject `next()`,
+ * so they can be observed, replaced or recovered from with try/catch.
+ */
+export type Middleware = (
+  ctx: MiddlewareContext,
+  next: () => Promise<void>
+) => Promise<void>;
+
+/**
+ * Options for creating a ProtocolHandler.
+ */
+export interface ProtocolHandlerOptions {
+  /**
+   * Called when a notification handler fails, since notification errors
+   * cannot be sent back to the sender (default: log to console.error).
+   */
+  onNotificationError?: (method: string, error: unknown) => void;
+}
+
 /**
  * Protocol handler for routing JSON-RPC messages to registered handlers.
  *
@@ -47,6 +91,16 @@ export type NotificationHandler = (params: unknown) => void | Promise<void>;
  *   console.log('Session updated:', params);
  * });
  *
+ * // Log every incoming message
+ * handler.use(async (ctx, next) => {
+ *   const start = Date.now();
+ *   try {
+ *     await next();
+ *   } finally {
+ *     console.log(`${ctx.method} took ${Date.now() - start}ms`);
+ *   }
+ * });
+ *
  * // Handle incoming message
  * const response = await handler.handleMessage(message);
  * if (response) {
@@ -58,6 +112,41 @@ export type NotificationHandler = (params: unknown) => void | Promise<void>;
 export class ProtocolHandler {
   private requestHandlers = new Map<string, RequestHandler>();
   private notificationHandlers = new Map<string, NotificationHandler>();
+  private middleware: Middleware[] = [];
+  private onNotificationError: (method: string, error: unknown) => void;
+
+  /**
+   * Create a new ProtocolHandler.
+   *
+   * @param options - Handler options
+   */
+  constructor(options: ProtocolHandlerOptions = {}) {
+    this.onNotificationError =
+      options.onNotificationError ??
+      ((method, error) => {
+        console.error(`Error handling notification ${method}:`, error);
+      });
+  }
+
+  /**
+   * Add a middleware to the chain.
+   * Middleware sees every incoming request and notification, in registration order.
+   *
+   * @param middleware - The middleware function
+   *
+   * @example
+   * ```typescript
+   * handler.use(async (ctx, next) => {
+   *   if (ctx.method.startsWith('admin/') && !isAdmin(ctx.params)) {
+   *     throw new PermissionDeniedError(ctx.method);
+   *   }
+   *   await next();
+   * });
+   * ```
+   */
+  use(middleware: Middleware): void {
+    this.middleware.push(middleware);
+  }
 
   /**
    * Register a handler for a JSON-RPC request method.
@@ -150,19 +239,28 @@ export class ProtocolHandler {
     request: JsonRpcRequest
   ): Promise<JsonRpcResponse> {
     const { id, method, params } = request;
+    const ctx: MiddlewareContext = {
+      type: "request",
+      id,
+      method,
+      params,
+      state: {},
+    };
 
     try {
-      // Check if handler exists
-      const handler = this.requestHandlers.get(method);
-      if (!handler) {
-        throw new MethodNotFoundError(method);
-      }
+      await this.runMiddleware(ctx, async () => {
+        // Check if handler exists
+        const handler = this.requestHandlers.get(method);
+        if (!handler) {
+          throw new MethodNotFoundError(method);
+        }
 
-      // Execute handler
-      const result = await handler(params);
+        // Execute handler
+        ctx.result = await handler(ctx.params);
+      });
 
       // Return success response
-      return ProtocolHandler.createResponse(id, result);
+      return ProtocolHandler.createResponse(id, ctx.result);
     } catch (error) {
       // Handle errors
       if (error instanceof ACPError) {
@@ -174,14 +272,14 @@ export class ProtocolHandler {
         );
       }
 
-      // Unexpected error - wrap as internal error
+      // Unexpected error - wrap as internal error, without the stack trace,
+      // which would leak file paths and internals to the other side
       const message =
         error instanceof Error ? error.message : "Unknown error occurred";
       return ProtocolHandler.createError(
         id,
         ErrorCodes.InternalError,
-        message,
-        error instanceof Error ? { stack: error.stack } : undefined
+        message
       );
     }
   }
@@ -195,21 +293,58 @@ export class ProtocolHandler {
     notification: JsonRpcNotification
   ): Promise<void> {
     const { method, params } = notification;
+    const ctx: MiddlewareContext = {
+      type: "notification",
+      id: undefined,
+      method,
+      params,
+      state: {},
+    };
 
     try {
-      // Check if handler exists
-      const handler = this.notificationHandlers.get(method);
-      if (!handler) {
-        // Notifications without handlers are silently ignored per JSON-RPC spec
+      await this.runMiddleware(ctx, async () => {
+        // Check if handler exists
+        const handler = this.notificationHandlers.get(method);
+        if (!handler) {
+          // Notifications without handlers are silently ignored per JSON-RPC spec
+          return;
+        }
+
+        // Execute handler (no response)
+        await handler(ctx.params);
+      });
+    } catch (error) {
+      // Notification errors are reported but not sent back to the sender
+      this.onNotificationError(method, error);
+    }
+  }
+
+  /**
+   * Run the middleware chain, ending with the given handler.
+   */
+  private async runMiddleware(
+    ctx: MiddlewareContext,
+    handler: () => Promise<void>
+  ): Promise<void> {
+    const middleware = [...this.middleware];
+    let lastIndex = -1;
+
+    const dispatch = async (index: number): Promise<void> => {
+      if (index <= lastIndex) {
+        throw new Error("next() called multiple times");
+      }
+      lastIndex = index;
+
+      const current = middleware[index];
+      if (!current) {
+        await handler();
         return;
       }
 
-      // Execute handler (no response)
-      await handler(params);
-    } catch (error) {
-      // Notification errors are logged but not sent back to client
-      console.error(`Error handling notification ${method}:`, error);
-    }
+      await current(ctx, () => dispatch(index + 1));
+    };
+
+    await dispatch(0);
   }
 
   // =============================================================================
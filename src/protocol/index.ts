@@ -9,6 +9,9 @@ export {
   ProtocolHandler,
   type RequestHandler,
   type NotificationHandler,
+  type Middleware,
+  type MiddlewareContext,
+  type ProtocolHandlerOptions,
 } from "./handler.js";
 
 // Message utilities
@@ -20,6 +23,7 @@ export {
   isNotification,
   isError,
   parseMessage,
+  parseParams,
   serializeMessage,
   isValidMessage,
   isValidRequest,
@@ -45,4 +49,8 @@ export {
   CapabilityNotSupportedError,
   RateLimitedError,
   TimeoutError,
+  ConnectionLostError,
+  fromJsonRpcError,
+  registerErrorClass,
+  type ErrorFactory,
 } from "./errors.js";
@@ -15,7 +15,12 @@ import {
   isJsonRpcNotification as baseIsJsonRpcNotification,
   isJsonRpcError as baseIsJsonRpcError,
 } from "../types/jsonrpc.js";
-import { ParseError, InvalidRequestError } from "./errors.js";
+import type { z } from "zod";
+import {
+  ParseError,
+  InvalidRequestError,
+  InvalidParamsError,
+} from "./errors.js";
 
 /**
  * Counter for generating sequential request IDs
@@ -134,6 +139,40 @@ export function parseMessage(
   return result.data as JsonRpcRequest | JsonRpcResponse | JsonRpcNotification;
 }
 
+/**
+ * Validate the params of a JSON-RPC request against a schema.
+ *
+ * @param method - The method the params belong to (used in the error message)
+ * @param schema - The zod schema describing the params
+ * @param params - The params to validate
+ * @returns The validated params
+ * @throws {InvalidParamsError} If the params don't match the schema, with the zod issues as data
+ *
+ * @example
+ * ```typescript
+ * const params = parseParams<SessionLoadRequest>(
+ *   'session/load',
+ *   SessionLoadRequestSchema,
+ *   request.params
+ * );
+ * ```
+ */
+export function parseParams<T>(
+  method: string,
+  schema: z.ZodTypeAny,
+  params: unknown
+): T {
+  const result = schema.safeParse(params);
+  if (!result.success) {
+    throw new InvalidParamsError(`Invalid params for ${method}`, {
+      method,
+      issues: result.error.issues,
+    });
+  }
+
+  return result.data as T;
+}
+
 /**
  * Serialize a JSON-RPC message to a JSON string.
  *
@@ -13,10 +13,17 @@ import {
   JsonRpcResponse,
   JsonRpcNotification,
   JsonRpcMessageSchema,
+  isJsonRpcRequest,
   isJsonRpcResponse,
-  isJsonRpcNotification,
 } from "../types/jsonrpc.js";
-import { Transport, TransportEvents } from "./types.js";
+import {
+  ACPError,
+  InternalError,
+  ParseError,
+  TimeoutError,
+  fromJsonRpcError,
+} from "../protocol/errors.js";
+import { RequestOptions, Transport, TransportEvents } from "./types.js";
 
 /**
  * Configuration options for HttpTransport.
@@ -87,7 +94,9 @@ interface PendingRequest {
  * HTTP transport implementation.
  *
  * In CLIENT mode, sends HTTP POST requests to a remote agent.
- * In AGENT mode, runs an HTTP server that accepts JSON-RPC requests.
+ * In AGENT mode, runs an HTTP server that accepts JSON-RPC requests. Each
+ * HTTP response is held open until the application answers the request with
+ * respond().
  *
  * Messages are sent as JSON in the request/response body.
  */
@@ -105,6 +114,7 @@ export class HttpTransport implements Transport {
   };
   private server: http.Server | https.Server | undefined = undefined;
   private pendingRequests = new Map<string | number, PendingRequest>();
+  private pendingResponses = new Map<string | number, http.ServerResponse>();
   private isConnected = false;
   private emitter = new EventEmitter<TransportEvents>();
 
@@ -214,22 +224,17 @@ export class HttpTransport implements Transport {
             const json = JSON.parse(body);
             JsonRpcMessageSchema.parse(json); // Validate but don't use result
 
-            // Handle notification (no response expected)
-            if (isJsonRpcNotification(json)) {
-              this.emit("message", json as JsonRpcNotification);
-              res.writeHead(204); // No Content
-              res.end();
+            // Handle request: the HTTP response is sent by respond()
+            if (isJsonRpcRequest(json)) {
+              this.pendingResponses.set(json.id, res);
+              this.emit("message", json as JsonRpcRequest);
               return;
             }
 
-            // Handle request (response expected)
-            this.emit("message", json as JsonRpcRequest | JsonRpcResponse);
-
-            // Wait for response via the pending request system
-            // In agent mode, the application will call request() or notify()
-            // to send the response back
-            res.writeHead(200, { "Content-Type": "application/json" });
-            res.end(JSON.stringify({ jsonrpc: "2.0", id: null, result: null }));
+            // Handle notification or response (no response expected)
+            this.emit("message", json as JsonRpcNotification | JsonRpcResponse);
+            res.writeHead(204); // No Content
+            res.end();
           } catch (error) {
             const errorMessage =
               error instanceof Error ? error.message : String(error);
@@ -238,10 +243,9 @@ export class HttpTransport implements Transport {
               JSON.stringify({
                 jsonrpc: "2.0",
                 id: null,
-                error: {
-                  code: -32700,
-                  message: `Parse error: ${errorMessage}`,
-                },
+                error: new ParseError(
+                  `Parse error: ${errorMessage}`
+                ).toJsonRpcError(),
               })
             );
             this.handleError(
@@ -269,7 +273,10 @@ export class HttpTransport implements Transport {
     });
   }
 
-  async request(request: JsonRpcRequest): Promise<JsonRpcResponse> {
+  async request(
+    request: JsonRpcRequest,
+    options?: RequestOptions
+  ): Promise<JsonRpcResponse> {
     if (!this.isConnected) {
       throw new Error("Transport not connected");
     }
@@ -283,14 +290,20 @@ export class HttpTransport implements Transport {
     // Retry logic
     for (let attempt = 0; attempt <= this.options.maxRetries; attempt++) {
       try {
-        return await this.sendHttpRequest(request);
+        return await this.sendHttpRequest(
+          request,
+          options?.timeout ?? this.options.timeout,
+          options?.signal
+        );
       } catch (error) {
         lastError =
           error instanceof Error ? error : new Error(String(error));
 
-        // Don't retry on timeout or if this was the last attempt
+        // Don't retry on timeout (a TimeoutError), errors reported by the
+        // agent, or if this was the last attempt
         if (
-          lastError.message.includes("timeout") ||
+          lastError instanceof ACPError ||
+          options?.signal?.aborted ||
           attempt === this.options.maxRetries
         ) {
           break;
@@ -306,13 +319,19 @@ export class HttpTransport implements Transport {
   }
 
   private async sendHttpRequest(
-    request: JsonRpcRequest
+    request: JsonRpcRequest,
+    timeout: number,
+    signal?: AbortSignal
   ): Promise<JsonRpcResponse> {
     return new Promise((resolve, reject) => {
       if (!this.options.url) {
         reject(new Error("URL not configured"));
         return;
       }
+      if (signal?.aborted) {
+        reject(signal.reason as Error);
+        return;
+      }
 
       const url = new URL(this.options.url);
       const isHttps = url.protocol === "https:";
@@ -330,7 +349,7 @@ export class HttpTransport implements Transport {
           "Content-Length": Buffer.byteLength(postData),
           ...this.options.headers,
         },
-        timeout: this.options.timeout,
+        timeout,
       };
 
       const req = httpModule.request(requestOptions, (res) => {
@@ -345,10 +364,13 @@ export class HttpTransport implements Transport {
             const json = JSON.parse(body);
             JsonRpcMessageSchema.parse(json); // Validate but don't use result
 
-            if (isJsonRpcResponse(json)) {
-              resolve(json as JsonRpcResponse);
-            } else {
+            if (!isJsonRpcResponse(json)) {
               reject(new Error("Expected JSON-RPC response"));
+            } else if (json.id === null && json.error) {
+              // The agent couldn't read the request
+              reject(fromJsonRpcError(json.error));
+            } else {
+              resolve(json as JsonRpcResponse);
             }
           } catch (error) {
             const errorMessage =
@@ -364,13 +386,18 @@ export class HttpTransport implements Transport {
 
       req.on("timeout", () => {
         req.destroy();
-        reject(
-          new Error(
-            `Request timed out after ${this.options.timeout}ms`
-          )
-        );
+        reject(new TimeoutError(request.method, timeout));
       });
 
+      if (signal) {
+        const onAbort = (): void => {
+          req.destroy();
+          reject(signal.reason as Error);
+        };
+        signal.addEventListener("abort", onAbort, { once: true });
+        req.on("close", () => signal.removeEventListener("abort", onAbort));
+      }
+
       req.write(postData);
       req.end();
     });
@@ -389,7 +416,7 @@ export class HttpTransport implements Transport {
 
     // In client mode, send HTTP POST request (fire and forget)
     try {
-      await this.sendHttpNotification(notification);
+      await this.sendHttpMessage(notification);
     } catch (error) {
       // Log but don't throw - notifications are best-effort
       const errorMessage =
@@ -398,8 +425,33 @@ export class HttpTransport implements Transport {
     }
   }
 
-  private async sendHttpNotification(
-    notification: JsonRpcNotification
+  async respond(response: JsonRpcResponse): Promise<void> {
+    if (!this.isConnected) {
+      throw new Error("Transport not connected");
+    }
+
+    if (this.options.mode === "client") {
+      await this.sendHttpMessage(response);
+      return;
+    }
+
+    const res =
+      response.id === null ? undefined : this.pendingResponses.get(response.id);
+    if (!res || response.id === null) {
+      throw new Error(`No pending request with ID ${String(response.id)}`);
+    }
+    this.pendingResponses.delete(response.id);
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(response));
+  }
+
+  /**
+   * POST a message that gets no JSON-RPC response (a notification or a
+   * response to a request from the agent).
+   */
+  private async sendHttpMessage(
+    message: JsonRpcNotification | JsonRpcResponse
   ): Promise<void> {
     return new Promise((resolve, reject) => {
       if (!this.options.url) {
@@ -411,7 +463,7 @@ export class HttpTransport implements Transport {
       const isHttps = url.protocol === "https:";
       const httpModule = isHttps ? https : http;
 
-      const postData = JSON.stringify(notification);
+      const postData = JSON.stringify(message);
 
       const requestOptions: http.RequestOptions = {
         hostname: url.hostname,
@@ -462,6 +514,19 @@ export class HttpTransport implements Transport {
     }
     this.pendingRequests.clear();
 
+    // Answer requests the application hasn't responded to
+    for (const [id, res] of this.pendingResponses.entries()) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          jsonrpc: "2.0",
+          id,
+          error: new InternalError("Transport closed").toJsonRpcError(),
+        })
+      );
+    }
+    this.pendingResponses.clear();
+
     // Close server if in agent mode
     if (this.server) {
       return new Promise<void>((resolve) => {
@@ -8,7 +8,7 @@
  * - HttpTransport: HTTP/HTTPS for remote communication
  */
 
-export type { Transport, TransportEvents } from "./types.js";
+export type { Transport, TransportEvents, RequestOptions } from "./types.js";
 export { StdioTransport } from "./stdio.js";
 export type { StdioTransportOptions } from "./stdio.js";
 export { HttpTransport } from "./http.js";
@@ -7,6 +7,7 @@
 
 import { spawn, ChildProcess } from "child_process";
 import * as readline from "readline";
+import type { Readable, Writable } from "stream";
 import { EventEmitter } from "eventemitter3";
 import {
   JsonRpcRequest,
@@ -15,7 +16,8 @@ import {
   JsonRpcMessageSchema,
   isJsonRpcResponse,
 } from "../types/jsonrpc.js";
-import { Transport, TransportEvents } from "./types.js";
+import { TimeoutError, fromJsonRpcError } from "../protocol/errors.js";
+import { RequestOptions, Transport, TransportEvents } from "./types.js";
 
 /**
  * Configuration options for StdioTransport.
@@ -49,6 +51,18 @@ export interface StdioTransportOptions {
    */
   cwd?: string;
 
+  /**
+   * Stream to read messages from instead of the subprocess stdout (client
+   * mode) or process.stdin (agent mode). Requires `output`.
+   */
+  input?: Readable;
+
+  /**
+   * Stream to write messages to instead of the subprocess stdin (client
+   * mode) or process.stdout (agent mode). Requires `input`.
+   */
+  output?: Writable;
+
   /**
    * Request timeout in milliseconds.
    * @default 30000 (30 seconds)
@@ -59,7 +73,9 @@ export interface StdioTransportOptions {
 interface PendingRequest {
   resolve: (response: JsonRpcResponse) => void;
   reject: (error: Error) => void;
-  timer: NodeJS.Timeout;
+  timer: NodeJS.Timeout | undefined;
+  /** Stops listening for the abort of the request's signal */
+  removeAbortListener?: () => void;
 }
 
 /**
@@ -67,6 +83,8 @@ interface PendingRequest {
  *
  * In CLIENT mode, spawns a subprocess and communicates via stdin/stdout.
  * In AGENT mode, reads from process.stdin and writes to process.stdout.
+ * With `input` and `output` streams, either mode uses those instead, e.g. to
+ * connect a client and an agent in the same process.
  *
  * Messages are framed as newline-delimited JSON.
  */
@@ -79,6 +97,7 @@ export class StdioTransport implements Transport {
     env?: Record<string, string>;
     cwd?: string;
   };
+  private streams: { input: Readable; output: Writable } | undefined;
   private childProcess: ChildProcess | undefined = undefined;
   private readlineInterface: readline.Interface | undefined = undefined;
   private pendingRequests = new Map<string | number, PendingRequest>();
@@ -103,6 +122,13 @@ export class StdioTransport implements Transport {
     if (options.cwd !== undefined) {
       this.options.cwd = options.cwd;
     }
+    if (options.input && options.output) {
+      this.streams = { input: options.input, output: options.output };
+    } else if (options.input || options.output) {
+      throw new Error(
+        "StdioTransport requires both 'input' and 'output' streams"
+      );
+    }
   }
 
   on<K extends keyof TransportEvents>(
@@ -141,7 +167,9 @@ export class StdioTransport implements Transport {
       return;
     }
 
-    if (this.options.mode === "client") {
+    if (this.streams) {
+      this.startStreamMode(this.streams.input);
+    } else if (this.options.mode === "client") {
       await this.startClientMode();
     } else {
       await this.startAgentMode();
@@ -150,6 +178,24 @@ export class StdioTransport implements Transport {
     this.isConnected = true;
   }
 
+  private startStreamMode(input: Readable): void {
+    this.readlineInterface = readline.createInterface({
+      input,
+      crlfDelay: Infinity,
+    });
+
+    this.readlineInterface.on("line", (line) => {
+      this.handleIncomingMessage(line);
+    });
+
+    input.on("end", () => {
+      if (this.isConnected) {
+        this.isConnected = false;
+        this.emit("close");
+      }
+    });
+  }
+
   private async startClientMode(): Promise<void> {
     if (!this.options.command) {
       throw new Error(
@@ -236,13 +282,15 @@ export class StdioTransport implements Transport {
       // Type-safe casting from parsed JSON
       if (isJsonRpcResponse(json)) {
         if (json.id !== null) {
-          const pending = this.pendingRequests.get(json.id);
+          const pending = this.takePendingRequest(json.id);
           if (pending) {
-            clearTimeout(pending.timer);
-            this.pendingRequests.delete(json.id);
             pending.resolve(json as JsonRpcResponse);
             return;
           }
+        } else if (json.error) {
+          // The peer couldn't tell which request failed, e.g. a parse error
+          this.handleError(fromJsonRpcError(json.error));
+          return;
         }
       }
 
@@ -255,31 +303,48 @@ export class StdioTransport implements Transport {
     }
   }
 
-  async request(request: JsonRpcRequest): Promise<JsonRpcResponse> {
+  async request(
+    request: JsonRpcRequest,
+    options?: RequestOptions
+  ): Promise<JsonRpcResponse> {
     if (!this.isConnected) {
       throw new Error("Transport not connected");
     }
 
+    const timeout = options?.timeout ?? this.options.timeout;
+    const signal = options?.signal;
+    if (signal?.aborted) {
+      throw signal.reason as Error;
+    }
+
     return new Promise((resolve, reject) => {
       // Set up timeout
-      const timer = setTimeout(() => {
-        this.pendingRequests.delete(request.id);
-        reject(
-          new Error(
-            `Request ${request.id} timed out after ${this.options.timeout}ms`
-          )
-        );
-      }, this.options.timeout);
+      const timer =
+        timeout > 0
+          ? setTimeout(() => {
+              this.takePendingRequest(request.id)?.reject(
+                new TimeoutError(request.method, timeout)
+              );
+            }, timeout)
+          : undefined;
 
       // Store the pending request
-      this.pendingRequests.set(request.id, { resolve, reject, timer });
+      const pending: PendingRequest = { resolve, reject, timer };
+      if (signal) {
+        const onAbort = (): void => {
+          this.takePendingRequest(request.id)?.reject(signal.reason as Error);
+        };
+        signal.addEventListener("abort", onAbort, { once: true });
+        pending.removeAbortListener = () =>
+          signal.removeEventListener("abort", onAbort);
+      }
+      this.pendingRequests.set(request.id, pending);
 
       // Send the request
       try {
         this.sendMessage(request);
       } catch (error) {
-        clearTimeout(timer);
-        this.pendingRequests.delete(request.id);
+        this.takePendingRequest(request.id);
         reject(error);
       }
     });
@@ -293,13 +358,30 @@ export class StdioTransport implements Transport {
     this.sendMessage(notification);
   }
 
+  respond(response: JsonRpcResponse): Promise<void> {
+    if (!this.isConnected) {
+      return Promise.reject(new Error("Transport not connected"));
+    }
+
+    try {
+      this.sendMessage(response);
+      return Promise.resolve();
+    } catch (error) {
+      return Promise.reject(
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
   private sendMessage(
     message: JsonRpcRequest | JsonRpcResponse | JsonRpcNotification
   ): void {
     const json = JSON.stringify(message);
     const line = json + "\n";
 
-    if (this.options.mode === "client") {
+    if (this.streams) {
+      this.streams.output.write(line);
+    } else if (this.options.mode === "client") {
       if (!this.childProcess?.stdin) {
         throw new Error("Child process stdin not available");
       }
@@ -317,11 +399,9 @@ export class StdioTransport implements Transport {
     this.isConnected = false;
 
     // Reject all pending requests
-    for (const [, pending] of this.pendingRequests.entries()) {
-      clearTimeout(pending.timer);
-      pending.reject(new Error("Transport closed"));
+    for (const id of [...this.pendingRequests.keys()]) {
+      this.takePendingRequest(id)?.reject(new Error("Transport closed"));
     }
-    this.pendingRequests.clear();
 
     // Close readline interface
     if (this.readlineInterface) {
@@ -359,6 +439,19 @@ export class StdioTransport implements Transport {
     this.emit("close");
   }
 
+  /**
+   * Remove a pending request and stop its timer and abort listener.
+   */
+  private takePendingRequest(id: string | number): PendingRequest | undefined {
+    const pending = this.pendingRequests.get(id);
+    if (pending) {
+      clearTimeout(pending.timer);
+      pending.removeAbortListener?.();
+      this.pendingRequests.delete(id);
+    }
+    return pending;
+  }
+
   private handleError(error: Error): void {
     console.error(`[StdioTransport Error]: ${error.message}`);
     this.emit("error", error);
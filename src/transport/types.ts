@@ -27,6 +27,22 @@ export interface TransportEvents {
   close: () => void;
 }
 
+/**
+ * Options for a single request.
+ */
+export interface RequestOptions {
+  /**
+   * Timeout in milliseconds for this request, overriding the transport's
+   * default. 0 disables the timeout.
+   */
+  timeout?: number;
+  /**
+   * Aborting the signal rejects the request with the signal's reason and
+   * forgets it, so a late response is ignored.
+   */
+  signal?: AbortSignal;
+}
+
 /**
  * Base transport interface for ACP communication.
  *
@@ -38,10 +54,15 @@ export interface Transport {
    * Send a JSON-RPC request and wait for a response.
    *
    * @param request - The JSON-RPC request to send
+   * @param options - Options for this request
    * @returns Promise that resolves with the JSON-RPC response
-   * @throws Error if the request times out or the connection is closed
+   * @throws TimeoutError if the request times out
+   * @throws Error if the connection is closed
    */
-  request(request: JsonRpcRequest): Promise<JsonRpcResponse>;
+  request(
+    request: JsonRpcRequest,
+    options?: RequestOptions
+  ): Promise<JsonRpcResponse>;
 
   /**
    * Send a JSON-RPC notification (no response expected).
@@ -51,6 +72,15 @@ export interface Transport {
    */
   notify(notification: JsonRpcNotification): Promise<void>;
 
+  /**
+   * Send a JSON-RPC response to a request received from the other side.
+   *
+   * @param response - The JSON-RPC response, with the ID of the request it answers
+   * @returns Promise that resolves when the response is sent
+   * @throws Error if the connection is closed
+   */
+  respond(response: JsonRpcResponse): Promise<void>;
+
   /**
    * Register an event handler.
    *
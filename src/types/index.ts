@@ -135,8 +135,15 @@ export {
   type ThoughtMessageChunk,
   type AvailableCommand,
   type SessionMode,
+  type SessionModeInfo,
   type ModeChangeData,
   type ConfigOptionChangeData,
+  type ConfigOptionChoice,
+  type EnumConfigOption,
+  type BooleanConfigOption,
+  type NumberConfigOption,
+  type StringConfigOption,
+  type ConfigOptionDefinition,
   type SessionUpdateType,
   type PlanUpdate,
   type AgentMessageChunkUpdate,
@@ -158,8 +165,15 @@ export {
   ThoughtMessageChunkSchema,
   AvailableCommandSchema,
   SessionModeSchema,
+  SessionModeInfoSchema,
   ModeChangeDataSchema,
   ConfigOptionChangeDataSchema,
+  ConfigOptionChoiceSchema,
+  EnumConfigOptionSchema,
+  BooleanConfigOptionSchema,
+  NumberConfigOptionSchema,
+  StringConfigOptionSchema,
+  ConfigOptionDefinitionSchema,
   SessionUpdateTypeSchema,
   PlanUpdateSchema,
   AgentMessageChunkUpdateSchema,
@@ -356,6 +370,7 @@ export {
   type AgentCapabilities,
   type InitializeRequest,
   type InitializeResponse,
+  type AuthMethod,
   type AuthenticateRequest,
   type AuthenticateResponse,
   type SessionNewRequest,
@@ -384,6 +399,7 @@ export {
   AgentCapabilitiesSchema,
   InitializeRequestSchema,
   InitializeResponseSchema,
+  AuthMethodSchema,
   AuthenticateRequestSchema,
   AuthenticateResponseSchema,
   SessionNewRequestSchema,
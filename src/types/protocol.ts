@@ -9,7 +9,16 @@
 import { z } from "zod";
 import { ContentBlock, ContentBlockSchema } from "./content.js";
 import { McpServer, McpServerSchema, AgentMcpCapabilities, AgentMcpCapabilitiesSchema } from "./mcp.js";
-import { SessionId, SessionIdSchema, SessionMode, SessionModeSchema } from "./session.js";
+import {
+  SessionId,
+  SessionIdSchema,
+  SessionMode,
+  SessionModeSchema,
+  SessionModeInfo,
+  SessionModeInfoSchema,
+  ConfigOptionDefinition,
+  ConfigOptionDefinitionSchema,
+} from "./session.js";
 
 // =============================================================================
 // Implementation Info
@@ -192,6 +201,36 @@ export const AgentCapabilitiesSchema = z.object({
   _custom: z.record(z.unknown()).optional(),
 });
 
+// =============================================================================
+// Auth Methods
+// =============================================================================
+
+/**
+ * An authentication method advertised by the agent during initialization.
+ *
+ * @example
+ * ```json
+ * {
+ *   "id": "api_key",
+ *   "description": "Authenticate with an Anthropic API key"
+ * }
+ * ```
+ */
+export interface AuthMethod {
+  /**
+   * Method identifier passed to `authenticate`. Known ids are "api_key",
+   * "oauth2" and "custom"; agents may define others.
+   */
+  id: string;
+  /** Human-readable description */
+  description?: string;
+}
+
+export const AuthMethodSchema = z.object({
+  id: z.string(),
+  description: z.string().optional(),
+});
+
 // =============================================================================
 // Initialize
 // =============================================================================
@@ -251,12 +290,15 @@ export interface InitializeResponse {
   agentInfo: AgentInfo;
   /** Agent capabilities */
   capabilities: AgentCapabilities;
+  /** Authentication methods accepted by the agent */
+  authMethods?: AuthMethod[];
 }
 
 export const InitializeResponseSchema = z.object({
   protocolVersion: z.number().int().positive(),
   agentInfo: AgentInfoSchema,
   capabilities: AgentCapabilitiesSchema,
+  authMethods: z.array(AuthMethodSchema).optional(),
 });
 
 // =============================================================================
@@ -387,11 +429,17 @@ export interface SessionNewResponse {
   sessionId: SessionId;
   /** Creation timestamp (ISO 8601) */
   createdAt: string;
+  /** Config options the agent declares, with their defaults */
+  configOptions?: ConfigOptionDefinition[];
+  /** Modes the agent describes, with their labels */
+  modes?: SessionModeInfo[];
 }
 
 export const SessionNewResponseSchema = z.object({
   sessionId: SessionIdSchema,
   createdAt: z.string().datetime(),
+  configOptions: z.array(ConfigOptionDefinitionSchema).optional(),
+  modes: z.array(SessionModeInfoSchema).optional(),
 });
 
 // =============================================================================
@@ -417,6 +465,24 @@ export const SessionLoadRequestSchema = z.object({
   sessionId: SessionIdSchema,
 });
 
+/**
+ * Token usage statistics.
+ */
+export interface UsageStats {
+  /** Number of input tokens */
+  inputTokens: number;
+  /** Number of output tokens */
+  outputTokens: number;
+  /** Number of cached input tokens */
+  cachedInputTokens?: number;
+}
+
+export const UsageStatsSchema = z.object({
+  inputTokens: z.number().int().nonnegative(),
+  outputTokens: z.number().int().nonnegative(),
+  cachedInputTokens: z.number().int().nonnegative().optional(),
+});
+
 /**
  * Result of the `session/load` method.
  *
@@ -442,6 +508,8 @@ export interface SessionLoadResponse {
   configOptions: Record<string, unknown>;
   /** Number of messages in history */
   messageCount: number;
+  /** Token usage of the session's prompts so far */
+  usage?: UsageStats;
 }
 
 export const SessionLoadResponseSchema = z.object({
@@ -450,6 +518,7 @@ export const SessionLoadResponseSchema = z.object({
   mode: SessionModeSchema,
   configOptions: z.record(z.unknown()),
   messageCount: z.number().int().nonnegative(),
+  usage: UsageStatsSchema.optional(),
 });
 
 // =============================================================================
@@ -500,24 +569,6 @@ export const SessionPromptRequestSchema = z.object({
   attachments: z.array(AttachmentSchema).optional(),
 });
 
-/**
- * Token usage statistics.
- */
-export interface UsageStats {
-  /** Number of input tokens */
-  inputTokens: number;
-  /** Number of output tokens */
-  outputTokens: number;
-  /** Number of cached input tokens */
-  cachedInputTokens?: number;
-}
-
-export const UsageStatsSchema = z.object({
-  inputTokens: z.number().int().nonnegative(),
-  outputTokens: z.number().int().nonnegative(),
-  cachedInputTokens: z.number().int().nonnegative().optional(),
-});
-
 /**
  * Reasons why generation stopped.
  *
@@ -527,12 +578,14 @@ export type StopReason =
   | "end_turn"
   | "cancelled"
   | "max_tokens"
+  | "max_turn_requests"
   | "error";
 
 export const StopReasonSchema = z.enum([
   "end_turn",
   "cancelled",
   "max_tokens",
+  "max_turn_requests",
   "error",
 ]);
 
@@ -613,11 +666,14 @@ export interface SessionSetModeResponse {
   previousMode: SessionMode;
   /** Mode after change */
   currentMode: SessionMode;
+  /** Description of the new mode, if the agent has one */
+  mode?: SessionModeInfo;
 }
 
 export const SessionSetModeResponseSchema = z.object({
   previousMode: SessionModeSchema,
   currentMode: SessionModeSchema,
+  mode: SessionModeInfoSchema.optional(),
 });
 
 // =============================================================================
@@ -239,6 +239,24 @@ export type SessionMode =
 
 export const SessionModeSchema = z.string();
 
+/**
+ * Description of a mode the agent offers.
+ */
+export interface SessionModeInfo {
+  /** Mode identifier */
+  id: SessionMode;
+  /** Short human-readable name */
+  label: string;
+  /** What the mode is for */
+  description?: string;
+}
+
+export const SessionModeInfoSchema = z.object({
+  id: SessionModeSchema,
+  label: z.string(),
+  description: z.string().optional(),
+});
+
 /**
  * Data for a mode change update.
  */
@@ -247,6 +265,8 @@ export interface ModeChangeData {
   previousMode: SessionMode;
   /** Mode after the change */
   currentMode: SessionMode;
+  /** Description of the new mode, if the agent has one */
+  mode?: SessionModeInfo;
   /** Reason for the mode change */
   reason?: string;
 }
@@ -254,6 +274,7 @@ export interface ModeChangeData {
 export const ModeChangeDataSchema = z.object({
   previousMode: SessionModeSchema,
   currentMode: SessionModeSchema,
+  mode: SessionModeInfoSchema.optional(),
   reason: z.string().optional(),
 });
 
@@ -261,6 +282,145 @@ export const ModeChangeDataSchema = z.object({
 // Config Option Types
 // =============================================================================
 
+/**
+ * A choice for an enum config option.
+ */
+export interface ConfigOptionChoice {
+  /** Value stored when the choice is selected */
+  value: string;
+  /** Human-readable label */
+  label: string;
+  /** Choice description */
+  description?: string;
+}
+
+export const ConfigOptionChoiceSchema = z.object({
+  value: z.string(),
+  label: z.string(),
+  description: z.string().optional(),
+});
+
+/**
+ * Fields shared by all config option declarations.
+ */
+interface ConfigOptionBase {
+  /** Configuration key */
+  key: string;
+  /** Human-readable label */
+  label: string;
+  /** Configuration description */
+  description?: string;
+}
+
+const ConfigOptionBaseSchema = z.object({
+  key: z.string().min(1),
+  label: z.string(),
+  description: z.string().optional(),
+});
+
+/**
+ * Config option whose value is one of a fixed set of strings.
+ */
+export interface EnumConfigOption extends ConfigOptionBase {
+  type: "enum";
+  /** Allowed values */
+  choices: ConfigOptionChoice[];
+  /** Value used when the client doesn't set one */
+  default?: string;
+}
+
+export const EnumConfigOptionSchema = ConfigOptionBaseSchema.extend({
+  type: z.literal("enum"),
+  choices: z.array(ConfigOptionChoiceSchema).min(1),
+  default: z.string().optional(),
+});
+
+/**
+ * Config option with an on/off value.
+ */
+export interface BooleanConfigOption extends ConfigOptionBase {
+  type: "boolean";
+  /** Value used when the client doesn't set one */
+  default?: boolean;
+}
+
+export const BooleanConfigOptionSchema = ConfigOptionBaseSchema.extend({
+  type: z.literal("boolean"),
+  default: z.boolean().optional(),
+});
+
+/**
+ * Config option with a numeric value, optionally limited to a range.
+ */
+export interface NumberConfigOption extends ConfigOptionBase {
+  type: "number";
+  /** Smallest allowed value (inclusive) */
+  min?: number;
+  /** Largest allowed value (inclusive) */
+  max?: number;
+  /** Only allow whole numbers */
+  integer?: boolean;
+  /** Value used when the client doesn't set one */
+  default?: number;
+}
+
+export const NumberConfigOptionSchema = ConfigOptionBaseSchema.extend({
+  type: z.literal("number"),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  integer: z.boolean().optional(),
+  default: z.number().optional(),
+});
+
+/**
+ * Config option with a free-form string value.
+ */
+export interface StringConfigOption extends ConfigOptionBase {
+  type: "string";
+  /** Maximum length of the value */
+  maxLength?: number;
+  /** Value used when the client doesn't set one */
+  default?: string;
+}
+
+export const StringConfigOptionSchema = ConfigOptionBaseSchema.extend({
+  type: z.literal("string"),
+  maxLength: z.number().int().nonnegative().optional(),
+  default: z.string().optional(),
+});
+
+/**
+ * Declaration of a typed session config option.
+ * Agents declare these so clients can render settings and so values can be
+ * validated on `session/new` and `session/set_config_option`.
+ *
+ * @example
+ * ```json
+ * {
+ *   "key": "model",
+ *   "label": "Model",
+ *   "type": "enum",
+ *   "choices": [
+ *     { "value": "fast", "label": "Fast" },
+ *     { "value": "smart", "label": "Smart" }
+ *   ],
+ *   "default": "fast"
+ * }
+ * ```
+ */
+export type ConfigOptionDefinition =
+  | EnumConfigOption
+  | BooleanConfigOption
+  | NumberConfigOption
+  | StringConfigOption;
+
+export const ConfigOptionDefinitionSchema = z.discriminatedUnion("type", [
+  EnumConfigOptionSchema,
+  BooleanConfigOptionSchema,
+  NumberConfigOptionSchema,
+  StringConfigOptionSchema,
+]);
+
 /**
  * Data for a config option change update.
  */
@@ -13,6 +13,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { z } from "zod";
 import { ACPAgent } from "../../src/agent/ACPAgent.js";
 import type { Transport } from "../../src/transport/types.js";
 import type {
@@ -21,6 +22,17 @@ import type {
   JsonRpcNotification,
 } from "../../src/types/index.js";
 import type { PromptHandler } from "../../src/agent/types.js";
+import { createApiKeyStrategy } from "../../src/agent/auth.js";
+import { MemorySessionStore } from "../../src/agent/SessionStore.js";
+import {
+  InvalidParamsError,
+  PermissionDeniedError,
+  RateLimitedError,
+  ResourceNotFoundError,
+  ParseError,
+  TimeoutError,
+} from "../../src/protocol/errors.js";
+import { ErrorCodes } from "../../src/types/jsonrpc.js";
 
 // Mock Transport implementation
 class MockTransport implements Transport {
@@ -29,6 +41,10 @@ class MockTransport implements Transport {
   private closeHandler: (() => void) | null = null;
   public sentMessages: any[] = [];
   public requests: JsonRpcRequest[] = [];
+  private messageWaiters: Array<{
+    matches: (message: any) => boolean;
+    resolve: (message: any) => void;
+  }> = [];
 
   async start(): Promise<void> {}
 
@@ -49,7 +65,21 @@ class MockTransport implements Transport {
   }
 
   async notify(notification: JsonRpcNotification): Promise<void> {
-    this.sentMessages.push(notification);
+    this.record(notification);
+  }
+
+  async respond(response: JsonRpcResponse): Promise<void> {
+    this.record(response);
+  }
+
+  private record(message: any): void {
+    this.sentMessages.push(message);
+    for (const waiter of [...this.messageWaiters]) {
+      if (waiter.matches(message)) {
+        this.messageWaiters.splice(this.messageWaiters.indexOf(waiter), 1);
+        waiter.resolve(message);
+      }
+    }
   }
 
   on(event: string, handler: any): void {
@@ -79,6 +109,32 @@ class MockTransport implements Transport {
     }
   }
 
+  /**
+   * Wait for the next message the agent sends that matches.
+   */
+  waitForMessage(matches: (message: any) => boolean): Promise<any> {
+    return new Promise((resolve) => this.messageWaiters.push({ matches, resolve }));
+  }
+
+  /**
+   * Simulate a request and wait for the agent's response to it.
+   */
+  simulateRequest(id: string | number, method: string, params?: unknown): Promise<any> {
+    const response = this.waitForMessage((message) => message.id === id);
+    this.simulateMessage({ jsonrpc: "2.0", id, method, params });
+    return response;
+  }
+
+  /**
+   * Simulate a text prompt and wait for the agent's response to it.
+   */
+  simulatePrompt(id: string | number, sessionId: string, text = "Hello"): Promise<any> {
+    return this.simulateRequest(id, "session/prompt", {
+      sessionId,
+      content: [{ type: "text", text }],
+    });
+  }
+
   simulateError(error: Error): void {
     if (this.errorHandler) {
       this.errorHandler(error);
@@ -185,7 +241,7 @@ describe("ACPAgent", () => {
         id: 1,
         method: "initialize",
         params: {
-          protocolVersion: "1.0.0",
+          protocolVersion: 1,
           clientInfo: { name: "TestClient", version: "1.0.0" },
           capabilities: {},
         },
@@ -281,7 +337,7 @@ describe("ACPAgent", () => {
         id: 1,
         method: "initialize",
         params: {
-          protocolVersion: "1.0.0",
+          protocolVersion: 1,
           clientInfo: { name: "TestClient", version: "1.0.0" },
           capabilities: {},
         },
@@ -327,7 +383,7 @@ describe("ACPAgent", () => {
         id: 1,
         method: "initialize",
         params: {
-          protocolVersion: "1.0.0",
+          protocolVersion: 1,
           clientInfo: {
             name: "TestClient",
             version: "1.0.0",
@@ -356,7 +412,7 @@ describe("ACPAgent", () => {
         id: 1,
         method: "initialize",
         params: {
-          protocolVersion: "1.0.0",
+          protocolVersion: 1,
           clientInfo: {
             name: "TestClient",
             version: "2.0.0",
@@ -381,7 +437,7 @@ describe("ACPAgent", () => {
         id: 1,
         method: "initialize",
         params: {
-          protocolVersion: "1.0.0",
+          protocolVersion: 1,
           clientInfo: { name: "TestClient", version: "1.0.0" },
           capabilities: {},
         },
@@ -398,6 +454,180 @@ describe("ACPAgent", () => {
     });
   });
 
+  describe("authenticate request", () => {
+    const initialize = (): Promise<any> =>
+      transport.simulateRequest(1, "initialize", {
+        protocolVersion: 1,
+        clientInfo: { name: "TestClient", version: "1.0.0" },
+        capabilities: {},
+      });
+
+    const authenticate = (id: number, apiKey: string): Promise<any> =>
+      transport.simulateRequest(id, "authenticate", {
+        method: "api_key",
+        credentials: { apiKey },
+      });
+
+    const newSession = (id: number): Promise<any> =>
+      transport.simulateRequest(id, "session/new", { workingDirectory: "/test" });
+
+    beforeEach(async () => {
+      agent = new ACPAgent(transport, {
+        name: "TestAgent",
+        version: "1.0.0",
+        auth: {
+          strategies: [
+            createApiKeyStrategy((key) => key === "secret", {
+              description: "API key",
+            }),
+          ],
+        },
+      });
+      await agent.start();
+      await initialize();
+    });
+
+    it("should advertise auth methods in the initialize response", () => {
+      const response = transport.sentMessages.find((msg: any) => msg.id === 1);
+      expect(response.result.authMethods).toEqual([
+        { id: "api_key", description: "API key" },
+      ]);
+    });
+
+    it("should reject session/new before authentication", async () => {
+      const response = await newSession(2);
+
+      expect(response.error).toBeDefined();
+      expect(response.error.code).toBe(ErrorCodes.AuthRequired);
+      expect(agent.getSessions()).toHaveLength(0);
+    });
+
+    it("should allow session/new after successful authentication", async () => {
+      const authenticatedSpy = vi.fn();
+      agent.on("authenticated", authenticatedSpy);
+
+      const authResponse = await authenticate(2, "secret");
+      expect(authResponse.result).toEqual({ success: true });
+      expect(authenticatedSpy).toHaveBeenCalledWith("api_key", undefined);
+
+      const response = await newSession(3);
+      expect(response.result.sessionId).toBeDefined();
+    });
+
+    it("should report invalid credentials", async () => {
+      const authResponse = await authenticate(2, "wrong");
+      expect(authResponse.result.success).toBe(false);
+      expect(authResponse.result.error).toBe("Invalid API key");
+
+      const response = await newSession(3);
+      expect(response.error.code).toBe(ErrorCodes.AuthRequired);
+    });
+
+    it("should stay authenticated after a failed attempt", async () => {
+      await authenticate(2, "secret");
+      const authResponse = await authenticate(3, "wrong");
+      expect(authResponse.result.success).toBe(false);
+
+      const response = await newSession(4);
+      expect(response.result.sessionId).toBeDefined();
+    });
+
+    it("should require authentication for every session method", async () => {
+      const responses = await Promise.all([
+        transport.simulateRequest(2, "session/set_mode", {
+          sessionId: "sess_1",
+          mode: "plan",
+        }),
+        transport.simulateRequest(3, "session/set_config_option", {
+          sessionId: "sess_1",
+          key: "verbose",
+          value: true,
+        }),
+      ]);
+
+      for (const response of responses) {
+        expect(response.error.code).toBe(ErrorCodes.AuthRequired);
+      }
+    });
+
+    it("should reject an invalid expiresAt from the strategy", async () => {
+      await agent.stop();
+      transport = new MockTransport();
+      agent = new ACPAgent(transport, {
+        name: "TestAgent",
+        version: "1.0.0",
+        auth: {
+          strategies: [
+            {
+              method: "custom",
+              async authenticate() {
+                return { success: true, expiresAt: "tomorrow-ish" };
+              },
+            },
+          ],
+        },
+      });
+      await agent.start();
+      await initialize();
+
+      const authResponse = await transport.simulateRequest(2, "authenticate", {
+        method: "custom",
+        credentials: {},
+      });
+      expect(authResponse.error.code).toBe(ErrorCodes.InternalError);
+      expect((await newSession(3)).error.code).toBe(ErrorCodes.AuthRequired);
+    });
+
+    it("should reject unsupported authentication methods", async () => {
+      const response = await transport.simulateRequest(2, "authenticate", {
+        method: "oauth2",
+        credentials: { token: "abc" },
+      });
+      expect(response.error).toBeDefined();
+      expect(response.error.code).toBe(ErrorCodes.InvalidParams);
+    });
+
+    it("should require re-authentication once expiresAt has passed", async () => {
+      await agent.stop();
+      transport = new MockTransport();
+      agent = new ACPAgent(transport, {
+        name: "TestAgent",
+        version: "1.0.0",
+        auth: {
+          strategies: [
+            {
+              method: "custom",
+              async authenticate() {
+                return {
+                  success: true,
+                  expiresAt: new Date(Date.now() + 20).toISOString(),
+                };
+              },
+            },
+          ],
+        },
+      });
+      await agent.start();
+      await initialize();
+
+      await transport.simulateRequest(2, "authenticate", {
+        method: "custom",
+        credentials: {},
+      });
+
+      expect((await newSession(3)).result).toBeDefined();
+
+      vi.setSystemTime(Date.now() + 1000);
+      try {
+        const response = await newSession(4);
+        expect(response.error.code).toBe(ErrorCodes.AuthRequired);
+        expect(response.error.message).toContain("expired");
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
   describe("session/new request", () => {
     beforeEach(async () => {
       agent = new ACPAgent(transport, {
@@ -412,7 +642,7 @@ describe("ACPAgent", () => {
         id: 1,
         method: "initialize",
         params: {
-          protocolVersion: "1.0.0",
+          protocolVersion: 1,
           clientInfo: { name: "TestClient", version: "1.0.0" },
           capabilities: {},
         },
@@ -524,7 +754,7 @@ describe("ACPAgent", () => {
         id: 1,
         method: "initialize",
         params: {
-          protocolVersion: "1.0.0",
+          protocolVersion: 1,
           clientInfo: { name: "TestClient", version: "1.0.0" },
           capabilities: {},
         },
@@ -566,6 +796,16 @@ describe("ACPAgent", () => {
       expect(response.result.workingDirectory).toBe("/test");
     });
 
+    it("should include the session's token usage", async () => {
+      const session = agent.getSessions()[0];
+      session.reportUsage({ inputTokens: 10, outputTokens: 5 });
+
+      const response = await transport.simulateRequest(3, "session/load", {
+        sessionId: session.id,
+      });
+      expect(response.result.usage).toEqual({ inputTokens: 10, outputTokens: 5 });
+    });
+
     it("should fail for non-existent session", async () => {
       transport.simulateMessage({
         jsonrpc: "2.0",
@@ -586,232 +826,1722 @@ describe("ACPAgent", () => {
     });
   });
 
-  describe("session/prompt request", () => {
+  describe("request validation", () => {
     beforeEach(async () => {
       agent = new ACPAgent(transport, {
         name: "TestAgent",
         version: "1.0.0",
       });
       await agent.start();
+    });
 
-      // Initialize
-      transport.simulateMessage({
-        jsonrpc: "2.0",
-        id: 1,
-        method: "initialize",
-        params: {
-          protocolVersion: "1.0.0",
-          clientInfo: { name: "TestClient", version: "1.0.0" },
-          capabilities: {},
-        },
-      });
+    it("should return MethodNotFound for unknown methods", async () => {
+      const response = await transport.simulateRequest(1, "session/unknown", {});
 
-      // Create session
-      transport.simulateMessage({
-        jsonrpc: "2.0",
-        id: 2,
-        method: "session/new",
-        params: {
-          workingDirectory: "/test",
-        },
+      expect(response.error).toEqual({
+        code: ErrorCodes.MethodNotFound,
+        message: "Method not found: session/unknown",
+        data: { method: "session/unknown" },
       });
-
-      await new Promise((resolve) => setTimeout(resolve, 10));
     });
 
-    it("should handle prompt successfully", async () => {
-      const handler: PromptHandler = {
-        async handlePrompt(session, content) {
-          await session.sendAgentMessage("Hello!");
-          return "end_turn";
-        },
-      };
-      agent.setPromptHandler(handler);
+    it("should return InvalidParams with zod issues for invalid params", async () => {
+      const response = await transport.simulateRequest(1, "initialize", {
+        protocolVersion: "1.0.0",
+        clientInfo: { name: "TestClient", version: "1.0.0" },
+        capabilities: {},
+      });
 
-      const sessions = agent.getSessions();
-      const sessionId = sessions[0].id;
+      expect(response.error.code).toBe(ErrorCodes.InvalidParams);
+      expect(response.error.message).toBe("Invalid params for initialize");
+      expect(response.error.data.method).toBe("initialize");
+      expect(response.error.data.issues).toEqual([
+        expect.objectContaining({
+          path: ["protocolVersion"],
+          code: "invalid_type",
+        }),
+      ]);
+    });
 
-      transport.simulateMessage({
-        jsonrpc: "2.0",
-        id: 3,
-        method: "session/prompt",
-        params: {
-          sessionId,
-          content: [{ type: "text", text: "Hello" }],
-        },
+    it("should reject missing params", async () => {
+      await transport.simulateRequest(1, "initialize", {
+        protocolVersion: 1,
+        clientInfo: { name: "TestClient", version: "1.0.0" },
+        capabilities: {},
       });
 
-      await new Promise((resolve) => setTimeout(resolve, 50));
+      const response = await transport.simulateRequest(2, "session/new", undefined);
 
-      const response = transport.sentMessages.find(
-        (msg: any) => msg.id === 3
-      );
-      expect(response).toBeDefined();
-      expect(response.result.stopReason).toBe("end_turn");
+      expect(response.error.code).toBe(ErrorCodes.InvalidParams);
     });
 
-    it("should fail if no prompt handler configured", async () => {
-      const sessions = agent.getSessions();
-      const sessionId = sessions[0].id;
-
-      transport.simulateMessage({
-        jsonrpc: "2.0",
-        id: 3,
-        method: "session/prompt",
-        params: {
-          sessionId,
-          content: [{ type: "text", text: "Hello" }],
-        },
+    it("should validate content blocks in prompts", async () => {
+      await transport.simulateRequest(1, "initialize", {
+        protocolVersion: 1,
+        clientInfo: { name: "TestClient", version: "1.0.0" },
+        capabilities: {},
       });
 
-      await new Promise((resolve) => setTimeout(resolve, 10));
+      const response = await transport.simulateRequest(2, "session/prompt", {
+        sessionId: "sess_123",
+        content: [{ type: "video", url: "movie.mp4" }],
+      });
 
-      const response = transport.sentMessages.find(
-        (msg: any) => msg.id === 3
-      );
-      expect(response).toBeDefined();
-      expect(response.error).toBeDefined();
+      expect(response.error.code).toBe(ErrorCodes.InvalidParams);
+      expect(response.error.data.issues[0].path).toEqual([
+        "content",
+        0,
+        "type",
+      ]);
     });
 
-    it("should fail for non-existent session", async () => {
-      const handler: PromptHandler = {
-        async handlePrompt() {
-          return "end_turn";
-        },
-      };
-      agent.setPromptHandler(handler);
-
-      transport.simulateMessage({
-        jsonrpc: "2.0",
-        id: 3,
-        method: "session/prompt",
-        params: {
-          sessionId: "non-existent",
-          content: [{ type: "text", text: "Hello" }],
-        },
+    it("should preserve ACPError data on the wire", async () => {
+      await transport.simulateRequest(1, "initialize", {
+        protocolVersion: 1,
+        clientInfo: { name: "TestClient", version: "1.0.0" },
+        capabilities: {},
       });
 
-      await new Promise((resolve) => setTimeout(resolve, 10));
+      const response = await transport.simulateRequest(2, "session/set_mode", {
+        sessionId: "missing",
+        mode: "code",
+      });
 
-      const response = transport.sentMessages.find(
-        (msg: any) => msg.id === 3
-      );
-      expect(response).toBeDefined();
-      expect(response.error).toBeDefined();
+      expect(response.error).toEqual({
+        code: ErrorCodes.SessionNotFound,
+        message: "Session not found: missing",
+        data: { sessionId: "missing" },
+      });
     });
 
-    it("should emit prompt event", async () => {
-      const promptSpy = vi.fn();
-      agent.on("prompt", promptSpy);
-
-      const handler: PromptHandler = {
-        async handlePrompt() {
-          return "end_turn";
-        },
-      };
-      agent.setPromptHandler(handler);
+    it("should reject requests before initialize with InvalidRequest", async () => {
+      const response = await transport.simulateRequest(1, "session/new", {
+        workingDirectory: "/test",
+      });
 
-      const sessions = agent.getSessions();
-      const sessionId = sessions[0].id;
+      expect(response.error).toEqual({
+        code: ErrorCodes.InvalidRequest,
+        message: "Agent not initialized",
+      });
+    });
 
-      transport.simulateMessage({
-        jsonrpc: "2.0",
-        id: 3,
-        method: "session/prompt",
-        params: {
-          sessionId,
-          content: [{ type: "text", text: "Hello" }],
-        },
+    it("should map unexpected errors to InternalError", async () => {
+      agent.onRequest("_test/fail", async () => {
+        throw new Error("Something broke");
       });
 
-      await new Promise((resolve) => setTimeout(resolve, 50));
+      const response = await transport.simulateRequest(1, "_test/fail", {});
 
-      expect(promptSpy).toHaveBeenCalled();
+      expect(response.error).toEqual({
+        code: ErrorCodes.InternalError,
+        message: "Something broke",
+      });
     });
 
-    it("should handle handler errors gracefully", async () => {
-      const handler: PromptHandler = {
-        async handlePrompt() {
-          throw new Error("Handler error");
-        },
-      };
-      agent.setPromptHandler(handler);
-
-      const sessions = agent.getSessions();
-      const sessionId = sessions[0].id;
+    it("should emit an error for invalid notifications", async () => {
+      const errorSpy = vi.fn();
+      agent.on("error", errorSpy);
 
       transport.simulateMessage({
         jsonrpc: "2.0",
-        id: 3,
-        method: "session/prompt",
-        params: {
-          sessionId,
-          content: [{ type: "text", text: "Hello" }],
-        },
+        method: "session/cancel",
+        params: { sessionId: 42 },
       });
 
-      await new Promise((resolve) => setTimeout(resolve, 50));
-
-      const response = transport.sentMessages.find(
-        (msg: any) => msg.id === 3
+      await vi.waitFor(() =>
+        expect(errorSpy).toHaveBeenCalledWith(expect.any(InvalidParamsError))
       );
-      expect(response).toBeDefined();
-      expect(response.result.stopReason).toBe("error");
     });
   });
 
-  describe("session/cancel notification", () => {
+  describe("custom handlers and middleware", () => {
+    const initializeParams = {
+      protocolVersion: 1,
+      clientInfo: { name: "TestClient", version: "1.0.0" },
+      capabilities: {},
+    };
+
     beforeEach(async () => {
       agent = new ACPAgent(transport, {
         name: "TestAgent",
         version: "1.0.0",
       });
       await agent.start();
+    });
 
-      // Initialize
-      transport.simulateMessage({
-        jsonrpc: "2.0",
-        id: 1,
-        method: "initialize",
-        params: {
-          protocolVersion: "1.0.0",
-          clientInfo: { name: "TestClient", version: "1.0.0" },
-          capabilities: {},
-        },
-      });
+    it("should handle custom request methods", async () => {
+      agent.onRequest("_test/echo", async (params) => ({ echo: params }));
 
-      // Create session
-      transport.simulateMessage({
-        jsonrpc: "2.0",
-        id: 2,
-        method: "session/new",
-        params: {
-          workingDirectory: "/test",
-        },
-      });
+      const response = await transport.simulateRequest(1, "_test/echo", { value: 42 });
 
-      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(response.result).toEqual({ echo: { value: 42 } });
     });
 
-    it("should handle session cancellation", async () => {
-      const cancelledSpy = vi.fn();
-      agent.on("cancelled", cancelledSpy);
-
-      const sessions = agent.getSessions();
-      const sessionId = sessions[0].id;
+    it("should handle custom notification methods", async () => {
+      const notificationSpy = vi.fn();
+      agent.onNotification("_test/ping", notificationSpy);
 
       transport.simulateMessage({
         jsonrpc: "2.0",
-        method: "session/cancel",
-        params: {
-          sessionId,
-        },
+        method: "_test/ping",
+        params: { at: 1 },
       });
 
-      await new Promise((resolve) => setTimeout(resolve, 10));
+      await vi.waitFor(() => expect(notificationSpy).toHaveBeenCalledWith({ at: 1 }));
+    });
+
+    it("should allow overriding built-in handlers", async () => {
+      agent.onRequest("initialize", async () => ({ custom: true }));
+
+      const response = await transport.simulateRequest(1, "initialize", initializeParams);
+
+      expect(response.result).toEqual({ custom: true });
+    });
+
+    it("should run middleware around built-in handlers", async () => {
+      const seen: unknown[] = [];
+      agent.use(async (ctx, next) => {
+        seen.push(ctx.method);
+        await next();
+        seen.push((ctx.result as any).agentInfo.name);
+      });
+
+      await transport.simulateRequest(1, "initialize", initializeParams);
+
+      expect(seen).toEqual(["initialize", "TestAgent"]);
+    });
+
+    it("should let middleware observe errors", async () => {
+      const errors: unknown[] = [];
+      agent.use(async (_ctx, next) => {
+        try {
+          await next();
+        } catch (error) {
+          errors.push(error);
+          throw error;
+        }
+      });
+
+      const response = await transport.simulateRequest(1, "session/load", {
+        sessionId: "missing",
+      });
+
+      expect(errors).toHaveLength(1);
+      expect(response.error.message).toBe("Agent not initialized");
+    });
+
+    it("should send errors thrown by middleware to the client", async () => {
+      agent.use(async (ctx, next) => {
+        if (ctx.method === "session/new") {
+          throw new InvalidParamsError("Sessions are disabled");
+        }
+        await next();
+      });
+
+      await transport.simulateRequest(1, "initialize", initializeParams);
+      const response = await transport.simulateRequest(2, "session/new", {
+        workingDirectory: "/test",
+      });
+
+      expect(response.error).toEqual({
+        code: ErrorCodes.InvalidParams,
+        message: "Sessions are disabled",
+      });
+      expect(agent.getSessions()).toHaveLength(0);
+    });
+  });
+
+  describe("usage accounting", () => {
+    let store: MemorySessionStore;
+
+    beforeEach(async () => {
+      store = new MemorySessionStore();
+      agent = new ACPAgent(transport, {
+        name: "TestAgent",
+        version: "1.0.0",
+        sessionStore: store,
+      });
+      agent.setPromptHandler({
+        async handlePrompt(session) {
+          session.reportUsage({ inputTokens: 100, outputTokens: 40 });
+          session.reportUsage({
+            inputTokens: 50,
+            outputTokens: 10,
+            cachedInputTokens: 25,
+          });
+          return "end_turn";
+        },
+      });
+      await agent.start();
+
+      await transport.simulateRequest(1, "initialize", {
+        protocolVersion: 1,
+        clientInfo: { name: "TestClient", version: "1.0.0" },
+        capabilities: {},
+      });
+      await transport.simulateRequest(2, "session/new", { workingDirectory: "/test" });
+    });
+
+    it("should return the turn usage in the prompt response", async () => {
+      const sessionId = agent.getSessions()[0].id;
+
+      const response = await transport.simulatePrompt(3, sessionId);
+
+      expect(response.result).toEqual({
+        stopReason: "end_turn",
+        usage: { inputTokens: 150, outputTokens: 50, cachedInputTokens: 25 },
+      });
+    });
+
+    it("should keep cumulative totals per session and persist them", async () => {
+      const sessionId = agent.getSessions()[0].id;
+
+      await transport.simulatePrompt(3, sessionId);
+      const second = await transport.simulatePrompt(4, sessionId);
+
+      expect(second.result.usage).toEqual({
+        inputTokens: 150,
+        outputTokens: 50,
+        cachedInputTokens: 25,
+      });
+      expect(agent.getSession(sessionId)?.getData().usage).toEqual({
+        inputTokens: 300,
+        outputTokens: 100,
+        cachedInputTokens: 50,
+      });
+      expect((await store.load(sessionId))?.usage).toEqual({
+        inputTokens: 300,
+        outputTokens: 100,
+        cachedInputTokens: 50,
+      });
+    });
+
+    it("should omit usage when none was reported", async () => {
+      agent.setPromptHandler({
+        async handlePrompt() {
+          return "end_turn";
+        },
+      });
+      const sessionId = agent.getSessions()[0].id;
+
+      const response = await transport.simulatePrompt(3, sessionId);
+
+      expect(response.result).toEqual({ stopReason: "end_turn" });
+    });
+  });
+
+  describe("prompt concurrency", () => {
+    let sessionId: string;
+    let started: string[];
+    let releases: Array<() => void>;
+
+    const createAgent = async (
+      promptConcurrency?: "reject" | "queue" | "cancel"
+    ): Promise<void> => {
+      agent = new ACPAgent(transport, {
+        name: "TestAgent",
+        version: "1.0.0",
+        ...(promptConcurrency && { promptConcurrency }),
+      });
+      agent.setPromptHandler({
+        async handlePrompt(session, content) {
+          started.push((content[0] as { text: string }).text);
+          await new Promise<void>((resolve) => releases.push(resolve));
+          return session.isCancelled ? "cancelled" : "end_turn";
+        },
+      });
+      await agent.start();
+
+      await transport.simulateRequest(1, "initialize", {
+        protocolVersion: 1,
+        clientInfo: { name: "TestClient", version: "1.0.0" },
+        capabilities: {},
+      });
+      await transport.simulateRequest(2, "session/new", { workingDirectory: "/test" });
+      sessionId = agent.getSessions()[0].id;
+    };
+
+    const prompt = (id: number, text: string): Promise<any> =>
+      transport.simulatePrompt(id, sessionId, text);
+
+    const tick = () => new Promise((resolve) => setTimeout(resolve, 10));
+    const responseFor = (id: number) =>
+      transport.sentMessages.find((msg: any) => msg.id === id);
+
+    beforeEach(() => {
+      started = [];
+      releases = [];
+    });
+
+    it("should queue concurrent prompts by default", async () => {
+      await createAgent();
+      const queuedSpy = vi.fn();
+      agent.on("promptQueued", queuedSpy);
+
+      prompt(3, "first");
+      prompt(4, "second");
+      prompt(5, "third");
+      await tick();
+
+      expect(started).toEqual(["first"]);
+      expect(queuedSpy).toHaveBeenCalledTimes(2);
+      expect(queuedSpy).toHaveBeenLastCalledWith(
+        agent.getSession(sessionId),
+        [{ type: "text", text: "third" }],
+        2
+      );
+
+      releases[0]();
+      await tick();
+      expect(started).toEqual(["first", "second"]);
+      expect(responseFor(3).result.stopReason).toBe("end_turn");
+      expect(responseFor(4)).toBeUndefined();
+
+      releases[1]();
+      await tick();
+      releases[2]();
+      await tick();
+
+      expect(started).toEqual(["first", "second", "third"]);
+      expect(responseFor(5).result.stopReason).toBe("end_turn");
+    });
+
+    it("should reject concurrent prompts with the reject policy", async () => {
+      await createAgent("reject");
+
+      prompt(3, "first");
+      prompt(4, "second");
+      await tick();
+
+      expect(started).toEqual(["first"]);
+      expect(responseFor(4).error).toEqual({
+        code: ErrorCodes.InvalidSessionState,
+        message: "Invalid session state: expected idle, got prompting",
+        data: { sessionId, currentState: "prompting", expectedState: "idle" },
+      });
+
+      // The session accepts prompts again once the running one finishes
+      releases[0]();
+      await tick();
+      prompt(5, "third");
+      await tick();
+
+      expect(started).toEqual(["first", "third"]);
+    });
+
+    it("should cancel the running prompt with the cancel policy", async () => {
+      await createAgent("cancel");
+
+      prompt(3, "first");
+      await tick();
+      prompt(4, "second");
+      await tick();
+
+      expect(agent.getSession(sessionId)?.isCancelled).toBe(true);
+
+      releases[0]();
+      await tick();
+
+      expect(responseFor(3).result.stopReason).toBe("cancelled");
+      expect(started).toEqual(["first", "second"]);
+      expect(agent.getSession(sessionId)?.isCancelled).toBe(false);
+
+      releases[1]();
+      await tick();
+
+      expect(responseFor(4).result.stopReason).toBe("end_turn");
+    });
+
+    it("should drop queued prompts on session/cancel", async () => {
+      await createAgent();
+      const droppedSpy = vi.fn();
+      agent.on("promptDropped", droppedSpy);
+
+      prompt(3, "first");
+      prompt(4, "second");
+      await tick();
+
+      transport.simulateMessage({
+        jsonrpc: "2.0",
+        method: "session/cancel",
+        params: { sessionId },
+      });
+      await tick();
+
+      expect(responseFor(4).result).toEqual({ stopReason: "cancelled" });
+      expect(droppedSpy).toHaveBeenCalledWith(agent.getSession(sessionId), [
+        { type: "text", text: "second" },
+      ]);
+
+      releases[0]();
+      await tick();
+
+      expect(responseFor(3).result.stopReason).toBe("cancelled");
+      expect(started).toEqual(["first"]);
+    });
+  });
+
+  describe("session persistence", () => {
+    let store: MemorySessionStore;
+
+    const initialize = async (): Promise<void> => {
+      await transport.simulateRequest(1, "initialize", {
+        protocolVersion: 1,
+        clientInfo: { name: "TestClient", version: "1.0.0" },
+        capabilities: {},
+      });
+    };
+
+    const createAgent = async (): Promise<void> => {
+      agent = new ACPAgent(transport, {
+        name: "TestAgent",
+        version: "1.0.0",
+        capabilities: {
+          loadSession: true,
+          session: { modes: ["default", "plan"] },
+        },
+        sessionStore: store,
+      });
+      await agent.start();
+      await initialize();
+    };
+
+    beforeEach(async () => {
+      store = new MemorySessionStore();
+      await createAgent();
+    });
+
+    it("should advertise session persistence", () => {
+      const response = transport.sentMessages.find((msg: any) => msg.id === 1);
+      expect(response.result.capabilities.sessionCapabilities).toEqual({
+        modes: ["default", "plan"],
+        persistence: true,
+      });
+    });
+
+    it("should save new sessions to the store", async () => {
+      await transport.simulateRequest(2, "session/new", {
+        workingDirectory: "/test",
+        configOptions: { model: "fast" },
+      });
+
+      const sessionId = agent.getSessions()[0].id;
+      const stored = await store.load(sessionId);
+
+      expect(stored).toBeDefined();
+      expect(stored?.workingDirectory).toBe("/test");
+      expect(stored?.configOptions).toEqual({ model: "fast" });
+      expect(stored).not.toHaveProperty("cancelled");
+    });
+
+    it("should load sessions from the store after a restart", async () => {
+      agent.setPromptHandler({
+        async handlePrompt() {
+          return "end_turn";
+        },
+      });
+
+      await transport.simulateRequest(2, "session/new", { workingDirectory: "/test" });
+
+      const sessionId = agent.getSessions()[0].id;
+
+      await transport.simulateRequest(3, "session/set_mode", { sessionId, mode: "plan" });
+      await transport.simulatePrompt(4, sessionId);
+
+      // Simulate an agent restart with the same store
+      await agent.stop();
+      transport = new MockTransport();
+      await createAgent();
+      expect(agent.getSession(sessionId)).toBeUndefined();
+
+      const loadedSpy = vi.fn();
+      agent.on("sessionLoaded", loadedSpy);
+
+      const response = await transport.simulateRequest(2, "session/load", { sessionId });
+      expect(response.result).toEqual({
+        sessionId,
+        workingDirectory: "/test",
+        mode: "plan",
+        configOptions: {},
+        messageCount: 1,
+      });
+
+      const session = agent.getSession(sessionId);
+      expect(session).toBeDefined();
+      expect(session?.isCancelled).toBe(false);
+      expect(loadedSpy).toHaveBeenCalledWith(session);
+    });
+  });
+
+  describe("history replay", () => {
+    beforeEach(async () => {
+      agent = new ACPAgent(transport, {
+        name: "TestAgent",
+        version: "1.0.0",
+        capabilities: { loadSession: true },
+        historyLimit: 3,
+      });
+      agent.setPromptHandler({
+        async handlePrompt(session) {
+          await session.sendThought("Thinking...");
+          await session.sendAgentMessage("Hi there!");
+          return "end_turn";
+        },
+      });
+      await agent.start();
+
+      await transport.simulateRequest(1, "initialize", {
+        protocolVersion: 1,
+        clientInfo: { name: "TestClient", version: "1.0.0" },
+        capabilities: {},
+      });
+      await transport.simulateRequest(2, "session/new", { workingDirectory: "/test" });
+    });
+
+    it("should replay recorded updates before the load response", async () => {
+      const sessionId = agent.getSessions()[0].id;
+
+      await transport.simulateRequest(3, "session/prompt", {
+        sessionId,
+        content: [
+          { type: "text", text: "Hello" },
+          { type: "text", text: "World" },
+        ],
+      });
+
+      transport.sentMessages = [];
+      await transport.simulateRequest(4, "session/load", { sessionId });
+
+      // History limit of 3 drops the first user chunk
+      expect(
+        transport.sentMessages.map((msg: any) => msg.method ?? msg.id)
+      ).toEqual(["session/update", "session/update", "session/update", 4]);
+      expect(
+        transport.sentMessages
+          .slice(0, 3)
+          .map((msg: any) => [
+            msg.params.sessionId,
+            msg.params.type,
+            msg.params.data,
+          ])
+      ).toEqual([
+        [sessionId, "user_message_chunk", { content: "World", index: 1, final: true }],
+        [sessionId, "thought_message_chunk", { content: "Thinking...", index: 0 }],
+        [sessionId, "agent_message_chunk", { content: "Hi there!", index: 0 }],
+      ]);
+    });
+
+    it("should not replay anything for a session without history", async () => {
+      const sessionId = agent.getSessions()[0].id;
+
+      transport.sentMessages = [];
+      await transport.simulateRequest(3, "session/load", { sessionId });
+
+      expect(transport.sentMessages).toHaveLength(1);
+      expect(transport.sentMessages[0].id).toBe(3);
+    });
+  });
+
+  describe("session/prompt request", () => {
+    beforeEach(async () => {
+      agent = new ACPAgent(transport, {
+        name: "TestAgent",
+        version: "1.0.0",
+      });
+      await agent.start();
+
+      // Initialize
+      transport.simulateMessage({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: {
+          protocolVersion: 1,
+          clientInfo: { name: "TestClient", version: "1.0.0" },
+          capabilities: {},
+        },
+      });
+
+      // Create session
+      transport.simulateMessage({
+        jsonrpc: "2.0",
+        id: 2,
+        method: "session/new",
+        params: {
+          workingDirectory: "/test",
+        },
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    });
+
+    it("should handle prompt successfully", async () => {
+      const handler: PromptHandler = {
+        async handlePrompt(session, content) {
+          await session.sendAgentMessage("Hello!");
+          return "end_turn";
+        },
+      };
+      agent.setPromptHandler(handler);
+
+      const sessions = agent.getSessions();
+      const sessionId = sessions[0].id;
+
+      transport.simulateMessage({
+        jsonrpc: "2.0",
+        id: 3,
+        method: "session/prompt",
+        params: {
+          sessionId,
+          content: [{ type: "text", text: "Hello" }],
+        },
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const response = transport.sentMessages.find(
+        (msg: any) => msg.id === 3
+      );
+      expect(response).toBeDefined();
+      expect(response.result.stopReason).toBe("end_turn");
+    });
+
+    it("should fail if no prompt handler configured", async () => {
+      const sessions = agent.getSessions();
+      const sessionId = sessions[0].id;
+
+      transport.simulateMessage({
+        jsonrpc: "2.0",
+        id: 3,
+        method: "session/prompt",
+        params: {
+          sessionId,
+          content: [{ type: "text", text: "Hello" }],
+        },
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      const response = transport.sentMessages.find(
+        (msg: any) => msg.id === 3
+      );
+      expect(response).toBeDefined();
+      expect(response.error.code).toBe(ErrorCodes.InvalidSessionState);
+      expect(response.error.message).toBe(
+        "Invalid session state: no prompt handler configured"
+      );
+    });
+
+    it("should fail for non-existent session", async () => {
+      const handler: PromptHandler = {
+        async handlePrompt() {
+          return "end_turn";
+        },
+      };
+      agent.setPromptHandler(handler);
+
+      transport.simulateMessage({
+        jsonrpc: "2.0",
+        id: 3,
+        method: "session/prompt",
+        params: {
+          sessionId: "non-existent",
+          content: [{ type: "text", text: "Hello" }],
+        },
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      const response = transport.sentMessages.find(
+        (msg: any) => msg.id === 3
+      );
+      expect(response).toBeDefined();
+      expect(response.error).toEqual({
+        code: ErrorCodes.SessionNotFound,
+        message: "Session not found: non-existent",
+        data: { sessionId: "non-existent" },
+      });
+    });
+
+    it("should emit prompt event", async () => {
+      const promptSpy = vi.fn();
+      agent.on("prompt", promptSpy);
+
+      const handler: PromptHandler = {
+        async handlePrompt() {
+          return "end_turn";
+        },
+      };
+      agent.setPromptHandler(handler);
+
+      const sessions = agent.getSessions();
+      const sessionId = sessions[0].id;
+
+      transport.simulateMessage({
+        jsonrpc: "2.0",
+        id: 3,
+        method: "session/prompt",
+        params: {
+          sessionId,
+          content: [{ type: "text", text: "Hello" }],
+        },
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(promptSpy).toHaveBeenCalled();
+    });
+
+    it("should handle handler errors gracefully", async () => {
+      const handler: PromptHandler = {
+        async handlePrompt() {
+          throw new Error("Handler error");
+        },
+      };
+      agent.setPromptHandler(handler);
+
+      const sessions = agent.getSessions();
+      const sessionId = sessions[0].id;
+
+      transport.simulateMessage({
+        jsonrpc: "2.0",
+        id: 3,
+        method: "session/prompt",
+        params: {
+          sessionId,
+          content: [{ type: "text", text: "Hello" }],
+        },
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const response = transport.sentMessages.find(
+        (msg: any) => msg.id === 3
+      );
+      expect(response).toBeDefined();
+      expect(response.result.stopReason).toBe("error");
+    });
+  });
+
+  describe("session/cancel notification", () => {
+    beforeEach(async () => {
+      agent = new ACPAgent(transport, {
+        name: "TestAgent",
+        version: "1.0.0",
+      });
+      await agent.start();
+
+      // Initialize
+      transport.simulateMessage({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: {
+          protocolVersion: 1,
+          clientInfo: { name: "TestClient", version: "1.0.0" },
+          capabilities: {},
+        },
+      });
+
+      // Create session
+      transport.simulateMessage({
+        jsonrpc: "2.0",
+        id: 2,
+        method: "session/new",
+        params: {
+          workingDirectory: "/test",
+        },
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    });
+
+    it("should handle session cancellation", async () => {
+      const cancelledSpy = vi.fn();
+      agent.on("cancelled", cancelledSpy);
+
+      const sessions = agent.getSessions();
+      const sessionId = sessions[0].id;
+
+      transport.simulateMessage({
+        jsonrpc: "2.0",
+        method: "session/cancel",
+        params: {
+          sessionId,
+        },
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(cancelledSpy).toHaveBeenCalled();
+      expect(sessions[0].isCancelled).toBe(true);
+    });
+  });
+
+  describe("session/set_mode request", () => {
+    beforeEach(async () => {
+      agent = new ACPAgent(transport, {
+        name: "TestAgent",
+        version: "1.0.0",
+        capabilities: {
+          session: {
+            modes: ["default", "plan", "code"],
+          },
+        },
+      });
+      await agent.start();
+
+      // Initialize
+      transport.simulateMessage({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: {
+          protocolVersion: 1,
+          clientInfo: { name: "TestClient", version: "1.0.0" },
+          capabilities: {},
+        },
+      });
+
+      // Create session
+      await transport.simulateRequest(2, "session/new", {
+        workingDirectory: "/test",
+      });
+    });
+
+    it("should change the session mode", async () => {
+      const modeChangedSpy = vi.fn();
+      agent.on("modeChanged", modeChangedSpy);
+
+      const session = agent.getSessions()[0];
+
+      const response = await transport.simulateRequest(3, "session/set_mode", {
+        sessionId: session.id,
+        mode: "plan",
+      });
+      expect(response.result).toEqual({
+        previousMode: "default",
+        currentMode: "plan",
+      });
+      expect(session.currentMode).toBe("plan");
+      expect(modeChangedSpy).toHaveBeenCalledWith(session, "default", "plan");
+    });
+
+    it("should send a current_mode_update notification", async () => {
+      const session = agent.getSessions()[0];
+
+      await transport.simulateRequest(3, "session/set_mode", {
+        sessionId: session.id,
+        mode: "code",
+      });
+
+      const update = transport.sentMessages.find(
+        (msg: any) =>
+          msg.method === "session/update" &&
+          msg.params.type === "current_mode_update"
+      );
+      expect(update).toBeDefined();
+      expect(update.params.data).toEqual({
+        previousMode: "default",
+        currentMode: "code",
+      });
+    });
+
+    it("should record the mode update before listeners and the store see the change", async () => {
+      const sessionStore = new MemorySessionStore();
+      await agent.stop();
+      transport = new MockTransport();
+      agent = new ACPAgent(transport, {
+        name: "TestAgent",
+        version: "1.0.0",
+        capabilities: { session: { modes: ["default", "plan"] } },
+        sessionStore,
+      });
+      await agent.start();
+      await transport.simulateRequest(1, "initialize", {
+        protocolVersion: 1,
+        clientInfo: { name: "TestClient", version: "1.0.0" },
+        capabilities: {},
+      });
+      await transport.simulateRequest(2, "session/new", { workingDirectory: "/test" });
+      const session = agent.getSessions()[0];
+      let historyWhenChanged: string[] = [];
+      agent.on("modeChanged", (changed) => {
+        historyWhenChanged = changed.history.map((update) => update.type);
+      });
+
+      await session.setMode("plan");
+
+      expect(historyWhenChanged).toContain("current_mode_update");
+      const stored = await sessionStore.load(session.id);
+      expect(stored?.currentMode).toBe("plan");
+      expect(stored?.history?.map((update) => update.type)).toContain(
+        "current_mode_update"
+      );
+    });
+
+    it("should reject modes that were not advertised", async () => {
+      const session = agent.getSessions()[0];
+
+      const response = await transport.simulateRequest(3, "session/set_mode", {
+        sessionId: session.id,
+        mode: "yolo",
+      });
+      expect(response.error).toBeDefined();
+      expect(response.error.message).toContain("yolo");
+      expect(session.currentMode).toBeUndefined();
+    });
+
+    it("should fail for non-existent session", async () => {
+      const response = await transport.simulateRequest(3, "session/set_mode", {
+        sessionId: "non-existent",
+        mode: "plan",
+      });
+      expect(response.error).toBeDefined();
+    });
+  });
+
+  describe("slash commands", () => {
+    const commandUpdates = () =>
+      transport.sentMessages
+        .filter(
+          (msg: any) =>
+            msg.method === "session/update" &&
+            msg.params.type === "available_commands"
+        )
+        .map((msg: any) => msg.params.data.commands);
+
+    const commandsAdvertised = () =>
+      transport.waitForMessage((msg: any) => msg.params?.type === "available_commands");
+
+    beforeEach(async () => {
+      agent = new ACPAgent(transport, {
+        name: "TestAgent",
+        version: "1.0.0",
+        capabilities: { session: { modes: ["default", "plan"] } },
+      });
+      await agent.start();
+
+      await transport.simulateRequest(1, "initialize", {
+        protocolVersion: 1,
+        clientInfo: { name: "TestClient", version: "1.0.0" },
+        capabilities: {},
+      });
+    });
+
+    const createSession = async (id = 2) => {
+      await transport.simulateRequest(id, "session/new", { workingDirectory: "/test" });
+      return agent.getSessions()[0];
+    };
+
+    it("should advertise commands after the session/new response", async () => {
+      agent.registerCommand({
+        name: "review",
+        description: "Review a file",
+        args: "<path>",
+        handler: async () => "end_turn",
+      });
+
+      const advertised = commandsAdvertised();
+      await createSession();
+      await advertised;
+
+      const responseIndex = transport.sentMessages.findIndex(
+        (msg: any) => msg.id === 2
+      );
+      const updateIndex = transport.sentMessages.findIndex(
+        (msg: any) => msg.params?.type === "available_commands"
+      );
+      expect(updateIndex).toBeGreaterThan(responseIndex);
+      expect(commandUpdates()).toEqual([
+        [{ name: "review", description: "Review a file", args: "<path>" }],
+      ]);
+    });
+
+    it("should not advertise when no commands are registered", async () => {
+      await createSession();
+
+      expect(commandUpdates()).toEqual([]);
+    });
+
+    it("should re-advertise when commands change", async () => {
+      await createSession();
+      const cleared = transport.waitForMessage(
+        (msg: any) =>
+          msg.params?.type === "available_commands" &&
+          msg.params.data.commands.length === 0
+      );
+
+      agent.registerCommand({
+        name: "test",
+        description: "Run tests",
+        handler: async () => "end_turn",
+      });
+      agent.unregisterCommand("test");
+      await cleared;
+
+      expect(commandUpdates()).toEqual([
+        [{ name: "test", description: "Run tests" }],
+        [],
+      ]);
+    });
+
+    it("should reject invalid and duplicate command names", () => {
+      const handler = async () => "end_turn" as const;
+
+      expect(() =>
+        agent.registerCommand({ name: "two words", description: "", handler })
+      ).toThrow("Invalid command name");
+
+      agent.registerCommand({ name: "once", description: "", handler });
+      expect(() =>
+        agent.registerCommand({ name: "once", description: "", handler })
+      ).toThrow("Command already registered");
+    });
+
+    it("should route /name prompts to the command handler with parsed args", async () => {
+      const promptHandler = vi.fn(async () => "end_turn" as const);
+      agent.setPromptHandler({ handlePrompt: promptHandler });
+      const commandHandler = vi.fn(async () => "end_turn" as const);
+      agent.registerCommand({
+        name: "review",
+        description: "Review a file",
+        handler: commandHandler,
+      });
+      const session = await createSession();
+
+      const response = await transport.simulatePrompt(
+        3,
+        session.id,
+        '/review src/main.ts "look for races"'
+      );
+
+      expect(promptHandler).not.toHaveBeenCalled();
+      expect(commandHandler).toHaveBeenCalledWith(session, {
+        name: "review",
+        args: ["src/main.ts", "look for races"],
+        argsText: 'src/main.ts "look for races"',
+        content: [{ type: "text", text: '/review src/main.ts "look for races"' }],
+        attachments: [],
+      });
+      expect(response.result.stopReason).toBe("end_turn");
+    });
+
+    it("should run commands without a prompt handler", async () => {
+      agent.registerCommand({
+        name: "ping",
+        description: "Ping",
+        handler: async (session) => {
+          await session.sendAgentMessage("pong");
+          return "end_turn";
+        },
+      });
+      const session = await createSession();
+
+      const response = await transport.simulatePrompt(3, session.id, "/ping");
+
+      expect(response.result.stopReason).toBe("end_turn");
+    });
+
+    it("should pass unknown commands to the prompt handler", async () => {
+      const promptHandler = vi.fn(async () => "end_turn" as const);
+      agent.setPromptHandler({ handlePrompt: promptHandler });
+      const session = await createSession();
+
+      await transport.simulatePrompt(3, session.id, "/unknown arg");
+
+      expect(promptHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should scope commands to modes", async () => {
+      const promptHandler = vi.fn(async () => "end_turn" as const);
+      agent.setPromptHandler({ handlePrompt: promptHandler });
+      const planHandler = vi.fn(async () => "end_turn" as const);
+      agent.registerCommand({
+        name: "approve",
+        description: "Approve the plan",
+        modes: ["plan"],
+        handler: planHandler,
+      });
+      agent.registerCommand({
+        name: "help",
+        description: "Show help",
+        handler: async () => "end_turn",
+      });
+      const advertised = commandsAdvertised();
+      const session = await createSession();
+      await advertised;
+
+      expect(commandUpdates()).toEqual([
+        [{ name: "help", description: "Show help" }],
+      ]);
+
+      await transport.simulatePrompt(3, session.id, "/approve");
+      expect(planHandler).not.toHaveBeenCalled();
+      expect(promptHandler).toHaveBeenCalledTimes(1);
+
+      await session.setMode("plan");
+      expect(commandUpdates()[1]).toEqual([
+        { name: "approve", description: "Approve the plan" },
+        { name: "help", description: "Show help" },
+      ]);
+
+      await transport.simulatePrompt(4, session.id, "/approve");
+      expect(planHandler).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("mode registry", () => {
+    const initialize = async () => {
+      await agent.start();
+      await transport.simulateRequest(1, "initialize", {
+        protocolVersion: 1,
+        clientInfo: { name: "TestClient", version: "1.0.0" },
+        capabilities: { fs: { read: true, write: true } },
+      });
+    };
+
+    const createSession = (params: Record<string, unknown> = {}): Promise<any> =>
+      transport.simulateRequest(2, "session/new", {
+        workingDirectory: "/test",
+        ...params,
+      });
+
+    beforeEach(() => {
+      agent = new ACPAgent(transport, {
+        name: "TestAgent",
+        version: "1.0.0",
+        capabilities: { session: { modes: ["default"] } },
+      });
+    });
+
+    it("should advertise registered modes", async () => {
+      agent.registerMode({ id: "plan", label: "Plan" });
+      agent.registerMode({ id: "code", label: "Code" });
+      await initialize();
+
+      const response = transport.sentMessages.find((msg: any) => msg.id === 1);
+      expect(response.result.capabilities.sessionCapabilities.modes).toEqual([
+        "default",
+        "plan",
+        "code",
+      ]);
+      expect(agent.getModes().map((mode) => mode.id)).toEqual(["plan", "code"]);
+    });
+
+    it("should describe registered modes to the client", async () => {
+      agent.registerMode({ id: "plan", label: "Plan", description: "Plan first" });
+      await initialize();
+
+      const { result } = await createSession();
+      expect(result.modes).toEqual([
+        { id: "plan", label: "Plan", description: "Plan first" },
+      ]);
+
+      const response = await transport.simulateRequest(3, "session/set_mode", {
+        sessionId: result.sessionId,
+        mode: "plan",
+      });
+      const update = transport.sentMessages.find(
+        (msg: any) => msg.params?.type === "current_mode_update"
+      );
+      expect(response.result.mode).toEqual(result.modes[0]);
+      expect(update.params.data.mode).toEqual(result.modes[0]);
+    });
+
+    it("should reject duplicate modes", () => {
+      agent.registerMode({ id: "plan", label: "Plan" });
+
+      expect(() => agent.registerMode({ id: "plan", label: "Plan" })).toThrow(
+        "Mode already registered"
+      );
+    });
+
+    it("should reject unknown initial modes", async () => {
+      await initialize();
+
+      const response = await createSession({ initialMode: "yolo" });
+
+      expect(response.error.code).toBe(ErrorCodes.InvalidParams);
+      expect(agent.getSessions()).toHaveLength(0);
+    });
+
+    it("should use the mode's prompt handler", async () => {
+      const defaultHandler = vi.fn(async () => "end_turn" as const);
+      const planHandler = vi.fn(async () => "end_turn" as const);
+      agent.setPromptHandler({ handlePrompt: defaultHandler });
+      agent.registerMode({
+        id: "plan",
+        label: "Plan",
+        promptHandler: { handlePrompt: planHandler },
+      });
+      await initialize();
+      const { result } = await createSession();
+
+      await transport.simulatePrompt(3, result.sessionId);
+      await agent.getSessions()[0].setMode("plan");
+      await transport.simulatePrompt(4, result.sessionId);
+
+      expect(defaultHandler).toHaveBeenCalledTimes(1);
+      expect(planHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should refuse disallowed operations in restricted modes", async () => {
+      let error: unknown;
+      agent.setPromptHandler({
+        async handlePrompt(session) {
+          await session.readFile("/test/a.ts");
+          try {
+            await session.writeFile("/test/a.ts", "changed");
+          } catch (e) {
+            error = e;
+          }
+          return "end_turn";
+        },
+      });
+      agent.registerMode({
+        id: "ask",
+        label: "Ask",
+        allowedToolKinds: ["read", "search"],
+      });
+      await initialize();
+      const { result } = await createSession({ initialMode: "ask" });
+      transport.requests = [];
+
+      await transport.simulatePrompt(3, result.sessionId);
+
+      expect(error).toBeInstanceOf(PermissionDeniedError);
+      expect(transport.requests.map((r) => r.method)).toEqual([
+        "fs/read_text_file",
+      ]);
+    });
+
+    it("should fall back to the default mode when loading a session in a removed mode", async () => {
+      const sessionStore = new MemorySessionStore();
+      await sessionStore.save({
+        id: "sess_old",
+        workingDirectory: "/test",
+        mcpServers: [],
+        configOptions: {},
+        createdAt: new Date().toISOString(),
+        messageCount: 0,
+        currentMode: "retired",
+      });
+      agent = new ACPAgent(transport, {
+        name: "TestAgent",
+        version: "1.0.0",
+        capabilities: { loadSession: true, session: { modes: ["default"] } },
+        sessionStore,
+      });
+      await initialize();
 
-      expect(cancelledSpy).toHaveBeenCalled();
-      expect(sessions[0].isCancelled).toBe(true);
+      const response = await transport.simulateRequest(2, "session/load", {
+        sessionId: "sess_old",
+      });
+      expect(response.result.mode).toBe("default");
+      expect(agent.getSession("sess_old")?.currentMode).toBe("default");
+    });
+  });
+
+  describe("session/set_config_option request", () => {
+    beforeEach(async () => {
+      agent = new ACPAgent(transport, {
+        name: "TestAgent",
+        version: "1.0.0",
+        capabilities: {
+          session: {
+            configOptions: ["autoApprove", "model"],
+          },
+        },
+      });
+      await agent.start();
+
+      // Initialize
+      transport.simulateMessage({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: {
+          protocolVersion: 1,
+          clientInfo: { name: "TestClient", version: "1.0.0" },
+          capabilities: {},
+        },
+      });
+
+      // Create session
+      await transport.simulateRequest(2, "session/new", {
+        workingDirectory: "/test",
+        configOptions: { model: "fast" },
+      });
+    });
+
+    it("should update the config option", async () => {
+      const configChangedSpy = vi.fn();
+      agent.on("configChanged", configChangedSpy);
+
+      const session = agent.getSessions()[0];
+
+      const response = await transport.simulateRequest(3, "session/set_config_option", {
+        sessionId: session.id,
+        key: "model",
+        value: "smart",
+      });
+      expect(response.result).toEqual({
+        key: "model",
+        previousValue: "fast",
+        currentValue: "smart",
+      });
+      expect(session.getData().configOptions["model"]).toBe("smart");
+      expect(configChangedSpy).toHaveBeenCalledWith(
+        session,
+        "model",
+        "smart",
+        "fast"
+      );
+    });
+
+    it("should send a config_option_update notification", async () => {
+      const session = agent.getSessions()[0];
+
+      await transport.simulateRequest(3, "session/set_config_option", {
+        sessionId: session.id,
+        key: "autoApprove",
+        value: true,
+      });
+
+      const update = transport.sentMessages.find(
+        (msg: any) =>
+          msg.method === "session/update" &&
+          msg.params.type === "config_option_update"
+      );
+      expect(update).toBeDefined();
+      expect(update.params.data).toEqual({
+        key: "autoApprove",
+        currentValue: true,
+        source: "user",
+      });
+    });
+
+    it("should reject unknown config options", async () => {
+      const session = agent.getSessions()[0];
+
+      const response = await transport.simulateRequest(3, "session/set_config_option", {
+        sessionId: session.id,
+        key: "unknown",
+        value: 1,
+      });
+      expect(response.error).toBeDefined();
+      expect(session.getData().configOptions).toEqual({ model: "fast" });
+    });
+  });
+
+  describe("declared config options", () => {
+    beforeEach(async () => {
+      agent = new ACPAgent(transport, {
+        name: "TestAgent",
+        version: "1.0.0",
+        configOptions: [
+          {
+            key: "model",
+            label: "Model",
+            type: "enum",
+            choices: [
+              { value: "fast", label: "Fast" },
+              { value: "smart", label: "Smart" },
+            ],
+            default: "fast",
+          },
+          { key: "temperature", label: "Temperature", type: "number", min: 0, max: 1 },
+        ],
+      });
+      await agent.start();
+      await transport.simulateRequest(1, "initialize", {
+        protocolVersion: 1,
+        clientInfo: { name: "TestClient", version: "1.0.0" },
+        capabilities: {},
+      });
+    });
+
+    it("should advertise config option keys", () => {
+      const response = transport.sentMessages.find((msg: any) => msg.id === 1);
+
+      expect(response.result.capabilities.sessionCapabilities.configOptions).toEqual([
+        "model",
+        "temperature",
+      ]);
+    });
+
+    it("should send declarations and apply defaults on session/new", async () => {
+      const response = await transport.simulateRequest(2, "session/new", {
+        workingDirectory: "/test",
+        configOptions: { temperature: 0.5 },
+      });
+
+      expect(response.result.configOptions.map((o: any) => o.key)).toEqual([
+        "model",
+        "temperature",
+      ]);
+      const session = agent.getSessions()[0];
+      expect(session.getData().configOptions).toEqual({
+        model: "fast",
+        temperature: 0.5,
+      });
+      expect(session.config.get<string>("model")).toBe("fast");
+    });
+
+    it("should reject invalid values on session/new", async () => {
+      const response = await transport.simulateRequest(2, "session/new", {
+        workingDirectory: "/test",
+        configOptions: { temperature: 2 },
+      });
+
+      expect(response.error.code).toBe(ErrorCodes.InvalidParams);
+      expect(response.error.message).toBe(
+        "Invalid value for config option temperature: expected at most 1"
+      );
+      expect(agent.getSessions()).toHaveLength(0);
+    });
+
+    it("should reject unknown keys on session/new", async () => {
+      const response = await transport.simulateRequest(2, "session/new", {
+        workingDirectory: "/test",
+        configOptions: { verbose: true },
+      });
+
+      expect(response.error.code).toBe(ErrorCodes.InvalidParams);
+      expect(response.error.message).toBe("Unknown config option: verbose");
+    });
+
+    it("should validate session/set_config_option values", async () => {
+      await transport.simulateRequest(2, "session/new", { workingDirectory: "/test" });
+      const session = agent.getSessions()[0];
+
+      const invalid = await transport.simulateRequest(3, "session/set_config_option", {
+        sessionId: session.id,
+        key: "model",
+        value: "huge",
+      });
+      const valid = await transport.simulateRequest(4, "session/set_config_option", {
+        sessionId: session.id,
+        key: "model",
+        value: "smart",
+      });
+
+      expect(invalid.error.code).toBe(ErrorCodes.InvalidParams);
+      expect(invalid.error.data).toEqual({ key: "model", value: "huge" });
+      expect(valid.result.currentValue).toBe("smart");
+      expect(session.config.get("model")).toBe("smart");
+    });
+
+    it("should answer with the parsed value of a value ID", async () => {
+      await transport.simulateRequest(2, "session/new", { workingDirectory: "/test" });
+      const session = agent.getSessions()[0];
+
+      const response = await transport.simulateRequest(3, "session/set_config_option", {
+        sessionId: session.id,
+        key: "temperature",
+        value: "0.8",
+      });
+
+      expect(response.result).toMatchObject({
+        key: "temperature",
+        currentValue: 0.8,
+      });
+    });
+  });
+
+  describe("prompt attachments", () => {
+    const base64 = (text: string) => Buffer.from(text).toString("base64");
+
+    const setUp = async (options: Record<string, unknown>) => {
+      const handlePrompt = vi.fn(async () => "end_turn" as const);
+      agent = new ACPAgent(transport, {
+        name: "TestAgent",
+        version: "1.0.0",
+        ...options,
+      });
+      agent.setPromptHandler({ handlePrompt });
+      await agent.start();
+      await transport.simulateRequest(1, "initialize", {
+        protocolVersion: 1,
+        clientInfo: { name: "TestClient", version: "1.0.0" },
+        capabilities: {},
+      });
+      const { result } = await transport.simulateRequest(2, "session/new", {
+        workingDirectory: "/test",
+      });
+      return { handlePrompt, sessionId: result.sessionId as string };
+    };
+
+    it("should pass decoded attachments to the prompt handler", async () => {
+      const { handlePrompt, sessionId } = await setUp({
+        capabilities: { prompt: { attachments: true } },
+      });
+
+      const response = await transport.simulateRequest(3, "session/prompt", {
+        sessionId,
+        content: [{ type: "text", text: "Summarize these" }],
+        attachments: [
+          { filename: "notes.txt", mimeType: "text/plain", content: base64("hi") },
+          { filename: "logo.png", mimeType: "image/png", content: base64("png") },
+        ],
+      });
+
+      expect(response.result.stopReason).toBe("end_turn");
+      expect(handlePrompt).toHaveBeenCalledWith(
+        agent.getSessions()[0],
+        [{ type: "text", text: "Summarize these" }],
+        [
+          { type: "text", text: "hi" },
+          {
+            type: "image",
+            source: { type: "base64", mediaType: "image/png", data: base64("png") },
+          },
+        ]
+      );
+    });
+
+    it("should reject attachments when the agent doesn't support them", async () => {
+      const { handlePrompt, sessionId } = await setUp({});
+
+      const response = await transport.simulateRequest(3, "session/prompt", {
+        sessionId,
+        content: [{ type: "text", text: "Read this" }],
+        attachments: [
+          { filename: "a.txt", mimeType: "text/plain", content: base64("a") },
+        ],
+      });
+
+      expect(response.error.code).toBe(ErrorCodes.CapabilityNotSupported);
+      expect(response.error.data).toEqual({ capability: "prompt.attachments" });
+      expect(handlePrompt).not.toHaveBeenCalled();
+    });
+
+    it("should enforce the configured limits", async () => {
+      const { handlePrompt, sessionId } = await setUp({
+        capabilities: { prompt: { attachments: true } },
+        attachments: { maxSize: 4, allowedMimeTypes: ["text/*"] },
+      });
+
+      const tooLarge = await transport.simulateRequest(3, "session/prompt", {
+        sessionId,
+        content: [],
+        attachments: [
+          { filename: "a.txt", mimeType: "text/plain", content: base64("12345") },
+        ],
+      });
+      const notAllowed = await transport.simulateRequest(4, "session/prompt", {
+        sessionId,
+        content: [],
+        attachments: [
+          { filename: "a.png", mimeType: "image/png", content: base64("png") },
+        ],
+      });
+
+      expect(tooLarge.error.code).toBe(ErrorCodes.InvalidParams);
+      expect(tooLarge.error.message).toContain("Attachment too large: a.txt");
+      expect(notAllowed.error.code).toBe(ErrorCodes.InvalidParams);
+      expect(notAllowed.error.message).toContain(
+        "Unsupported attachment type: image/png"
+      );
+      expect(handlePrompt).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("tool registry", () => {
+    const readFileTool = {
+      name: "read_file",
+      description: "Read a file",
+      kind: "read" as const,
+      inputSchema: z.object({ path: z.string() }),
+      async execute({ path }: { path: string }) {
+        return `contents of ${path}`;
+      },
+    };
+
+    beforeEach(() => {
+      agent = new ACPAgent(transport, { name: "TestAgent", version: "1.0.0" });
+    });
+
+    it("should reject duplicate tools", () => {
+      agent.registerTool(readFileTool);
+
+      expect(() => agent.registerTool(readFileTool)).toThrow(
+        "Tool already registered: read_file"
+      );
+    });
+
+    it("should describe registered tools with JSON Schema", () => {
+      agent.registerTool(readFileTool);
+      agent.registerTool({
+        name: "write_file",
+        kind: "edit",
+        inputSchema: z.object({ path: z.string(), content: z.string() }),
+        async execute() {
+          return "written";
+        },
+      });
+      agent.registerMode({ id: "plan", label: "Plan", allowedToolKinds: ["read"] });
+
+      expect(agent.getToolSchemas()).toEqual([
+        {
+          name: "read_file",
+          description: "Read a file",
+          inputSchema: {
+            type: "object",
+            properties: { path: { type: "string" } },
+            required: ["path"],
+          },
+        },
+        {
+          name: "write_file",
+          inputSchema: {
+            type: "object",
+            properties: { path: { type: "string" }, content: { type: "string" } },
+            required: ["path", "content"],
+          },
+        },
+      ]);
+      expect(agent.getToolSchemas("plan").map((tool) => tool.name)).toEqual([
+        "read_file",
+      ]);
+    });
+
+    it("should let sessions run registered tools", async () => {
+      let result: unknown;
+      agent.registerTool(readFileTool);
+      agent.setPromptHandler({
+        async handlePrompt(session) {
+          result = await session.runTool("read_file", { path: "a.ts" });
+          return "end_turn";
+        },
+      });
+      await agent.start();
+      await transport.simulateRequest(1, "initialize", {
+        protocolVersion: 1,
+        clientInfo: { name: "TestClient", version: "1.0.0" },
+        capabilities: {},
+      });
+      const { result: session } = await transport.simulateRequest(2, "session/new", {
+        workingDirectory: "/test",
+      });
+
+      await transport.simulateRequest(3, "session/prompt", {
+        sessionId: session.sessionId,
+        content: [{ type: "text", text: "Read a.ts" }],
+      });
+
+      expect(result).toMatchObject({
+        status: "completed",
+        output: { type: "text", text: "contents of a.ts" },
+      });
+      const updates = transport.sentMessages.filter(
+        (msg: any) => msg.method === "session/update"
+      );
+      expect(updates.at(-1).params).toMatchObject({
+        type: "tool_call_update",
+        data: { status: "completed" },
+      });
     });
   });
 
@@ -829,7 +2559,7 @@ describe("ACPAgent", () => {
         id: 1,
         method: "initialize",
         params: {
-          protocolVersion: "1.0.0",
+          protocolVersion: 1,
           clientInfo: { name: "TestClient", version: "1.0.0" },
           capabilities: {},
         },
@@ -891,6 +2621,240 @@ describe("ACPAgent", () => {
     });
   });
 
+  describe("outbound requests", () => {
+    it("should reject with TimeoutError when the client does not answer", async () => {
+      vi.spyOn(transport, "request").mockReturnValue(new Promise(() => {}));
+      agent = new ACPAgent(transport, {
+        name: "TestAgent",
+        version: "1.0.0",
+        requestTimeout: 20,
+      });
+      await agent.start();
+
+      const error = await agent.readFile("/test/file.ts").catch((e) => e);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error.data).toEqual({ operation: "fs/read_text_file", timeoutMs: 20 });
+    });
+
+    it("should apply per-method timeouts", async () => {
+      vi.spyOn(transport, "request").mockReturnValue(new Promise(() => {}));
+      agent = new ACPAgent(transport, {
+        name: "TestAgent",
+        version: "1.0.0",
+        requestTimeout: 0,
+        requestTimeouts: { "fs/write_text_file": 20 },
+      });
+      await agent.start();
+
+      await expect(
+        agent.writeFile("/test/file.ts", "content")
+      ).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    it("should forget a request when its signal is aborted", async () => {
+      vi.useFakeTimers();
+      vi.spyOn(transport, "request").mockReturnValue(new Promise(() => {}));
+      agent = new ACPAgent(transport, {
+        name: "TestAgent",
+        version: "1.0.0",
+        requestTimeout: 20,
+      });
+      await agent.start();
+      const controller = new AbortController();
+
+      const read = agent.readFile("/test/file.ts", undefined, undefined, controller.signal);
+      controller.abort(new Error("Turn cancelled"));
+
+      await expect(read).rejects.toThrow("Turn cancelled");
+      expect(vi.getTimerCount()).toBe(0);
+      vi.useRealTimers();
+    });
+
+    it("should retry idempotent requests after a timeout", async () => {
+      const requestSpy = vi
+        .spyOn(transport, "request")
+        .mockReturnValueOnce(new Promise(() => {}))
+        .mockImplementationOnce(async (request) => ({
+          jsonrpc: "2.0",
+          id: request.id,
+          result: { content: "file content" },
+        }));
+      agent = new ACPAgent(transport, {
+        name: "TestAgent",
+        version: "1.0.0",
+        requestTimeout: 20,
+        requestRetries: 1,
+      });
+      await agent.start();
+
+      await expect(agent.readFile("/test/file.ts")).resolves.toBe("file content");
+      expect(requestSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry non-idempotent requests", async () => {
+      const requestSpy = vi
+        .spyOn(transport, "request")
+        .mockReturnValue(new Promise(() => {}));
+      agent = new ACPAgent(transport, {
+        name: "TestAgent",
+        version: "1.0.0",
+        requestTimeout: 20,
+        requestRetries: 3,
+      });
+      await agent.start();
+
+      await expect(
+        agent.writeFile("/test/file.ts", "content")
+      ).rejects.toBeInstanceOf(TimeoutError);
+      expect(requestSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("should rehydrate error responses into ACPError subclasses", async () => {
+      vi.spyOn(transport, "request").mockImplementation(async (request) => ({
+        jsonrpc: "2.0",
+        id: request.id,
+        error: {
+          code: ErrorCodes.ResourceNotFound,
+          message: "File not found: /test/missing.ts",
+          data: { resourceType: "File", resourceId: "/test/missing.ts" },
+        },
+      }));
+      agent = new ACPAgent(transport, { name: "TestAgent", version: "1.0.0" });
+      await agent.start();
+
+      const error = await agent.readFile("/test/missing.ts").catch((e) => e);
+
+      expect(error).toBeInstanceOf(ResourceNotFoundError);
+      expect(error.message).toBe("File not found: /test/missing.ts");
+      expect(error.data).toEqual({
+        resourceType: "File",
+        resourceId: "/test/missing.ts",
+      });
+    });
+
+    it("should report errors the client could not attribute to a request", async () => {
+      agent = new ACPAgent(transport, { name: "TestAgent", version: "1.0.0" });
+      const errorHandler = vi.fn();
+      agent.on("error", errorHandler);
+      await agent.start();
+
+      transport.simulateMessage({
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: ErrorCodes.ParseError, message: "Parse error" },
+      });
+
+      expect(errorHandler).toHaveBeenCalledWith(expect.any(ParseError));
+    });
+  });
+
+  describe("terminal limit", () => {
+    const initialize = (): Promise<any> =>
+      transport.simulateRequest(1, "initialize", {
+        protocolVersion: 1,
+        clientInfo: { name: "TestClient", version: "1.0.0" },
+        capabilities: { terminal: { create: true, maxConcurrent: 1 } },
+      });
+
+    beforeEach(() => {
+      let counter = 0;
+      vi.spyOn(transport, "request").mockImplementation(async (request) => ({
+        jsonrpc: "2.0",
+        id: request.id,
+        result:
+          request.method === "terminal/create"
+            ? { terminalId: `term_${++counter}` }
+            : { released: true },
+      }));
+    });
+
+    it("should queue terminal creation until a terminal is released", async () => {
+      agent = new ACPAgent(transport, { name: "TestAgent", version: "1.0.0" });
+      await agent.start();
+      await initialize();
+
+      const first = await agent.createTerminal("ls");
+      let secondId: string | undefined;
+      const second = agent.createTerminal("pwd").then((id) => {
+        secondId = id;
+        return id;
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(secondId).toBeUndefined();
+
+      await agent.releaseTerminal(first);
+
+      await expect(second).resolves.toBe("term_2");
+    });
+
+    it("should stop waiting for a terminal slot when the turn is aborted", async () => {
+      agent = new ACPAgent(transport, { name: "TestAgent", version: "1.0.0" });
+      await agent.start();
+      await initialize();
+      const first = await agent.createTerminal("ls");
+      const controller = new AbortController();
+
+      const waiting = agent.createTerminal(
+        "pwd",
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        controller.signal
+      );
+      controller.abort(new Error("Turn cancelled"));
+      await expect(waiting).rejects.toThrow("Turn cancelled");
+
+      // The released slot goes to the next creation, not the aborted one
+      await agent.releaseTerminal(first);
+      await expect(agent.createTerminal("pwd")).resolves.toBe("term_2");
+    });
+
+    it("should reject waiting terminal creations when the agent stops", async () => {
+      agent = new ACPAgent(transport, { name: "TestAgent", version: "1.0.0" });
+      await agent.start();
+      await initialize();
+      await agent.createTerminal("ls");
+
+      const waiting = agent.createTerminal("pwd");
+      await agent.stop();
+
+      await expect(waiting).rejects.toThrow("Agent stopped");
+    });
+
+    it("should reject terminal creation over the limit with the reject policy", async () => {
+      agent = new ACPAgent(transport, {
+        name: "TestAgent",
+        version: "1.0.0",
+        terminalLimitPolicy: "reject",
+      });
+      await agent.start();
+      await initialize();
+
+      const first = await agent.createTerminal("ls");
+
+      await expect(agent.createTerminal("pwd")).rejects.toBeInstanceOf(
+        RateLimitedError
+      );
+
+      await agent.releaseTerminal(first);
+      await expect(agent.createTerminal("pwd")).resolves.toBe("term_2");
+    });
+
+    it("should pass client capabilities to sessions", async () => {
+      agent = new ACPAgent(transport, { name: "TestAgent", version: "1.0.0" });
+      await agent.start();
+      initialize();
+      await transport.simulateRequest(2, "session/new", { workingDirectory: "/test" });
+
+      const [session] = agent.getSessions();
+      expect(session.supports("terminal.create")).toBe(true);
+      expect(session.supports("fs.read")).toBe(false);
+    });
+  });
+
   describe("transport close handling", () => {
     beforeEach(async () => {
       agent = new ACPAgent(transport, {
@@ -905,7 +2869,7 @@ describe("ACPAgent", () => {
         id: 1,
         method: "initialize",
         params: {
-          protocolVersion: "1.0.0",
+          protocolVersion: 1,
           clientInfo: { name: "TestClient", version: "1.0.0" },
           capabilities: {},
         },
@@ -0,0 +1,302 @@
+/**
+ * AgentLoop Tests
+ *
+ * Drives the loop with the scripted model provider against a real
+ * AgentSession and a mock client.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { z } from "zod";
+import {
+  AgentSession,
+  type SessionRequestHandler,
+} from "../../src/agent/AgentSession.js";
+import { AgentLoop } from "../../src/agent/AgentLoop.js";
+import { ScriptedModelProvider } from "../../src/agent/ScriptedModelProvider.js";
+import type { SessionData, ToolDefinition } from "../../src/agent/types.js";
+import type { SessionUpdate } from "../../src/types/index.js";
+
+function createRequestHandler(updates: SessionUpdate[]): SessionRequestHandler {
+  return {
+    sendSessionUpdate: vi.fn(async (_sessionId, update: SessionUpdate) => {
+      updates.push(update);
+    }),
+    requestPermission: vi.fn(async () => ({
+      outcome: "granted" as const,
+      granted: true,
+      remember: false,
+    })),
+    readFile: vi.fn(async (path: string) => `contents of ${path}`),
+    writeFile: vi.fn(async () => undefined),
+    createTerminal: vi.fn(async () => "term_1"),
+    getTerminalOutput: vi.fn(async () => ({ output: "", truncated: false })),
+    waitForTerminalExit: vi.fn(async () => ({ exitCode: 0 })),
+    killTerminal: vi.fn(async () => true),
+    releaseTerminal: vi.fn(async () => true),
+    setSessionMode: vi.fn(async (_sessionId, mode) => ({
+      previousMode: "default",
+      currentMode: mode,
+    })),
+  };
+}
+
+const readFileTool: ToolDefinition<{ path: string }> = {
+  name: "read_file",
+  description: "Read a file",
+  kind: "read",
+  inputSchema: z.object({ path: z.string() }),
+  async execute({ path }, { session }) {
+    return session.readFile(path);
+  },
+};
+
+describe("AgentLoop", () => {
+  let updates: SessionUpdate[];
+  let tools: Map<string, ToolDefinition>;
+  let session: AgentSession;
+  let provider: ScriptedModelProvider;
+
+  beforeEach(() => {
+    updates = [];
+    tools = new Map([[readFileTool.name, readFileTool as ToolDefinition]]);
+    const sessionData: SessionData = {
+      id: "sess_1",
+      workingDirectory: "/project",
+      mcpServers: [],
+      configOptions: {},
+      createdAt: "2024-01-01T00:00:00Z",
+      cancelled: false,
+      messageCount: 0,
+    };
+    session = new AgentSession(createRequestHandler(updates), sessionData, {
+      tools,
+    });
+    session.startTurn();
+    provider = new ScriptedModelProvider();
+  });
+
+  const prompt = (loop: AgentLoop, text: string) =>
+    loop.handlePrompt(session, [{ type: "text", text }]);
+
+  it("should stream text and thinking to the client", async () => {
+    provider.enqueue([
+      { type: "thinking", text: "The user says hi." },
+      { type: "text", text: "Hello" },
+      { type: "text", text: " there" },
+      { type: "stop", reason: "end_turn" },
+    ]);
+    const loop = new AgentLoop({ provider });
+
+    await expect(prompt(loop, "Hi")).resolves.toBe("end_turn");
+
+    expect(updates.map((update) => [update.type, update.data])).toMatchObject([
+      ["thought_message_chunk", { content: "The user says hi.", final: true }],
+      ["agent_message_chunk", { content: "Hello there", final: true }],
+    ]);
+    expect(loop.getMessages("sess_1")).toEqual([
+      { role: "user", content: [{ type: "text", text: "Hi" }] },
+      {
+        role: "assistant",
+        content: [
+          { type: "thinking", text: "The user says hi." },
+          { type: "text", text: "Hello there" },
+        ],
+      },
+    ]);
+  });
+
+  it("should run tools and send their results back to the model", async () => {
+    provider.enqueue(
+      [
+        { type: "text", text: "Reading." },
+        { type: "tool_use", id: "tu_1", name: "read_file", input: { path: "a.ts" } },
+      ],
+      [{ type: "text", text: "Done." }]
+    );
+    const loop = new AgentLoop({ provider, system: "Be brief.", maxTokens: 100 });
+
+    await expect(prompt(loop, "Read a.ts")).resolves.toBe("end_turn");
+
+    expect(provider.requests).toHaveLength(2);
+    expect(provider.requests[0]).toMatchObject({
+      system: "Be brief.",
+      maxTokens: 100,
+      tools: [{ name: "read_file", description: "Read a file" }],
+    });
+    expect(provider.requests[1]?.messages.at(-1)).toEqual({
+      role: "user",
+      content: [
+        { type: "tool_result", toolUseId: "tu_1", content: "contents of a.ts" },
+      ],
+    });
+    expect(
+      updates
+        .filter((update) => update.type === "tool_call_update")
+        .at(-1)?.data
+    ).toMatchObject({ status: "completed" });
+  });
+
+  it("should report tool failures to the model", async () => {
+    provider.enqueue(
+      [
+        { type: "tool_use", id: "tu_1", name: "read_file", input: {} },
+        { type: "tool_use", id: "tu_2", name: "delete_everything", input: {} },
+      ],
+      [{ type: "text", text: "Sorry." }]
+    );
+    const loop = new AgentLoop({ provider });
+
+    await prompt(loop, "Go");
+
+    const results = provider.requests[1]?.messages.at(-1)?.content;
+    expect(results).toMatchObject([
+      { toolUseId: "tu_1", isError: true, content: expect.stringMatching(/^Invalid input/) },
+      { toolUseId: "tu_2", isError: true, content: "Unknown tool: delete_everything" },
+    ]);
+  });
+
+  it("should record usage for the prompt response", async () => {
+    provider.enqueue(
+      [
+        { type: "tool_use", id: "tu_1", name: "read_file", input: { path: "a.ts" } },
+        { type: "usage", usage: { inputTokens: 10, outputTokens: 5 } },
+      ],
+      [
+        { type: "text", text: "Done." },
+        { type: "usage", usage: { inputTokens: 20, outputTokens: 3 } },
+      ]
+    );
+
+    await prompt(new AgentLoop({ provider }), "Go");
+
+    expect(session.turnUsage).toEqual({ inputTokens: 30, outputTokens: 8 });
+  });
+
+  it("should stop with max_tokens when the model hits its token limit", async () => {
+    provider.enqueue([
+      { type: "text", text: "This answer is cut" },
+      { type: "stop", reason: "max_tokens" },
+    ]);
+
+    await expect(prompt(new AgentLoop({ provider }), "Go")).resolves.toBe(
+      "max_tokens"
+    );
+  });
+
+  it("should answer tool uses cut off by the token limit", async () => {
+    provider.enqueue([
+      { type: "tool_use", id: "tu_1", name: "read_file", input: { path: "a.ts" } },
+      { type: "stop", reason: "max_tokens" },
+    ]);
+    const loop = new AgentLoop({ provider });
+
+    await expect(prompt(loop, "Go")).resolves.toBe("max_tokens");
+
+    expect(loop.getMessages("sess_1").at(-1)).toEqual({
+      role: "user",
+      content: [
+        { type: "tool_result", toolUseId: "tu_1", content: "Tool cancelled", isError: true },
+      ],
+    });
+  });
+
+  it("should stop with max_turn_requests after too many model calls", async () => {
+    const toolUse = [
+      { type: "tool_use" as const, id: "tu", name: "read_file", input: { path: "a.ts" } },
+    ];
+    provider.enqueue(toolUse, toolUse, toolUse);
+
+    await expect(
+      prompt(new AgentLoop({ provider, maxModelCalls: 2 }), "Go")
+    ).resolves.toBe("max_turn_requests");
+    expect(provider.remaining).toBe(1);
+  });
+
+  it("should stop when the turn is cancelled", async () => {
+    provider.enqueue((request) => {
+      session.markCancelled();
+      expect(request.signal.aborted).toBe(true);
+      return [{ type: "text", text: "Never sent" }];
+    });
+
+    await expect(prompt(new AgentLoop({ provider }), "Go")).resolves.toBe(
+      "cancelled"
+    );
+    expect(updates).toHaveLength(0);
+  });
+
+  it("should answer open tool uses when the turn is cancelled", async () => {
+    tools.set("stop", {
+      name: "stop",
+      description: "Cancel the turn",
+      inputSchema: z.object({}),
+      execute() {
+        session.markCancelled();
+        return Promise.resolve("stopped");
+      },
+    });
+    provider.enqueue([
+      { type: "tool_use", id: "tu_1", name: "stop", input: {} },
+      { type: "tool_use", id: "tu_2", name: "read_file", input: { path: "a.ts" } },
+    ]);
+    const loop = new AgentLoop({ provider });
+
+    await expect(prompt(loop, "Go")).resolves.toBe("cancelled");
+
+    expect(loop.getMessages("sess_1").at(-1)).toMatchObject({
+      role: "user",
+      content: [
+        { type: "tool_result", toolUseId: "tu_1" },
+        { type: "tool_result", toolUseId: "tu_2", content: "Tool cancelled", isError: true },
+      ],
+    });
+  });
+
+  it("should remove a failed prompt from the conversation", async () => {
+    provider.enqueue([{ type: "text", text: "One" }]);
+    const loop = new AgentLoop({ provider });
+    await prompt(loop, "First");
+
+    await expect(prompt(loop, "Second")).rejects.toThrow(
+      "Scripted model provider has no responses left"
+    );
+
+    expect(loop.getMessages("sess_1").map((message) => message.role)).toEqual([
+      "user",
+      "assistant",
+    ]);
+  });
+
+  it("should continue the conversation across prompts", async () => {
+    provider.enqueue([{ type: "text", text: "One" }], [{ type: "text", text: "Two" }]);
+    const loop = new AgentLoop({ provider });
+
+    await prompt(loop, "First");
+    await prompt(loop, "Second");
+
+    expect(provider.requests[1]?.messages.map((message) => message.role)).toEqual([
+      "user",
+      "assistant",
+      "user",
+    ]);
+    expect(loop.clearMessages("sess_1")).toBe(true);
+    expect(loop.getMessages("sess_1")).toEqual([]);
+  });
+});
+
+describe("ScriptedModelProvider", () => {
+  it("should fail when the script runs out", async () => {
+    const provider = new ScriptedModelProvider();
+    const stream = provider.stream({
+      messages: [],
+      tools: [],
+      signal: new AbortController().signal,
+    });
+
+    await expect(async () => {
+      for await (const _event of stream) {
+        // drain
+      }
+    }).rejects.toThrow("Scripted model provider has no responses left");
+  });
+});
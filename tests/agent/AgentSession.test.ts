@@ -30,6 +30,11 @@ import type {
   SessionData,
   AgentPermissionOutcome,
 } from "../../src/agent/types.js";
+import {
+  CapabilityNotSupportedError,
+  OperationCancelledError,
+  PermissionDeniedError,
+} from "../../src/protocol/errors.js";
 
 // Mock SessionRequestHandler
 class MockRequestHandler implements SessionRequestHandler {
@@ -207,6 +212,109 @@ describe("AgentSession", () => {
     });
   });
 
+  describe("abort signal", () => {
+    beforeEach(() => {
+      session.startTurn();
+    });
+
+    it("should abort the turn signal when cancelled", () => {
+      const signal = session.signal;
+      expect(signal.aborted).toBe(false);
+
+      session.markCancelled();
+
+      expect(signal.aborted).toBe(true);
+      expect(signal.reason).toBeInstanceOf(OperationCancelledError);
+    });
+
+    it("should use a fresh signal and reset the flag for the next turn", () => {
+      session.markCancelled();
+      const aborted = session.signal;
+
+      session.startTurn();
+
+      expect(session.isCancelled).toBe(false);
+      expect(session.signal).not.toBe(aborted);
+      expect(session.signal.aborted).toBe(false);
+    });
+
+    it("should reject pending client requests with OperationCancelledError", async () => {
+      vi.spyOn(requestHandler, "readFile").mockReturnValue(new Promise(() => {}));
+
+      const read = session.readFile("/path/to/file.ts");
+      session.markCancelled();
+
+      await expect(read).rejects.toBeInstanceOf(OperationCancelledError);
+    });
+
+    it("should reject new client requests after cancellation", async () => {
+      session.markCancelled();
+
+      await expect(
+        session.writeFile("/path/to/file.ts", "content")
+      ).rejects.toBeInstanceOf(OperationCancelledError);
+    });
+
+    it("should kill and release terminals created during the turn", async () => {
+      const killSpy = vi.spyOn(requestHandler, "killTerminal");
+      const terminal = await session.createTerminal("npm", ["test"]);
+
+      session.markCancelled();
+      await session.endTurn();
+
+      expect(killSpy).toHaveBeenCalledWith(terminal.id, "SIGTERM");
+      expect(terminal.isReleased).toBe(true);
+      expect(requestHandler.terminals.size).toBe(0);
+    });
+
+    it("should not touch terminals released before cancellation", async () => {
+      const killSpy = vi.spyOn(requestHandler, "killTerminal");
+      const terminal = await session.createTerminal("ls");
+      await terminal.release();
+
+      session.markCancelled();
+      await session.endTurn();
+
+      expect(killSpy).not.toHaveBeenCalled();
+    });
+
+    it("should mark active tool calls as cancelled", async () => {
+      const running = session.startToolCall({ tool: "run", input: {}, kind: "execute" });
+      await running.inProgress().send();
+      const done = session.startToolCall({ tool: "read_file", input: {}, kind: "read" });
+      await done.complete().send();
+      session.startToolCall({ tool: "read_file", input: {}, kind: "read" });
+      requestHandler.updates = [];
+
+      session.markCancelled();
+      await session.endTurn();
+
+      expect(requestHandler.updates).toHaveLength(1);
+      expect(requestHandler.updates[0]).toMatchObject({
+        type: "tool_call_update",
+        data: { id: running.id, status: "cancelled" },
+      });
+    });
+
+    it("should leave a finished turn alone when cancelled between turns", async () => {
+      const killSpy = vi.spyOn(requestHandler, "killTerminal");
+      const terminal = await session.createTerminal("npm", ["run", "dev"]);
+      const running = session.startToolCall({ tool: "run", input: {}, kind: "execute" });
+      await running.inProgress().send();
+      const signal = session.signal;
+      await session.endTurn();
+      requestHandler.updates = [];
+
+      session.markCancelled();
+      await session.endTurn();
+
+      expect(signal.aborted).toBe(false);
+      expect(killSpy).not.toHaveBeenCalled();
+      expect(terminal.isReleased).toBe(false);
+      expect(requestHandler.updates).toHaveLength(0);
+    });
+  });
+
   describe("sendUpdate()", () => {
     it("should send a raw session update", async () => {
       const update: SessionUpdate = {
@@ -223,6 +331,89 @@ describe("AgentSession", () => {
     });
   });
 
+  describe("history", () => {
+    it("should record sent updates in order", async () => {
+      await session.sendAgentMessage("Hello");
+      await session.sendThought("Thinking...");
+      await session.sendPlan([]);
+
+      expect(session.history.map((update) => update.type)).toEqual([
+        "agent_message_chunk",
+        "thought_message_chunk",
+        "plan",
+      ]);
+      expect(session.history).toEqual(requestHandler.updates);
+    });
+
+    it("should record updates without sending them", () => {
+      session.recordUpdate({
+        sessionId: session.id,
+        type: "user_message_chunk",
+        data: { content: "Hi", index: 0 },
+      });
+
+      expect(session.history).toHaveLength(1);
+      expect(requestHandler.updates).toHaveLength(0);
+    });
+
+    it("should keep only the most recent updates", async () => {
+      session = new AgentSession(requestHandler, sessionData, {
+        historyLimit: 2,
+      });
+
+      await session.sendAgentMessage("First");
+      await session.sendAgentMessage("Second");
+      await session.sendAgentMessage("Third");
+
+      expect(session.history.map((update) => update.data)).toEqual([
+        { content: "Second", index: 1 },
+        { content: "Third", index: 2 },
+      ]);
+    });
+
+    it("should not record updates when history is disabled", async () => {
+      session = new AgentSession(requestHandler, sessionData, {
+        historyLimit: 0,
+      });
+
+      await session.sendAgentMessage("Hello");
+
+      expect(session.history).toEqual([]);
+      expect(requestHandler.updates).toHaveLength(1);
+    });
+  });
+
+  describe("reportUsage()", () => {
+    it("should accumulate usage for the turn and the session", () => {
+      session.reportUsage({ inputTokens: 100, outputTokens: 50 });
+      session.reportUsage({ inputTokens: 20, cachedInputTokens: 80 });
+
+      expect(session.turnUsage).toEqual({
+        inputTokens: 120,
+        outputTokens: 50,
+        cachedInputTokens: 80,
+      });
+      expect(session.getData().usage).toEqual(session.turnUsage);
+    });
+
+    it("should reset turn usage but keep session totals on startTurn()", () => {
+      session.reportUsage({ inputTokens: 100, outputTokens: 50 });
+      session.startTurn();
+
+      expect(session.turnUsage).toBeUndefined();
+
+      session.reportUsage({ inputTokens: 10, outputTokens: 5 });
+
+      expect(session.turnUsage).toEqual({ inputTokens: 10, outputTokens: 5 });
+      expect(session.usage).toEqual({ inputTokens: 110, outputTokens: 55 });
+    });
+
+    it("should have no usage before anything is reported", () => {
+      expect(session.turnUsage).toBeUndefined();
+      expect(session.usage).toBeUndefined();
+    });
+  });
+
   describe("sendAgentMessage()", () => {
     it("should send agent message with auto-incremented index", async () => {
       await session.sendAgentMessage("Hello");
@@ -322,6 +513,28 @@ describe("AgentSession", () => {
     });
   });
 
+  describe("startPlan()", () => {
+    it("should send plan updates as the plan changes", async () => {
+      const plan = session.startPlan("Fix bug");
+      await plan.addStep("read", "Read file").start("read").send();
+      await plan.complete("read").send();
+
+      expect(plan.id).toBe("plan_sess_123_1");
+      expect(requestHandler.updates.map((u) => u.data)).toEqual([
+        {
+          planId: "plan_sess_123_1",
+          title: "Fix bug",
+          steps: [{ id: "read", description: "Read file", status: "in_progress" }],
+        },
+        {
+          planId: "plan_sess_123_1",
+          title: "Fix bug",
+          steps: [{ id: "read", description: "Read file", status: "completed" }],
+        },
+      ]);
+    });
+  });
+
   describe("startToolCall()", () => {
     it("should create a tool call builder", () => {
       const builder = session.startToolCall({
@@ -500,6 +713,111 @@ describe("AgentSession", () => {
     });
   });
 
+  describe("client capabilities", () => {
+    let limited: AgentSession;
+
+    beforeEach(() => {
+      limited = new AgentSession(requestHandler, sessionData, {
+        clientCapabilities: {
+          fs: { read: true },
+          terminal: { create: false, maxConcurrent: 2 },
+        },
+      });
+    });
+
+    it("should report advertised capabilities", () => {
+      expect(limited.supports("fs.read")).toBe(true);
+      expect(limited.supports("fs.write")).toBe(false);
+      expect(limited.supports("terminal.create")).toBe(false);
+      expect(limited.supports("ui.diffViewer")).toBe(false);
+      expect(limited.capabilities.terminal?.maxConcurrent).toBe(2);
+    });
+
+    it("should return a copy of the capabilities", () => {
+      limited.capabilities.fs!.write = true;
+
+      expect(limited.supports("fs.write")).toBe(false);
+    });
+
+    it("should assume all capabilities when none were negotiated", () => {
+      expect(session.supports("fs.write")).toBe(true);
+      expect(session.capabilities).toEqual({});
+    });
+
+    it("should allow supported operations", async () => {
+      await expect(limited.readFile("/test.txt")).resolves.toBe("file content");
+    });
+
+    it("should reject writeFile without fs.write", async () => {
+      const error = await limited
+        .writeFile("/test.txt", "content")
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(CapabilityNotSupportedError);
+      expect(error.data).toEqual({ capability: "fs.write" });
+      expect(requestHandler.fileWrites).toHaveLength(0);
+    });
+
+    it("should reject createTerminal without terminal.create", async () => {
+      await expect(limited.createTerminal("ls")).rejects.toBeInstanceOf(
+        CapabilityNotSupportedError
+      );
+      expect(requestHandler.terminals.size).toBe(0);
+    });
+  });
+
+  describe("mode restrictions", () => {
+    beforeEach(() => {
+      sessionData.currentMode = "plan";
+      session = new AgentSession(requestHandler, sessionData, {
+        modes: new Map([
+          ["plan", { id: "plan", label: "Plan", allowedToolKinds: ["read", "think"] }],
+        ]),
+      });
+    });
+
+    it("should allow tool kinds permitted by the mode", async () => {
+      expect(() =>
+        session.startToolCall({ tool: "read_file", input: {}, kind: "read" })
+      ).not.toThrow();
+      await expect(session.readFile("/test.txt")).resolves.toBe("file content");
+    });
+
+    it("should refuse tool calls of other kinds", () => {
+      expect(() =>
+        session.startToolCall({ tool: "write_file", input: {}, kind: "edit" })
+      ).toThrow(PermissionDeniedError);
+      expect(() =>
+        session.startToolCall({ tool: "custom", input: {}, kind: "other" })
+      ).toThrow("Permission denied: other in plan mode");
+    });
+
+    it("should not restrict tool calls without a kind", () => {
+      expect(() =>
+        session.startToolCall({ tool: "custom", input: {} })
+      ).not.toThrow();
+    });
+
+    it("should refuse file writes and terminals", async () => {
+      await expect(
+        session.writeFile("/test.txt", "content")
+      ).rejects.toBeInstanceOf(PermissionDeniedError);
+      await expect(session.createTerminal("ls")).rejects.toBeInstanceOf(
+        PermissionDeniedError
+      );
+      expect(requestHandler.fileWrites).toHaveLength(0);
+      expect(requestHandler.terminals.size).toBe(0);
+    });
+
+    it("should not restrict modes without a definition", async () => {
+      await session.setMode("code");
+
+      await expect(
+        session.writeFile("/test.txt", "content")
+      ).resolves.toBeUndefined();
+    });
+  });
+
   describe("setMode()", () => {
     it("should set session mode", async () => {
       await session.setMode("code");
@@ -507,15 +825,12 @@ describe("AgentSession", () => {
       expect(session.currentMode).toBe("code");
     });
 
-    it("should send mode update notification", async () => {
+    it("should leave the mode update to the request handler", async () => {
       await session.setMode("chat");
 
-      const update = requestHandler.updates.find(
-        (u) => u.type === "current_mode_update"
-      );
-      expect(update).toBeDefined();
-      expect(update?.data.currentMode).toBe("chat");
-      expect(update?.data.previousMode).toBe("default");
+      expect(
+        requestHandler.updates.some((u) => u.type === "current_mode_update")
+      ).toBe(false);
     });
   });
 
@@ -565,6 +880,99 @@ describe("AgentSession", () => {
     });
   });
 
+  describe("streaming from async iterables", () => {
+    async function* tokens(...values: string[]) {
+      for (const value of values) {
+        yield value;
+      }
+    }
+
+    const chunks = (type: string) =>
+      requestHandler.updates
+        .filter((u) => u.type === type)
+        .map((u) => u.data);
+
+    it("should coalesce tokens and mark the last chunk final", async () => {
+      const text = await session.streamMessage(
+        tokens("Hel", "lo", ", ", "wor", "ld"),
+        { maxChunkSize: 5 }
+      );
+
+      expect(text).toBe("Hello, world");
+      expect(chunks("agent_message_chunk")).toEqual([
+        { content: "Hello", index: 0, final: false },
+        { content: ", wor", index: 1, final: false },
+        { content: "ld", index: 2, final: true },
+      ]);
+    });
+
+    it("should send an empty final chunk when the buffer is empty", async () => {
+      await session.streamMessage(tokens("abc"), { maxChunkSize: 3 });
+
+      expect(chunks("agent_message_chunk")).toEqual([
+        { content: "abc", index: 0, final: false },
+        { content: "", index: 1, final: true },
+      ]);
+    });
+
+    it("should flush slow streams after the flush interval", async () => {
+      vi.useFakeTimers();
+      try {
+        let release!: () => void;
+        const gate = new Promise<void>((resolve) => (release = resolve));
+        async function* slow() {
+          yield "first";
+          await gate;
+          yield "second";
+        }
+
+        const streaming = session.streamMessage(slow(), { flushInterval: 20 });
+        await vi.advanceTimersByTimeAsync(20);
+        expect(chunks("agent_message_chunk")).toEqual([
+          { content: "first", index: 0, final: false },
+        ]);
+
+        release();
+        await expect(streaming).resolves.toBe("firstsecond");
+        expect(chunks("agent_message_chunk")).toHaveLength(2);
+        expect(chunks("agent_message_chunk")[1]).toEqual({
+          content: "second",
+          index: 1,
+          final: true,
+        });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should stream thoughts with their visibility", async () => {
+      const text = await session.streamThought(tokens("Let me ", "think"), {
+        visible: true,
+      });
+
+      expect(text).toBe("Let me think");
+      expect(chunks("thought_message_chunk")).toEqual([
+        { content: "Let me think", index: 0, visible: true, final: true },
+      ]);
+    });
+
+    it("should stop promptly when the turn is cancelled", async () => {
+      session.startTurn();
+      const pending = new Promise<string>(() => undefined);
+      async function* stalled() {
+        yield "partial";
+        yield await pending;
+      }
+
+      const streaming = session.streamMessage(stalled(), { flushInterval: 1000 });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      session.markCancelled();
+
+      await expect(streaming).resolves.toBe("partial");
+      expect(chunks("agent_message_chunk")).toEqual([]);
+    });
+  });
+
   describe("operation inference", () => {
     it("should infer terminal_execute from execute kind", async () => {
       const toolCall: ToolCall = {
@@ -0,0 +1,215 @@
+/**
+ * PlanBuilder Tests
+ *
+ * Tests for the PlanBuilder class covering:
+ * - Adding steps and substeps
+ * - Status changes and their cascade through the step tree
+ * - Plan completion
+ * - Sending updates
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { PlanBuilder, type PlanSender } from "../../src/agent/PlanBuilder.js";
+import { ResourceNotFoundError } from "../../src/protocol/errors.js";
+import type { Plan, PlanStep } from "../../src/types/index.js";
+
+class MockSender implements PlanSender {
+  public sentPlans: Plan[] = [];
+  public failNext = false;
+
+  async sendPlan(plan: Plan): Promise<void> {
+    if (this.failNext) {
+      this.failNext = false;
+      throw new Error("Send failed");
+    }
+    this.sentPlans.push(plan);
+  }
+}
+
+/** Flatten a plan into "id:status" pairs */
+function statuses(steps: PlanStep[]): string[] {
+  return steps.flatMap((step) => [
+    `${step.id}:${step.status}`,
+    ...statuses(step.children ?? []),
+  ]);
+}
+
+describe("PlanBuilder", () => {
+  let sender: MockSender;
+  let plan: PlanBuilder;
+
+  beforeEach(() => {
+    sender = new MockSender();
+    plan = new PlanBuilder(sender, "plan_1", "Refactor auth");
+    plan
+      .addStep("read", "Read the module")
+      .addStep("fix", "Fix the bug")
+      .addSubstep("fix", "fix-code", "Change the code")
+      .addSubstep("fix", "fix-test", "Add a test");
+  });
+
+  describe("building", () => {
+    it("should build a nested plan", () => {
+      expect(plan.toPlan()).toEqual({
+        planId: "plan_1",
+        title: "Refactor auth",
+        steps: [
+          { id: "read", description: "Read the module", status: "pending" },
+          {
+            id: "fix",
+            description: "Fix the bug",
+            status: "pending",
+            children: [
+              { id: "fix-code", description: "Change the code", status: "pending" },
+              { id: "fix-test", description: "Add a test", status: "pending" },
+            ],
+          },
+        ],
+      });
+    });
+
+    it("should reject duplicate step IDs", () => {
+      expect(() => plan.addStep("read", "Again")).toThrow(
+        "Plan step already exists: read"
+      );
+      expect(() => plan.addSubstep("fix", "fix-code", "Again")).toThrow(
+        "Plan step already exists: fix-code"
+      );
+    });
+
+    it("should reject unknown steps", () => {
+      expect(() => plan.addSubstep("missing", "x", "X")).toThrow(
+        ResourceNotFoundError
+      );
+      expect(() => plan.start("missing")).toThrow("Plan step not found: missing");
+    });
+
+    it("should return snapshots", () => {
+      const snapshot = plan.toPlan();
+      plan.start("read");
+
+      expect(snapshot.steps[0]?.status).toBe("pending");
+    });
+  });
+
+  describe("status changes", () => {
+    it("should start pending parents of a started step", () => {
+      plan.start("fix-test");
+
+      expect(statuses(plan.toPlan().steps)).toEqual([
+        "read:pending",
+        "fix:in_progress",
+        "fix-code:pending",
+        "fix-test:in_progress",
+      ]);
+    });
+
+    it("should complete a parent when all substeps finish", () => {
+      plan.complete("fix-code");
+      expect(plan.toPlan().steps[1]?.status).toBe("pending");
+
+      plan.skip("fix-test");
+      expect(plan.toPlan().steps[1]?.status).toBe("completed");
+    });
+
+    it("should fail a parent when a substep failed", () => {
+      plan.fail("fix-code", "Type error").complete("fix-test");
+
+      const fix = plan.toPlan().steps[1];
+      expect(fix?.status).toBe("failed");
+      expect(fix?.children?.[0]).toMatchObject({
+        status: "failed",
+        details: "Type error",
+      });
+    });
+
+    it("should skip a parent when all substeps were skipped", () => {
+      plan.skip("fix-code").skip("fix-test");
+
+      expect(plan.toPlan().steps[1]?.status).toBe("skipped");
+    });
+
+    it("should finish unfinished substeps with their parent", () => {
+      plan.fail("fix-code").complete("fix");
+
+      expect(statuses(plan.toPlan().steps)).toEqual([
+        "read:pending",
+        "fix:completed",
+        "fix-code:failed",
+        "fix-test:completed",
+      ]);
+
+      plan.skip("read");
+      expect(plan.toPlan().steps[0]?.status).toBe("skipped");
+    });
+
+    it("should not finish substeps when the parent fails", () => {
+      plan.fail("fix", "Gave up");
+
+      expect(statuses(plan.toPlan().steps)).toEqual([
+        "read:pending",
+        "fix:failed",
+        "fix-code:pending",
+        "fix-test:pending",
+      ]);
+    });
+  });
+
+  describe("completion", () => {
+    it("should complete once every step has finished", () => {
+      expect(plan.isComplete).toBe(false);
+
+      plan.complete("read").complete("fix-code");
+      expect(plan.isComplete).toBe(false);
+
+      plan.complete("fix-test");
+      expect(plan.isComplete).toBe(true);
+    });
+
+    it("should not be complete without steps", () => {
+      expect(new PlanBuilder(sender, "plan_2").isComplete).toBe(false);
+    });
+  });
+
+  describe("sending", () => {
+    it("should send changes made in the same tick as one update", async () => {
+      sender = new MockSender();
+      const fresh = new PlanBuilder(sender, "plan_2");
+      const sent = await fresh.addStep("a", "A").addStep("b", "B").start("a").send();
+
+      expect(sender.sentPlans).toEqual([sent]);
+      expect(statuses(sent.steps)).toEqual(["a:in_progress", "b:pending"]);
+    });
+
+    it("should send an update for each later change", async () => {
+      await plan.send();
+      await plan.complete("read").send();
+      await plan.setTitle("Renamed").send();
+
+      expect(sender.sentPlans.map((sent) => sent.title)).toEqual([
+        "Refactor auth",
+        "Refactor auth",
+        "Renamed",
+      ]);
+      expect(sender.sentPlans[1]?.steps[0]?.status).toBe("completed");
+    });
+
+    it("should surface send failures and keep sending later changes", async () => {
+      sender = new MockSender();
+      const fresh = new PlanBuilder(sender, "plan_2");
+      sender.failNext = true;
+      await expect(fresh.addStep("a", "A").send()).rejects.toThrow("Send failed");
+
+      await fresh.start("a").send();
+      expect(sender.sentPlans).toHaveLength(1);
+      expect(statuses(sender.sentPlans[0]?.steps ?? [])).toEqual(["a:in_progress"]);
+    });
+
+    it("should send nothing without changes", async () => {
+      await plan.send();
+      await plan.send();
+
+      expect(sender.sentPlans).toHaveLength(1);
+    });
+  });
+});
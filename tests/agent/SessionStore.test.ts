@@ -0,0 +1,135 @@
+/**
+ * Session Store Tests
+ *
+ * Tests for the in-memory and file-backed session stores.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import {
+  MemorySessionStore,
+  FileSessionStore,
+} from "../../src/agent/SessionStore.js";
+import type { SessionStore, StoredSessionData } from "../../src/agent/types.js";
+
+function createSessionData(id: string): StoredSessionData {
+  return {
+    id,
+    workingDirectory: "/home/user/project",
+    mcpServers: [],
+    currentMode: "code",
+    configOptions: { model: "fast" },
+    createdAt: "2024-01-01T00:00:00Z",
+    messageCount: 3,
+  };
+}
+
+function describeStore(
+  name: string,
+  createStore: () => Promise<SessionStore>
+): void {
+  describe(name, () => {
+    let store: SessionStore;
+
+    beforeEach(async () => {
+      store = await createStore();
+    });
+
+    it("should save and load a session", async () => {
+      await store.save(createSessionData("sess_1"));
+
+      expect(await store.load("sess_1")).toEqual(createSessionData("sess_1"));
+    });
+
+    it("should return undefined for unknown sessions", async () => {
+      expect(await store.load("sess_missing")).toBeUndefined();
+    });
+
+    it("should replace a session on save", async () => {
+      await store.save(createSessionData("sess_1"));
+      await store.save({ ...createSessionData("sess_1"), messageCount: 4 });
+
+      expect((await store.load("sess_1"))?.messageCount).toBe(4);
+    });
+
+    it("should list stored sessions", async () => {
+      await store.save(createSessionData("sess_1"));
+      await store.save(createSessionData("sess_2"));
+
+      expect((await store.list()).sort()).toEqual(["sess_1", "sess_2"]);
+    });
+
+    it("should delete sessions", async () => {
+      await store.save(createSessionData("sess_1"));
+
+      expect(await store.delete("sess_1")).toBe(true);
+      expect(await store.delete("sess_1")).toBe(false);
+      expect(await store.load("sess_1")).toBeUndefined();
+    });
+
+    it("should not share state with loaded copies", async () => {
+      await store.save(createSessionData("sess_1"));
+
+      const loaded = await store.load("sess_1");
+      loaded!.configOptions["model"] = "smart";
+
+      expect((await store.load("sess_1"))?.configOptions["model"]).toBe("fast");
+    });
+  });
+}
+
+describeStore("MemorySessionStore", async () => new MemorySessionStore());
+
+describe("FileSessionStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "acp-sessions-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describeStore("contract", async () => new FileSessionStore({ directory }));
+
+  it("should persist sessions across store instances", async () => {
+    await new FileSessionStore({ directory }).save(createSessionData("sess_1"));
+
+    const store = new FileSessionStore({ directory });
+    expect(await store.load("sess_1")).toEqual(createSessionData("sess_1"));
+  });
+
+  it("should create the directory on first save", async () => {
+    const nested = path.join(directory, "nested", "sessions");
+    const store = new FileSessionStore({ directory: nested });
+
+    expect(await store.list()).toEqual([]);
+    await store.save(createSessionData("sess_1"));
+
+    expect(await store.list()).toEqual(["sess_1"]);
+  });
+
+  it("should handle concurrent saves of a session", async () => {
+    const store = new FileSessionStore({ directory });
+    const saves = [4, 5, 6].map((messageCount) =>
+      store.save({ ...createSessionData("sess_1"), messageCount })
+    );
+
+    await expect(Promise.all(saves)).resolves.toBeDefined();
+
+    expect((await store.load("sess_1"))?.messageCount).toBe(6);
+    expect(await fs.readdir(directory)).toEqual(["sess_1.json"]);
+  });
+
+  it("should keep session files inside the directory", async () => {
+    const store = new FileSessionStore({ directory });
+
+    await store.save(createSessionData("../escape"));
+
+    expect(await fs.readdir(directory)).toEqual(["..%2Fescape.json"]);
+    expect(await store.list()).toEqual(["../escape"]);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Prompt attachment tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { decodeAttachments } from "../../src/agent/attachments.js";
+import { InvalidParamsError } from "../../src/protocol/errors.js";
+
+const base64 = (text: string) => Buffer.from(text).toString("base64");
+
+describe("decodeAttachments", () => {
+  it("should convert plain text to a text block", () => {
+    expect(
+      decodeAttachments([
+        { filename: "notes.txt", mimeType: "text/plain; charset=utf-8", content: base64("héllo") },
+      ])
+    ).toEqual([{ type: "text", text: "héllo" }]);
+  });
+
+  it("should convert other text types to embedded resources", () => {
+    expect(
+      decodeAttachments([
+        { filename: "my config.json", mimeType: "application/json", content: base64("{}") },
+        { filename: "main.ts", mimeType: "text/x-typescript", content: base64("export {}") },
+      ])
+    ).toEqual([
+      {
+        type: "resource",
+        uri: "attachment:///my%20config.json",
+        mimeType: "application/json",
+        title: "my config.json",
+        content: "{}",
+      },
+      {
+        type: "resource",
+        uri: "attachment:///main.ts",
+        mimeType: "text/x-typescript",
+        title: "main.ts",
+        content: "export {}",
+      },
+    ]);
+  });
+
+  it("should convert images to base64 image blocks", () => {
+    const data = base64("\x89PNG");
+
+    expect(
+      decodeAttachments([{ filename: "a.png", mimeType: "IMAGE/PNG", content: data }])
+    ).toEqual([
+      { type: "image", source: { type: "base64", mediaType: "image/png", data } },
+    ]);
+  });
+
+  it("should reject MIME types outside the allow-list", () => {
+    const attachment = { filename: "a.pdf", mimeType: "application/pdf", content: base64("%PDF") };
+
+    expect(() => decodeAttachments([attachment])).toThrow(InvalidParamsError);
+    expect(() => decodeAttachments([attachment])).toThrow(
+      "Unsupported attachment type: application/pdf"
+    );
+  });
+
+  it("should reject allowed types that can't be converted to content", () => {
+    expect(() =>
+      decodeAttachments(
+        [{ filename: "a.pdf", mimeType: "application/pdf", content: base64("%PDF") }],
+        { allowedMimeTypes: ["*/*"] }
+      )
+    ).toThrow("Attachment type can't be converted to content: application/pdf");
+  });
+
+  it("should use a custom allow-list", () => {
+    const png = { filename: "a.png", mimeType: "image/png", content: base64("png") };
+
+    expect(() => decodeAttachments([png], { allowedMimeTypes: ["text/*"] })).toThrow(
+      "Unsupported attachment type: image/png"
+    );
+    expect(decodeAttachments([png], { allowedMimeTypes: ["image/*"] })).toHaveLength(1);
+  });
+
+  it("should reject invalid base64", () => {
+    expect(() =>
+      decodeAttachments([{ filename: "a.txt", mimeType: "text/plain", content: "not base64!" }])
+    ).toThrow("Attachment is not valid base64: a.txt");
+  });
+
+  it("should enforce the per-attachment size limit", () => {
+    try {
+      decodeAttachments(
+        [{ filename: "big.txt", mimeType: "text/plain", content: base64("12345") }],
+        { maxSize: 4 }
+      );
+      expect.fail("Expected an error");
+    } catch (error) {
+      expect(error).toBeInstanceOf(InvalidParamsError);
+      expect((error as InvalidParamsError).data).toEqual({
+        filename: "big.txt",
+        size: 5,
+        maxSize: 4,
+      });
+    }
+  });
+
+  it("should enforce the total size limit", () => {
+    const attachment = { filename: "a.txt", mimeType: "text/plain", content: base64("123") };
+
+    expect(() =>
+      decodeAttachments([attachment, attachment], { maxTotalSize: 5 })
+    ).toThrow("Attachments too large");
+    expect(decodeAttachments([attachment], { maxTotalSize: 5 })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Authentication Strategy Tests
+ *
+ * Tests for the built-in API key and OAuth2 authentication strategies.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  createApiKeyStrategy,
+  createOAuth2Strategy,
+} from "../../src/agent/auth.js";
+
+describe("createApiKeyStrategy", () => {
+  it("should accept a valid API key", async () => {
+    const strategy = createApiKeyStrategy((key) => key === "secret");
+
+    expect(strategy.method).toBe("api_key");
+    expect(await strategy.authenticate({ apiKey: "secret" })).toEqual({
+      success: true,
+    });
+  });
+
+  it("should reject an invalid API key", async () => {
+    const strategy = createApiKeyStrategy(async () => false);
+
+    const result = await strategy.authenticate({ apiKey: "wrong" });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Invalid API key");
+  });
+
+  it("should reject missing credentials without calling the validator", async () => {
+    const validate = vi.fn(() => true);
+    const strategy = createApiKeyStrategy(validate);
+
+    const result = await strategy.authenticate({});
+
+    expect(result.success).toBe(false);
+    expect(validate).not.toHaveBeenCalled();
+  });
+
+  it("should set expiresAt when a ttl is configured", async () => {
+    const strategy = createApiKeyStrategy(() => true, { ttl: 60000 });
+
+    const before = Date.now();
+    const result = await strategy.authenticate({ apiKey: "secret" });
+
+    expect(result.expiresAt).toBeDefined();
+    expect(Date.parse(result.expiresAt!)).toBeGreaterThanOrEqual(before + 60000);
+  });
+});
+
+describe("createOAuth2Strategy", () => {
+  it("should accept a valid token and forward its expiration", async () => {
+    const strategy = createOAuth2Strategy(async () => ({
+      valid: true,
+      expiresAt: "2030-01-01T00:00:00Z",
+    }));
+
+    expect(strategy.method).toBe("oauth2");
+    expect(await strategy.authenticate({ token: "abc" })).toEqual({
+      success: true,
+      expiresAt: "2030-01-01T00:00:00Z",
+    });
+  });
+
+  it("should reject an invalid token with the verifier's reason", async () => {
+    const strategy = createOAuth2Strategy(async () => ({
+      valid: false,
+      error: "Token revoked",
+    }));
+
+    const result = await strategy.authenticate({ token: "abc" });
+
+    expect(result).toEqual({ success: false, error: "Token revoked" });
+  });
+
+  it("should include the description when provided", () => {
+    const strategy = createOAuth2Strategy(async () => ({ valid: true }), {
+      description: "Sign in with SSO",
+    });
+
+    expect(strategy.description).toBe("Sign in with SSO");
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Slash command helper tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  isValidCommandName,
+  parseCommandPrompt,
+  splitCommandArgs,
+} from "../../src/agent/commands.js";
+
+describe("isValidCommandName", () => {
+  it("should accept word characters, dashes, colons and dots", () => {
+    expect(isValidCommandName("review")).toBe(true);
+    expect(isValidCommandName("git:commit")).toBe(true);
+    expect(isValidCommandName("run-tests.v2")).toBe(true);
+  });
+
+  it("should reject empty names, spaces and slashes", () => {
+    expect(isValidCommandName("")).toBe(false);
+    expect(isValidCommandName("two words")).toBe(false);
+    expect(isValidCommandName("/review")).toBe(false);
+  });
+});
+
+describe("parseCommandPrompt", () => {
+  it("should parse a command with arguments", () => {
+    expect(
+      parseCommandPrompt([{ type: "text", text: "/review src/main.ts --fix" }])
+    ).toEqual({ name: "review", argsText: "src/main.ts --fix" });
+  });
+
+  it("should parse a command without arguments", () => {
+    expect(parseCommandPrompt([{ type: "text", text: "  /help \n" }])).toEqual({
+      name: "help",
+      argsText: "",
+    });
+  });
+
+  it("should keep multi-line argument text", () => {
+    expect(
+      parseCommandPrompt([{ type: "text", text: "/explain\nline one\nline two" }])
+    ).toEqual({ name: "explain", argsText: "line one\nline two" });
+  });
+
+  it("should use the first text block only", () => {
+    expect(
+      parseCommandPrompt([
+        {
+          type: "image",
+          source: { type: "base64", mediaType: "image/png", data: "aGVsbG8=" },
+        },
+        { type: "text", text: "/describe" },
+      ])
+    ).toEqual({ name: "describe", argsText: "" });
+
+    expect(
+      parseCommandPrompt([
+        { type: "text", text: "Hello" },
+        { type: "text", text: "/help" },
+      ])
+    ).toBeUndefined();
+  });
+
+  it("should ignore prompts that aren't commands", () => {
+    expect(parseCommandPrompt([{ type: "text", text: "use /tmp" }])).toBeUndefined();
+    expect(parseCommandPrompt([{ type: "text", text: "/" }])).toBeUndefined();
+    expect(parseCommandPrompt([{ type: "text", text: "/path/to/file" }])).toBeUndefined();
+    expect(parseCommandPrompt([])).toBeUndefined();
+  });
+});
+
+describe("splitCommandArgs", () => {
+  it("should split on whitespace", () => {
+    expect(splitCommandArgs("a  b\tc\nd")).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("should keep quoted strings together", () => {
+    expect(splitCommandArgs(`src/main.ts "fix the bug" 'and this'`)).toEqual([
+      "src/main.ts",
+      "fix the bug",
+      "and this",
+    ]);
+  });
+
+  it("should unescape characters in double quotes", () => {
+    expect(splitCommandArgs(String.raw`"say \"hi\""`)).toEqual(['say "hi"']);
+  });
+
+  it("should return no arguments for empty text", () => {
+    expect(splitCommandArgs("")).toEqual([]);
+    expect(splitCommandArgs("   ")).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Session config tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  SessionConfig,
+  getConfigDefaults,
+  parseConfigValue,
+  validateConfigValue,
+} from "../../src/agent/config.js";
+import type { ConfigOptionDefinition } from "../../src/types/index.js";
+
+const definitions: ConfigOptionDefinition[] = [
+  {
+    key: "model",
+    label: "Model",
+    type: "enum",
+    choices: [
+      { value: "fast", label: "Fast" },
+      { value: "smart", label: "Smart" },
+    ],
+    default: "fast",
+  },
+  { key: "autoApprove", label: "Auto-approve", type: "boolean", default: false },
+  {
+    key: "maxTurns",
+    label: "Max turns",
+    type: "number",
+    min: 1,
+    max: 50,
+    integer: true,
+    default: 10,
+  },
+  { key: "persona", label: "Persona", type: "string", maxLength: 10 },
+];
+
+const [model, autoApprove, maxTurns, persona] = definitions as [
+  ConfigOptionDefinition,
+  ConfigOptionDefinition,
+  ConfigOptionDefinition,
+  ConfigOptionDefinition,
+];
+
+describe("validateConfigValue", () => {
+  it("should validate enum values", () => {
+    expect(validateConfigValue(model, "smart")).toBeUndefined();
+    expect(validateConfigValue(model, "huge")).toBe("expected one of fast, smart");
+    expect(validateConfigValue(model, 1)).toBe("expected one of fast, smart");
+  });
+
+  it("should validate boolean values", () => {
+    expect(validateConfigValue(autoApprove, true)).toBeUndefined();
+    expect(validateConfigValue(autoApprove, "true")).toBe("expected a boolean");
+  });
+
+  it("should validate number ranges", () => {
+    expect(validateConfigValue(maxTurns, 50)).toBeUndefined();
+    expect(validateConfigValue(maxTurns, "5")).toBe("expected a number");
+    expect(validateConfigValue(maxTurns, Number.NaN)).toBe("expected a number");
+    expect(validateConfigValue(maxTurns, 2.5)).toBe("expected an integer");
+    expect(validateConfigValue(maxTurns, 0)).toBe("expected at least 1");
+    expect(validateConfigValue(maxTurns, 51)).toBe("expected at most 50");
+  });
+
+  it("should validate strings", () => {
+    expect(validateConfigValue(persona, "pirate")).toBeUndefined();
+    expect(validateConfigValue(persona, null)).toBe("expected a string");
+    expect(validateConfigValue(persona, "x".repeat(11))).toBe(
+      "expected at most 10 characters"
+    );
+  });
+});
+
+describe("parseConfigValue", () => {
+  it("should convert value IDs of boolean and number options", () => {
+    expect(parseConfigValue(autoApprove, "true")).toBe(true);
+    expect(parseConfigValue(autoApprove, "false")).toBe(false);
+    expect(parseConfigValue(maxTurns, "12")).toBe(12);
+  });
+
+  it("should leave other values unchanged", () => {
+    expect(parseConfigValue(autoApprove, "yes")).toBe("yes");
+    expect(parseConfigValue(maxTurns, "")).toBe("");
+    expect(parseConfigValue(maxTurns, "many")).toBe("many");
+    expect(parseConfigValue(maxTurns, 7)).toBe(7);
+    expect(parseConfigValue(model, "smart")).toBe("smart");
+    expect(parseConfigValue(persona, "42")).toBe("42");
+  });
+});
+
+describe("getConfigDefaults", () => {
+  it("should collect declared defaults", () => {
+    expect(getConfigDefaults(definitions)).toEqual({
+      model: "fast",
+      autoApprove: false,
+      maxTurns: 10,
+    });
+  });
+});
+
+describe("SessionConfig", () => {
+  it("should read set values and fall back to defaults", () => {
+    const values: Record<string, unknown> = { model: "smart" };
+    const config = new SessionConfig(() => values, definitions);
+
+    expect(config.get<string>("model")).toBe("smart");
+    expect(config.get<number>("maxTurns")).toBe(10);
+    expect(config.get("persona")).toBeUndefined();
+    expect(config.has("autoApprove")).toBe(true);
+    expect(config.has("persona")).toBe(false);
+  });
+
+  it("should reflect later changes", () => {
+    const values: Record<string, unknown> = {};
+    const config = new SessionConfig(() => values, definitions);
+
+    values["persona"] = "pirate";
+
+    expect(config.get("persona")).toBe("pirate");
+    expect(config.toObject()).toEqual({
+      model: "fast",
+      autoApprove: false,
+      maxTurns: 10,
+      persona: "pirate",
+    });
+  });
+
+  it("should work without declarations", () => {
+    const config = new SessionConfig(() => ({ theme: "dark" }));
+
+    expect(config.get("theme")).toBe("dark");
+    expect(config.toObject()).toEqual({ theme: "dark" });
+  });
+});
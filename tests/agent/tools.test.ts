@@ -0,0 +1,339 @@
+/**
+ * Tool registry tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { z } from "zod";
+import {
+  AgentSession,
+  type SessionRequestHandler,
+} from "../../src/agent/AgentSession.js";
+import { describeTool, toJsonSchema } from "../../src/agent/tools.js";
+import type { SessionData, ToolDefinition } from "../../src/agent/types.js";
+import type { SessionUpdate } from "../../src/types/index.js";
+import {
+  PermissionDeniedError,
+  ResourceNotFoundError,
+} from "../../src/protocol/errors.js";
+
+function createRequestHandler(updates: SessionUpdate[]): SessionRequestHandler {
+  return {
+    sendSessionUpdate: vi.fn(async (_sessionId, update: SessionUpdate) => {
+      updates.push(update);
+    }),
+    requestPermission: vi.fn(async () => ({
+      outcome: "granted" as const,
+      granted: true,
+      remember: false,
+    })),
+    readFile: vi.fn(async () => "file content"),
+    writeFile: vi.fn(async () => undefined),
+    createTerminal: vi.fn(async () => "term_1"),
+    getTerminalOutput: vi.fn(async () => ({ output: "", truncated: false })),
+    waitForTerminalExit: vi.fn(async () => ({ exitCode: 0 })),
+    killTerminal: vi.fn(async () => true),
+    releaseTerminal: vi.fn(async () => true),
+    setSessionMode: vi.fn(async (_sessionId, mode) => ({
+      previousMode: "default",
+      currentMode: mode,
+    })),
+  };
+}
+
+const readFileTool: ToolDefinition<{ path: string; line?: number }> = {
+  name: "read_file",
+  description: "Read a file",
+  kind: "read",
+  inputSchema: z.object({ path: z.string(), line: z.number().optional() }),
+  async execute({ path }, { session }) {
+    return session.readFile(path);
+  },
+};
+
+describe("session.runTool", () => {
+  let updates: SessionUpdate[];
+  let requestHandler: SessionRequestHandler;
+  let tools: Map<string, ToolDefinition>;
+  let sessionData: SessionData;
+  let session: AgentSession;
+
+  beforeEach(() => {
+    updates = [];
+    requestHandler = createRequestHandler(updates);
+    tools = new Map([[readFileTool.name, readFileTool as ToolDefinition]]);
+    sessionData = {
+      id: "sess_1",
+      workingDirectory: "/project",
+      mcpServers: [],
+      configOptions: {},
+      createdAt: "2024-01-01T00:00:00Z",
+      cancelled: false,
+      messageCount: 0,
+    };
+    session = new AgentSession(requestHandler, sessionData, { tools });
+  });
+
+  it("should run the tool and report its lifecycle", async () => {
+    const result = await session.runTool("read_file", { path: "src/a.ts", line: 3 });
+
+    expect(result).toMatchObject({
+      status: "completed",
+      output: { type: "text", text: "file content" },
+    });
+    expect(result.duration).toBeGreaterThanOrEqual(0);
+
+    expect(updates.map((update) => update.type)).toEqual([
+      "tool_call",
+      "tool_call_update",
+      "tool_call_update",
+    ]);
+    expect(updates[0]?.data).toMatchObject({
+      id: result.toolCallId,
+      tool: "read_file",
+      kind: "read",
+      status: "pending",
+      location: { path: "src/a.ts", line: 3 },
+    });
+    expect(updates[1]?.data).toMatchObject({ status: "in_progress" });
+    expect(updates[2]?.data).toMatchObject({
+      status: "completed",
+      output: { type: "text", text: "file content" },
+      duration: result.duration,
+    });
+  });
+
+  it("should reject unknown tools", async () => {
+    await expect(session.runTool("missing", {})).rejects.toBeInstanceOf(
+      ResourceNotFoundError
+    );
+    expect(updates).toHaveLength(0);
+  });
+
+  it("should fail the tool call when the input is invalid", async () => {
+    const execute = vi.spyOn(readFileTool, "execute");
+
+    const result = await session.runTool("read_file", { path: 42 });
+
+    expect(result.status).toBe("failed");
+    expect(result.error).toMatch(/^Invalid input: path: /);
+    expect(execute).not.toHaveBeenCalled();
+    expect(updates.at(-1)?.data).toMatchObject({
+      status: "failed",
+      error: result.error,
+    });
+    execute.mockRestore();
+  });
+
+  it("should report thrown errors as a failed tool call", async () => {
+    tools.set("explode", {
+      name: "explode",
+      inputSchema: z.object({}),
+      async execute() {
+        throw new Error("boom");
+      },
+    });
+
+    const result = await session.runTool("explode", {});
+
+    expect(result).toMatchObject({ status: "failed", error: "boom" });
+    expect(updates.at(-1)?.data).toMatchObject({
+      status: "failed",
+      error: "boom",
+    });
+  });
+
+  it("should ask for permission before running", async () => {
+    const execute = vi.fn(async () => "written");
+    tools.set("write_file", {
+      name: "write_file",
+      kind: "edit",
+      inputSchema: z.object({ path: z.string() }),
+      requiresPermission: true,
+      execute,
+    });
+
+    const result = await session.runTool("write_file", { path: "a.txt" });
+
+    expect(result.status).toBe("completed");
+    expect(requestHandler.requestPermission).toHaveBeenCalledWith(
+      "sess_1",
+      "file_write",
+      "a.txt",
+      result.toolCallId,
+      expect.any(Array),
+      undefined,
+      session.signal
+    );
+    expect(updates.map((update) => update.data)).toMatchObject([
+      { status: "pending" },
+      { status: "awaiting_permission" },
+      { status: "in_progress" },
+      { status: "completed" },
+    ]);
+    expect(execute).toHaveBeenCalledOnce();
+  });
+
+  it("should not run the tool when permission is denied", async () => {
+    const execute = vi.fn(async () => "written");
+    tools.set("write_file", {
+      name: "write_file",
+      kind: "edit",
+      inputSchema: z.object({ path: z.string() }),
+      requiresPermission: true,
+      execute,
+    });
+    vi.mocked(requestHandler.requestPermission).mockResolvedValueOnce({
+      outcome: "denied",
+      granted: false,
+      remember: false,
+    });
+
+    const result = await session.runTool("write_file", { path: "a.txt" });
+
+    expect(result.status).toBe("denied");
+    expect(execute).not.toHaveBeenCalled();
+    expect(updates.at(-1)?.data).toMatchObject({ status: "denied" });
+  });
+
+  it("should use the tool's location function", async () => {
+    tools.set("goto", {
+      name: "goto",
+      inputSchema: z.object({ file: z.string(), at: z.number() }),
+      location: ({ file, at }: { file: string; at: number }) => ({
+        path: file,
+        line: at,
+      }),
+      async execute() {
+        return undefined;
+      },
+    });
+
+    const result = await session.runTool("goto", { file: "b.ts", at: 7 });
+
+    expect(result.status).toBe("completed");
+    expect(result.output).toBeUndefined();
+    expect(updates[0]?.data).toMatchObject({ location: { path: "b.ts", line: 7 } });
+  });
+
+  it("should report cancelled when the turn is cancelled while running", async () => {
+    tools.set("slow", {
+      name: "slow",
+      inputSchema: z.object({}),
+      execute(_input, { signal }) {
+        return new Promise((_resolve, reject) => {
+          signal.addEventListener("abort", () => reject(signal.reason));
+        });
+      },
+    });
+
+    session.startTurn();
+    const running = session.runTool("slow", {});
+    await vi.waitFor(() => expect(updates).toHaveLength(2));
+    session.markCancelled();
+
+    await expect(running).resolves.toMatchObject({ status: "cancelled" });
+    await session.endTurn();
+    expect(updates.at(-1)?.data).toMatchObject({ status: "cancelled" });
+  });
+
+  it("should not start tools after the turn is cancelled", async () => {
+    session.startTurn();
+    session.markCancelled();
+
+    const result = await session.runTool("read_file", { path: "a.ts" });
+
+    expect(result.status).toBe("cancelled");
+    expect(updates).toHaveLength(0);
+  });
+
+  it("should respect the current mode's allowed tool kinds", async () => {
+    sessionData.currentMode = "plan";
+    session = new AgentSession(requestHandler, sessionData, {
+      tools,
+      modes: new Map([["plan", { id: "plan", label: "Plan", allowedToolKinds: ["edit"] }]]),
+    });
+
+    await expect(
+      session.runTool("read_file", { path: "a.ts" })
+    ).rejects.toBeInstanceOf(PermissionDeniedError);
+  });
+
+  it("should not restrict tools without a kind", async () => {
+    tools.set("echo", {
+      name: "echo",
+      inputSchema: z.object({ text: z.string() }),
+      async execute({ text }: { text: string }) {
+        return text;
+      },
+    } as ToolDefinition);
+    sessionData.currentMode = "plan";
+    session = new AgentSession(requestHandler, sessionData, {
+      tools,
+      modes: new Map([["plan", { id: "plan", label: "Plan", allowedToolKinds: ["edit"] }]]),
+    });
+
+    const result = await session.runTool("echo", { text: "hi" });
+
+    expect(result.status).toBe("completed");
+    expect(session.getToolSchemas().map((tool) => tool.name)).toEqual(["echo"]);
+  });
+});
+
+describe("toJsonSchema", () => {
+  it("should convert objects with required and optional properties", () => {
+    const schema = z.object({
+      path: z.string().describe("File path"),
+      line: z.number().int().min(1).optional(),
+      mode: z.enum(["read", "write"]).default("read"),
+    });
+
+    expect(toJsonSchema(schema)).toEqual({
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path" },
+        line: { type: "integer", minimum: 1 },
+        mode: { type: "string", enum: ["read", "write"], default: "read" },
+      },
+      required: ["path"],
+    });
+  });
+
+  it("should convert arrays, records, unions and nullable values", () => {
+    expect(toJsonSchema(z.array(z.string()).min(1))).toEqual({
+      type: "array",
+      items: { type: "string" },
+      minItems: 1,
+    });
+    expect(toJsonSchema(z.record(z.boolean()))).toEqual({
+      type: "object",
+      additionalProperties: { type: "boolean" },
+    });
+    expect(toJsonSchema(z.union([z.literal("a"), z.number()]))).toEqual({
+      anyOf: [{ const: "a" }, { type: "number" }],
+    });
+    expect(toJsonSchema(z.string().max(5).nullable())).toEqual({
+      anyOf: [{ type: "string", maxLength: 5 }, { type: "null" }],
+    });
+  });
+
+  it("should see through refinements and accept anything for unknown types", () => {
+    expect(toJsonSchema(z.string().refine((value) => value !== ""))).toEqual({
+      type: "string",
+    });
+    expect(toJsonSchema(z.unknown())).toEqual({});
+  });
+});
+
+describe("describeTool", () => {
+  it("should describe a tool for model providers", () => {
+    expect(describeTool(readFileTool as ToolDefinition)).toEqual({
+      name: "read_file",
+      description: "Read a file",
+      inputSchema: {
+        type: "object",
+        properties: { path: { type: "string" }, line: { type: "number" } },
+        required: ["path"],
+      },
+    });
+  });
+});
@@ -15,6 +15,15 @@ import type {
   JsonRpcNotification,
 } from '../../src/types/index.js';
 import { EventEmitter } from 'eventemitter3';
+import { ErrorCodes } from '../../src/types/index.js';
+import {
+  AuthRequiredError,
+  CapabilityNotSupportedError,
+  ConnectionLostError,
+  RateLimitedError,
+  SessionNotFoundError,
+  TimeoutError,
+} from '../../src/protocol/errors.js';
 
 // Mock Transport implementation
 class MockTransport extends EventEmitter<{
@@ -52,6 +61,8 @@ class MockTransport extends EventEmitter<{
 
   async notify(_notification: JsonRpcNotification): Promise<void> {}
 
+  async respond(_response: JsonRpcResponse): Promise<void> {}
+
   setMockResponse(id: number | string, response: JsonRpcResponse): void {
     this.requestResponses.set(id, response);
   }
@@ -143,6 +154,82 @@ describe('ACPClient (Simple Tests)', () => {
       expect(session.currentMode).toBe('code');
     });
 
+    it('should start a loaded session from its token usage', async () => {
+      (client as any)._agentInfo.capabilities.loadSession = true;
+
+      const nextId = (client as any).nextRequestId;
+      transport.setMockResponse(nextId, {
+        jsonrpc: '2.0',
+        id: nextId,
+        result: {
+          sessionId: 'sess_456',
+          mode: 'code',
+          usage: { inputTokens: 100, outputTokens: 40 },
+        },
+      });
+
+      const session = await client.loadSession('sess_456');
+
+      expect(session.usage).toEqual({ inputTokens: 100, outputTokens: 40 });
+    });
+
+    it('should expose history replayed during session/load', async () => {
+      (client as any)._agentInfo.capabilities.loadSession = true;
+
+      const history = [
+        {
+          sessionId: 'sess_456',
+          type: 'user_message_chunk',
+          data: { content: 'Hello', index: 0, final: true },
+        },
+        {
+          sessionId: 'sess_456',
+          type: 'agent_message_chunk',
+          data: { content: 'Hi there!', index: 0 },
+        },
+        {
+          sessionId: 'sess_456',
+          type: 'current_mode_update',
+          data: { previousMode: 'default', currentMode: 'code' },
+        },
+      ];
+
+      // Agent sends the history as notifications before responding
+      vi.spyOn(transport, 'request').mockImplementation(async (request) => {
+        for (const update of history) {
+          transport.simulateMessage({
+            jsonrpc: '2.0',
+            method: 'session/update',
+            params: update,
+          });
+        }
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: { sessionId: 'sess_456', mode: 'code' },
+        };
+      });
+
+      const session = await client.loadSession('sess_456');
+
+      expect(session.history).toEqual(history);
+      expect(session.currentMode).toBe('code');
+      expect((client as any).loadingSessions.size).toBe(0);
+    });
+
+    it('should have empty history for new sessions', async () => {
+      const nextId = (client as any).nextRequestId;
+      transport.setMockResponse(nextId, {
+        jsonrpc: '2.0',
+        id: nextId,
+        result: { sessionId: 'sess_new' },
+      });
+
+      const session = await client.createSession({ workingDirectory: '/test' });
+
+      expect(session.history).toEqual([]);
+    });
+
     it('should get session by ID', async () => {
       const nextId = (client as any).nextRequestId;
       transport.setMockResponse(nextId, {
@@ -156,6 +243,260 @@ describe('ACPClient (Simple Tests)', () => {
 
       expect(retrieved).toBe(session);
     });
+
+    it('should not ask agents that cannot load sessions', async () => {
+      const requestSpy = vi.spyOn(transport, 'request');
+
+      await expect(client.loadSession('sess_456')).rejects.toBeInstanceOf(
+        CapabilityNotSupportedError
+      );
+      expect(requestSpy).not.toHaveBeenCalled();
+    });
+
+    it('should describe new sessions from the agent capabilities', async () => {
+      (client as any)._agentInfo.capabilities.sessionCapabilities.configOptions = [
+        'model',
+        'verbose',
+        'legacy',
+      ];
+      const nextId = (client as any).nextRequestId;
+      transport.setMockResponse(nextId, {
+        jsonrpc: '2.0',
+        id: nextId,
+        result: {
+          sessionId: 'sess_123',
+          configOptions: [
+            {
+              key: 'model',
+              label: 'Model',
+              type: 'enum',
+              choices: [
+                { value: 'fast', label: 'Fast' },
+                { value: 'smart', label: 'Smart', description: 'Slower' },
+              ],
+              default: 'fast',
+            },
+            { key: 'verbose', label: 'Verbose', type: 'boolean', default: false },
+          ],
+        },
+      });
+
+      const session = await client.createSession({
+        workingDirectory: '/test',
+        configOptions: { model: 'smart' },
+      });
+
+      expect(session.availableModes).toEqual(['default', 'code']);
+      expect(session.configOptions).toEqual([
+        {
+          id: 'model',
+          label: 'Model',
+          values: [
+            { id: 'fast', label: 'Fast' },
+            { id: 'smart', label: 'Smart', description: 'Slower' },
+          ],
+          currentValueId: 'smart',
+        },
+        { id: 'verbose', label: 'Verbose', currentValueId: 'false' },
+        { id: 'legacy', label: 'legacy' },
+      ]);
+    });
+
+    it('should describe loaded sessions from their current config', async () => {
+      (client as any)._agentInfo.capabilities.loadSession = true;
+      (client as any)._agentInfo.capabilities.sessionCapabilities.configOptions = [
+        'model',
+      ];
+      const nextId = (client as any).nextRequestId;
+      transport.setMockResponse(nextId, {
+        jsonrpc: '2.0',
+        id: nextId,
+        result: {
+          sessionId: 'sess_456',
+          mode: 'code',
+          configOptions: { model: 'smart' },
+        },
+      });
+
+      const session = await client.loadSession('sess_456');
+
+      expect(session.availableModes).toEqual(['default', 'code']);
+      expect(session.configOptions).toEqual([
+        { id: 'model', label: 'model', currentValueId: 'smart' },
+      ]);
+    });
+  });
+
+  describe('supports()', () => {
+    it('should not support anything before connecting', () => {
+      expect(client.supports('loadSession')).toBe(false);
+      expect(client.supports('mode:default')).toBe(false);
+    });
+
+    it('should check the capabilities the agent declared', async () => {
+      await simulateConnect({
+        loadSession: true,
+        promptCapabilities: { attachments: true, streaming: false },
+        sessionCapabilities: {
+          modes: ['default', 'plan'],
+          configOptions: ['model'],
+          persistence: true,
+        },
+      });
+
+      expect(client.supports('loadSession')).toBe(true);
+      expect(client.supports('prompt.attachments')).toBe(true);
+      expect(client.supports('prompt.streaming')).toBe(false);
+      expect(client.supports('prompt.cancellation')).toBe(false);
+      expect(client.supports('session.persistence')).toBe(true);
+      expect(client.supports('mode:plan')).toBe(true);
+      expect(client.supports('mode:architect')).toBe(false);
+      expect(client.supports('config:model')).toBe(true);
+      expect(client.supports('config:theme')).toBe(false);
+    });
+  });
+
+  describe('authentication', () => {
+    beforeEach(async () => {
+      await simulateConnect();
+    });
+
+    it('should authenticate with the agent', async () => {
+      const requestSpy = vi.spyOn(transport, 'request');
+      transport.setMockResponse(1, {
+        jsonrpc: '2.0',
+        id: 1,
+        result: { success: true, expiresAt: '2030-01-01T00:00:00Z' },
+      });
+
+      const result = await client.authenticate('api_key', { apiKey: 'secret' });
+
+      expect(result.expiresAt).toBe('2030-01-01T00:00:00Z');
+      expect(requestSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          method: 'authenticate',
+          params: { method: 'api_key', credentials: { apiKey: 'secret' } },
+        }),
+        { timeout: 30000 }
+      );
+    });
+
+    it('should throw AuthRequiredError when credentials are rejected', async () => {
+      transport.setMockResponse(1, {
+        jsonrpc: '2.0',
+        id: 1,
+        result: { success: false, error: 'Invalid API key' },
+      });
+
+      await expect(
+        client.authenticate('api_key', { apiKey: 'wrong' })
+      ).rejects.toBeInstanceOf(AuthRequiredError);
+    });
+
+    it('should re-authenticate and retry when a request requires auth', async () => {
+      const requestSpy = vi.spyOn(transport, 'request');
+      transport.setMockResponse(1, {
+        jsonrpc: '2.0',
+        id: 1,
+        result: { success: true },
+      });
+      transport.setMockResponse(2, {
+        jsonrpc: '2.0',
+        id: 2,
+        error: { code: ErrorCodes.AuthRequired, message: 'Authentication expired' },
+      });
+      transport.setMockResponse(3, {
+        jsonrpc: '2.0',
+        id: 3,
+        result: { success: true },
+      });
+      transport.setMockResponse(4, {
+        jsonrpc: '2.0',
+        id: 4,
+        result: { sessionId: 'sess_auth' },
+      });
+
+      await client.authenticate('api_key', { apiKey: 'secret' });
+      const session = await client.createSession({ workingDirectory: '/test' });
+
+      expect(session.id).toBe('sess_auth');
+      expect(requestSpy.mock.calls.map(([request]) => request.method)).toEqual([
+        'authenticate',
+        'session/new',
+        'authenticate',
+        'session/new',
+      ]);
+    });
+
+    it('should not retry auth-required errors without stored credentials', async () => {
+      transport.setMockResponse(1, {
+        jsonrpc: '2.0',
+        id: 1,
+        error: { code: ErrorCodes.AuthRequired, message: 'Authentication required' },
+      });
+
+      await expect(
+        client.createSession({ workingDirectory: '/test' })
+      ).rejects.toMatchObject({ code: ErrorCodes.AuthRequired });
+    });
+  });
+
+  describe('error responses', () => {
+    it('should reject with the error class for the code', async () => {
+      await simulateConnect();
+      transport.setMockResponse(1, {
+        jsonrpc: '2.0',
+        id: 1,
+        error: {
+          code: ErrorCodes.SessionNotFound,
+          message: 'Session not found: sess_gone',
+          data: { sessionId: 'sess_gone' },
+        },
+      });
+
+      const error = await client
+        .sendRequest('session/prompt', { sessionId: 'sess_gone' })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(SessionNotFoundError);
+      expect(error).toMatchObject({
+        message: 'Session not found: sess_gone',
+        data: { sessionId: 'sess_gone' },
+      });
+    });
+
+    it('should keep the retry delay of rate limit errors', async () => {
+      await simulateConnect();
+      transport.setMockResponse(1, {
+        jsonrpc: '2.0',
+        id: 1,
+        error: new RateLimitedError(30).toJsonRpcError(),
+      });
+
+      const error = await client
+        .sendRequest('session/prompt', {})
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(RateLimitedError);
+      expect((error as RateLimitedError).data).toEqual({ retryAfter: 30 });
+    });
+
+    it('should reject with TimeoutError when the agent does not answer', async () => {
+      client = new ACPClient(transport, {
+        name: 'Test Client',
+        version: '1.0.0',
+        requestTimeout: 10,
+      });
+      await simulateConnect();
+      vi.spyOn(transport, 'request').mockReturnValue(new Promise(() => {}));
+
+      const pending = client.sendRequest('session/prompt', {});
+
+      await expect(pending).rejects.toBeInstanceOf(TimeoutError);
+      await expect(pending).rejects.toMatchObject({
+        data: { operation: 'session/prompt', timeoutMs: 10 },
+      });
+    });
   });
 
   describe('handler registration', () => {
@@ -261,7 +602,7 @@ describe('ACPClient (Simple Tests)', () => {
 
       client.setFileSystemHandler(fsHandler);
 
-      const notifySpy = vi.spyOn(transport, 'notify');
+      const respondSpy = vi.spyOn(transport, 'respond');
 
       transport.simulateMessage({
         jsonrpc: '2.0',
@@ -272,14 +613,11 @@ describe('ACPClient (Simple Tests)', () => {
 
       await new Promise((resolve) => setTimeout(resolve, 10));
 
-      expect(notifySpy).toHaveBeenCalledWith(
+      expect(respondSpy).toHaveBeenCalledWith(
         expect.objectContaining({
-          method: '__response__',
-          params: expect.objectContaining({
-            id: 100,
-            result: expect.objectContaining({
-              content: 'Content of /test/file.txt',
-            }),
+          id: 100,
+          result: expect.objectContaining({
+            content: 'Content of /test/file.txt',
           }),
         })
       );
@@ -302,7 +640,7 @@ describe('ACPClient (Simple Tests)', () => {
 
       client.setTerminalHandler(termHandler);
 
-      const notifySpy = vi.spyOn(transport, 'notify');
+      const respondSpy = vi.spyOn(transport, 'respond');
 
       transport.simulateMessage({
         jsonrpc: '2.0',
@@ -313,18 +651,16 @@ describe('ACPClient (Simple Tests)', () => {
 
       await new Promise((resolve) => setTimeout(resolve, 10));
 
-      expect(notifySpy).toHaveBeenCalledWith(
+      expect(respondSpy).toHaveBeenCalledWith(
         expect.objectContaining({
-          params: expect.objectContaining({
-            id: 101,
-            result: { terminalId: 'term_echo', pid: 1234 },
-          }),
+          id: 101,
+          result: { terminalId: 'term_echo', pid: 1234 },
         })
       );
     });
 
     it('should deny permission if no handler', async () => {
-      const notifySpy = vi.spyOn(transport, 'notify');
+      const respondSpy = vi.spyOn(transport, 'respond');
 
       transport.simulateMessage({
         jsonrpc: '2.0',
@@ -335,18 +671,136 @@ describe('ACPClient (Simple Tests)', () => {
 
       await new Promise((resolve) => setTimeout(resolve, 10));
 
-      expect(notifySpy).toHaveBeenCalledWith(
+      expect(respondSpy).toHaveBeenCalledWith(
         expect.objectContaining({
-          params: expect.objectContaining({
-            id: 102,
-            result: {
-              granted: false,
-              reason: 'No permission handler registered',
-            },
-          }),
+          id: 102,
+          result: {
+            granted: false,
+            reason: 'No permission handler registered',
+          },
         })
       );
     });
+
+    it('should tell the session about permission requests', async () => {
+      const nextId = (client as any).nextRequestId;
+      transport.setMockResponse(nextId, {
+        jsonrpc: '2.0',
+        id: nextId,
+        result: { sessionId: 'sess_perm' },
+      });
+      const session = await client.createSession({ workingDirectory: '/test' });
+      const permissionRequest = vi.fn();
+      session.on('permissionRequest', permissionRequest);
+
+      const params = {
+        sessionId: 'sess_perm',
+        operation: 'file_write',
+        resource: '/test/a.ts',
+      };
+      transport.simulateMessage({
+        jsonrpc: '2.0',
+        id: 103,
+        method: 'session/request_permission',
+        params,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(permissionRequest).toHaveBeenCalledWith(params);
+    });
+  });
+
+  describe('custom handlers and middleware', () => {
+    beforeEach(async () => {
+      await simulateConnect();
+    });
+
+    it('should handle custom request methods', async () => {
+      const respondSpy = vi.spyOn(transport, 'respond');
+      client.onRequest('_editor/selection', async () => ({ line: 10 }));
+
+      transport.simulateMessage({
+        jsonrpc: '2.0',
+        id: 200,
+        method: '_editor/selection',
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(respondSpy).toHaveBeenCalledWith({
+        jsonrpc: '2.0',
+        id: 200,
+        result: { line: 10 },
+      });
+    });
+
+    it('should allow overriding built-in handlers', async () => {
+      const respondSpy = vi.spyOn(transport, 'respond');
+      client.onRequest('session/request_permission', async () => ({
+        granted: true,
+      }));
+
+      transport.simulateMessage({
+        jsonrpc: '2.0',
+        id: 201,
+        method: 'session/request_permission',
+        params: { operation: 'some_tool', resource: '/test' },
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(respondSpy).toHaveBeenCalledWith({
+        jsonrpc: '2.0',
+        id: 201,
+        result: { granted: true },
+      });
+    });
+
+    it('should return MethodNotFound for unknown methods', async () => {
+      const respondSpy = vi.spyOn(transport, 'respond');
+
+      transport.simulateMessage({
+        jsonrpc: '2.0',
+        id: 202,
+        method: 'unknown/method',
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(respondSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 202,
+          error: expect.objectContaining({ code: ErrorCodes.MethodNotFound }),
+        })
+      );
+    });
+
+    it('should run middleware for agent requests and notifications', async () => {
+      const seen: string[] = [];
+      client.use(async (ctx, next) => {
+        seen.push(`${ctx.type}:${ctx.method}`);
+        await next();
+      });
+
+      transport.simulateMessage({
+        jsonrpc: '2.0',
+        id: 203,
+        method: 'session/request_permission',
+        params: { operation: 'some_tool', resource: '/test' },
+      });
+      transport.simulateMessage({
+        jsonrpc: '2.0',
+        method: 'session/update',
+        params: {
+          sessionId: 'sess_123',
+          type: 'agent_message_chunk',
+          data: { content: 'Hi', index: 0 },
+        },
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(seen).toEqual([
+        'request:session/request_permission',
+        'notification:session/update',
+      ]);
+    });
   });
 
   describe('disconnect', () => {
@@ -361,5 +815,137 @@ describe('ACPClient (Simple Tests)', () => {
       expect(client.connected).toBe(false);
       expect(disconnectedHandler).toHaveBeenCalledTimes(1);
     });
+
+    it('should fail pending requests with ConnectionLostError', async () => {
+      await simulateConnect();
+      vi.spyOn(transport, 'request').mockReturnValue(new Promise(() => {}));
+
+      const pending = client.sendRequest('session/prompt', {});
+      transport.emit('close');
+
+      await expect(pending).rejects.toBeInstanceOf(ConnectionLostError);
+      await expect(pending).rejects.toMatchObject({
+        code: ErrorCodes.InternalError,
+        data: { method: 'session/prompt' },
+      });
+    });
+  });
+
+  describe('reconnect', () => {
+    let requests: JsonRpcRequest[];
+    let loadSession: boolean;
+
+    beforeEach(async () => {
+      requests = [];
+      loadSession = true;
+      client = new ACPClient(transport, {
+        name: 'Test Client',
+        version: '1.0.0',
+        reconnect: { initialDelay: 1, maxAttempts: 3 },
+      });
+      vi.spyOn(transport, 'request').mockImplementation(async (request) => {
+        requests.push(request);
+        const results: Record<string, unknown> = {
+          initialize: {
+            protocolVersion: 1,
+            agentInfo: { name: 'Test Agent', version: '1.0.0' },
+            capabilities: { loadSession },
+          },
+          'session/new': { sessionId: 'sess_1' },
+          'session/load': { sessionId: 'sess_1' },
+        };
+        if (request.method === 'session/prompt') {
+          return new Promise(() => {});
+        }
+        return { jsonrpc: '2.0', id: request.id, result: results[request.method] ?? {} };
+      });
+
+      await client.connect();
+    });
+
+    const waitFor = (event: 'reconnected' | 'disconnected') =>
+      new Promise<unknown[]>((resolve) => {
+        client.on(event, (...args: unknown[]) => resolve(args));
+      });
+
+    it('should restart the transport and load active sessions', async () => {
+      const session = await client.createSession({ workingDirectory: '/test' });
+      const reconnecting = vi.fn();
+      client.on('reconnecting', reconnecting);
+      const startSpy = vi.spyOn(transport, 'start');
+      const prompt = session.prompt([{ type: 'text', text: 'Hi' }]);
+      const reconnected = waitFor('reconnected');
+
+      transport.emit('close');
+
+      await expect(prompt).rejects.toBeInstanceOf(ConnectionLostError);
+      expect(client.connected).toBe(false);
+      expect(client.reconnecting).toBe(true);
+      await expect(reconnected).resolves.toEqual([1, []]);
+
+      expect(reconnecting).toHaveBeenCalledWith(1, 1);
+      expect(startSpy).toHaveBeenCalledTimes(1);
+      expect(requests.map((request) => request.method)).toEqual([
+        'initialize',
+        'session/new',
+        'session/prompt',
+        'initialize',
+        'session/load',
+      ]);
+      expect(requests.at(-1)?.params).toEqual({ sessionId: 'sess_1' });
+      expect(client.connected).toBe(true);
+      expect(client.reconnecting).toBe(false);
+      expect(session.isActive).toBe(true);
+      expect(client.getSession('sess_1')).toBe(session);
+    });
+
+    it("should deactivate sessions the agent can't load", async () => {
+      const session = await client.createSession({ workingDirectory: '/test' });
+      loadSession = false;
+      const reconnected = waitFor('reconnected');
+
+      transport.emit('close');
+
+      await expect(reconnected).resolves.toEqual([1, ['sess_1']]);
+      expect(session.isActive).toBe(false);
+      expect(client.getSession('sess_1')).toBeUndefined();
+    });
+
+    it('should back off and give up after the maximum attempts', async () => {
+      const session = await client.createSession({ workingDirectory: '/test' });
+      const reconnecting = vi.fn();
+      client.on('reconnecting', reconnecting);
+      client.on('error', () => {});
+      vi.spyOn(transport, 'start').mockRejectedValue(new Error('spawn failed'));
+      const disconnected = waitFor('disconnected');
+
+      transport.emit('close');
+      await disconnected;
+
+      expect(reconnecting.mock.calls).toEqual([
+        [1, 1],
+        [2, 2],
+        [3, 4],
+      ]);
+      expect(client.reconnecting).toBe(false);
+      expect(session.isActive).toBe(false);
+    });
+
+    it('should stop reconnecting when disconnected', async () => {
+      client = new ACPClient(transport, {
+        name: 'Test Client',
+        version: '1.0.0',
+        reconnect: { initialDelay: 60000 },
+      });
+      await client.connect();
+      const startSpy = vi.spyOn(transport, 'start');
+
+      transport.emit('close');
+      expect(client.reconnecting).toBe(true);
+      await client.disconnect();
+
+      expect(client.reconnecting).toBe(false);
+      expect(startSpy).not.toHaveBeenCalled();
+    });
   });
 });
@@ -6,11 +6,17 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { Session } from '../../src/client/Session.js';
 import type { ACPClient } from '../../src/client/ACPClient.js';
 import type { SessionUpdate } from '../../src/types/index.js';
+import { CapabilityNotSupportedError } from '../../src/protocol/errors.js';
 
 // Mock ACPClient
 class MockACPClient {
   public sendRequestMock = vi.fn();
   public sendNotificationMock = vi.fn();
+  public supportsMock = vi.fn().mockReturnValue(true);
+
+  supports(feature: string): boolean {
+    return this.supportsMock(feature);
+  }
 
   async sendRequest<T>(method: string, params?: unknown): Promise<T> {
     return this.sendRequestMock(method, params);
@@ -93,6 +99,62 @@ describe('Session', () => {
     });
   });
 
+  describe('usage', () => {
+    it('should start with zero totals', () => {
+      expect(session.usage).toEqual({ inputTokens: 0, outputTokens: 0 });
+    });
+
+    it('should accumulate usage across prompts and emit usage events', async () => {
+      const usageHandler = vi.fn();
+      session.on('usage', usageHandler);
+
+      mockClient.sendRequestMock.mockResolvedValueOnce({
+        stopReason: 'end_turn',
+        usage: { inputTokens: 10, outputTokens: 20 },
+      });
+      mockClient.sendRequestMock.mockResolvedValueOnce({
+        stopReason: 'end_turn',
+        usage: { inputTokens: 5, outputTokens: 7, cachedInputTokens: 3 },
+      });
+
+      await session.prompt([{ type: 'text', text: 'First' }]);
+      await session.prompt([{ type: 'text', text: 'Second' }]);
+
+      expect(session.usage).toEqual({
+        inputTokens: 15,
+        outputTokens: 27,
+        cachedInputTokens: 3,
+      });
+      expect(usageHandler).toHaveBeenNthCalledWith(
+        1,
+        { inputTokens: 10, outputTokens: 20 },
+        { inputTokens: 10, outputTokens: 20 }
+      );
+      expect(usageHandler).toHaveBeenNthCalledWith(
+        2,
+        { inputTokens: 5, outputTokens: 7, cachedInputTokens: 3 },
+        { inputTokens: 15, outputTokens: 27, cachedInputTokens: 3 }
+      );
+    });
+
+    it('should not emit usage events when the agent reports no usage', async () => {
+      const usageHandler = vi.fn();
+      session.on('usage', usageHandler);
+      mockClient.sendRequestMock.mockResolvedValue({ stopReason: 'end_turn' });
+
+      await session.prompt([{ type: 'text', text: 'Hello' }]);
+
+      expect(usageHandler).not.toHaveBeenCalled();
+      expect(session.usage).toEqual({ inputTokens: 0, outputTokens: 0 });
+    });
+
+    it('should return a copy of the totals', () => {
+      session.usage.inputTokens = 100;
+
+      expect(session.usage.inputTokens).toBe(0);
+    });
+  });
+
   describe('cancel()', () => {
     it('should send cancel notification', async () => {
       await session.cancel();
@@ -159,6 +221,16 @@ describe('Session', () => {
 
       await expect(session.setMode('code')).rejects.toThrow('Session sess_123 is no longer active');
     });
+
+    it('should reject modes the agent does not offer', async () => {
+      mockClient.supportsMock.mockReturnValue(false);
+
+      await expect(session.setMode('plan')).rejects.toBeInstanceOf(
+        CapabilityNotSupportedError
+      );
+      expect(mockClient.supportsMock).toHaveBeenCalledWith('mode:plan');
+      expect(mockClient.sendRequestMock).not.toHaveBeenCalled();
+    });
   });
 
   describe('setConfigOption()', () => {
@@ -195,6 +267,28 @@ describe('Session', () => {
         'Session sess_123 is no longer active'
       );
     });
+
+    it('should reject options the agent does not declare', async () => {
+      mockClient.supportsMock.mockReturnValue(false);
+
+      await expect(session.setConfigOption('model', 'fast')).rejects.toThrow(
+        'Capability not supported: config:model'
+      );
+      expect(mockClient.supportsMock).toHaveBeenCalledWith('config:model');
+      expect(mockClient.sendRequestMock).not.toHaveBeenCalled();
+    });
+
+    it('should track values changed by the agent', () => {
+      session.setConfigOptions([{ id: 'verbose', label: 'Verbose Output' }]);
+
+      session.handleUpdate({
+        sessionId: 'sess_123',
+        type: 'config_option_update',
+        data: { key: 'verbose', previousValue: false, currentValue: true },
+      });
+
+      expect(session.configOptions[0].currentValueId).toBe('true');
+    });
   });
 
   describe('event handling', () => {
@@ -391,6 +485,180 @@ describe('Session', () => {
     });
   });
 
+  describe('promptStream()', () => {
+    const update = (data: Omit<SessionUpdate, 'sessionId'>) =>
+      session.handleUpdate({ sessionId: 'sess_123', ...data } as SessionUpdate);
+
+    async function collect(iterable: AsyncIterable<unknown>) {
+      const events: unknown[] = [];
+      for await (const event of iterable) {
+        events.push(event);
+      }
+      return events;
+    }
+
+    it('should yield typed events ending with the result', async () => {
+      mockClient.sendRequestMock.mockImplementation(async () => {
+        update({ type: 'thought_message_chunk', data: { content: 'Hmm', index: 0 } });
+        update({
+          type: 'tool_call',
+          data: { id: 'tc_1', tool: 'read', input: {}, status: 'pending' },
+        });
+        session.handlePermissionRequest({
+          sessionId: 'sess_123',
+          operation: 'file_read',
+          resource: 'a.ts',
+          toolCallId: 'tc_1',
+        });
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        update({ type: 'tool_call_update', data: { id: 'tc_1', status: 'completed' } });
+        update({ type: 'plan', data: { planId: 'p1', steps: [] } });
+        update({ type: 'agent_message_chunk', data: { content: 'Done', index: 0 } });
+        update({ type: 'available_commands', data: { commands: [] } });
+        return { stopReason: 'end_turn' };
+      });
+
+      const events = await collect(
+        session.promptStream([{ type: 'text', text: 'Go' }])
+      );
+
+      expect(events).toEqual([
+        { type: 'thought_delta', text: 'Hmm' },
+        {
+          type: 'tool_call_started',
+          toolCall: { id: 'tc_1', tool: 'read', input: {}, status: 'pending' },
+        },
+        {
+          type: 'permission_requested',
+          request: expect.objectContaining({ toolCallId: 'tc_1' }),
+        },
+        {
+          type: 'tool_call_updated',
+          update: { id: 'tc_1', status: 'completed' },
+          toolCall: { id: 'tc_1', tool: 'read', input: {}, status: 'completed' },
+        },
+        { type: 'plan', plan: { planId: 'p1', steps: [] } },
+        { type: 'message_delta', text: 'Done' },
+        { type: 'result', result: { stopReason: 'end_turn', usage: undefined } },
+      ]);
+      expect(mockClient.sendRequestMock).toHaveBeenCalledWith('session/prompt', {
+        sessionId: 'sess_123',
+        content: [{ type: 'text', text: 'Go' }],
+      });
+    });
+
+    it('should not send the prompt until iteration starts', () => {
+      session.promptStream([{ type: 'text', text: 'Go' }]);
+
+      expect(mockClient.sendRequestMock).not.toHaveBeenCalled();
+    });
+
+    it('should send session/cancel when the loop is left early', async () => {
+      let finish: (value: unknown) => void = () => undefined;
+      mockClient.sendRequestMock.mockImplementation(() => {
+        update({ type: 'agent_message_chunk', data: { content: 'Hi', index: 0 } });
+        return new Promise((resolve) => {
+          finish = resolve;
+        });
+      });
+
+      for await (const event of session.promptStream([{ type: 'text', text: 'Go' }])) {
+        expect(event).toEqual({ type: 'message_delta', text: 'Hi' });
+        break;
+      }
+
+      expect(mockClient.sendNotificationMock).toHaveBeenCalledWith('session/cancel', {
+        sessionId: 'sess_123',
+        reason: undefined,
+      });
+      finish({ stopReason: 'cancelled' });
+    });
+
+    it('should not cancel a prompt that finished', async () => {
+      mockClient.sendRequestMock.mockResolvedValue({ stopReason: 'end_turn' });
+
+      await collect(session.promptStream([{ type: 'text', text: 'Go' }]));
+
+      expect(mockClient.sendNotificationMock).not.toHaveBeenCalled();
+    });
+
+    it('should throw when the prompt fails', async () => {
+      mockClient.sendRequestMock.mockRejectedValue(new Error('Agent crashed'));
+
+      await expect(
+        collect(session.promptStream([{ type: 'text', text: 'Go' }]))
+      ).rejects.toThrow('Agent crashed');
+    });
+
+    it('should stop listening for updates when done', async () => {
+      mockClient.sendRequestMock.mockResolvedValue({ stopReason: 'end_turn' });
+      const stream = session.promptStream([{ type: 'text', text: 'Go' }]);
+      await collect(stream);
+
+      update({ type: 'agent_message_chunk', data: { content: 'Late', index: 1 } });
+
+      await expect(stream.next()).resolves.toEqual({ done: true, value: undefined });
+    });
+  });
+
+  describe('transcript', () => {
+    it('should record prompts with the updates received for them', async () => {
+      mockClient.sendRequestMock.mockImplementation(async () => {
+        session.handleUpdate({
+          sessionId: 'sess_123',
+          type: 'agent_message_chunk',
+          data: { content: 'Hi!', index: 0, final: true },
+        });
+        return { stopReason: 'end_turn' };
+      });
+
+      await session.prompt([{ type: 'text', text: 'Hello' }]);
+
+      expect(session.transcript.turns).toEqual([
+        {
+          index: 0,
+          prompt: [{ type: 'text', text: 'Hello' }],
+          agentMessage: 'Hi!',
+          thoughts: '',
+          toolCalls: [],
+          stopReason: 'end_turn',
+        },
+      ]);
+    });
+
+    it('should end the turn when the prompt fails', async () => {
+      const turnEnd = vi.fn();
+      session.transcript.on('turnEnd', turnEnd);
+      mockClient.sendRequestMock.mockRejectedValue(new Error('Agent crashed'));
+
+      await expect(session.prompt([{ type: 'text', text: 'Hello' }])).rejects.toThrow(
+        'Agent crashed'
+      );
+
+      expect(session.transcript.turns).toMatchObject([{ stopReason: 'error' }]);
+      expect(turnEnd).toHaveBeenCalledTimes(1);
+    });
+
+    it('should include replayed history', () => {
+      session.replayHistory([
+        {
+          sessionId: 'sess_123',
+          type: 'user_message_chunk',
+          data: { content: 'Hello', index: 0, final: true },
+        },
+        {
+          sessionId: 'sess_123',
+          type: 'agent_message_chunk',
+          data: { content: 'Hi!', index: 0 },
+        },
+      ]);
+
+      expect(session.transcript.turns).toMatchObject([
+        { prompt: [{ type: 'text', text: 'Hello' }], agentMessage: 'Hi!' },
+      ]);
+    });
+  });
+
   describe('getters', () => {
     it('should get current mode', () => {
       expect(session.currentMode).toBe('default');
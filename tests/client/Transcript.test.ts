@@ -0,0 +1,329 @@
+/**
+ * Tests for Transcript
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Transcript } from '../../src/client/Transcript.js';
+import type { SessionUpdate } from '../../src/types/index.js';
+
+const sessionId = 'sess_123';
+
+function messageChunk(content: string, index: number): SessionUpdate {
+  return { sessionId, type: 'agent_message_chunk', data: { content, index } };
+}
+
+describe('Transcript', () => {
+  let transcript: Transcript;
+
+  beforeEach(() => {
+    transcript = new Transcript();
+  });
+
+  it('should start empty', () => {
+    expect(transcript.turns).toEqual([]);
+    expect(transcript.currentTurn).toBeUndefined();
+    expect(transcript.plan).toBeUndefined();
+  });
+
+  describe('turns', () => {
+    it('should record the prompt and the prompt result', () => {
+      const turnStart = vi.fn();
+      const turnEnd = vi.fn();
+      transcript.on('turnStart', turnStart);
+      transcript.on('turnEnd', turnEnd);
+
+      transcript.startTurn([{ type: 'text', text: 'Hello' }]);
+      transcript.endTurn({
+        stopReason: 'end_turn',
+        usage: { inputTokens: 10, outputTokens: 5 },
+      });
+
+      const expected = {
+        index: 0,
+        prompt: [{ type: 'text', text: 'Hello' }],
+        agentMessage: '',
+        thoughts: '',
+        toolCalls: [],
+        stopReason: 'end_turn',
+        usage: { inputTokens: 10, outputTokens: 5 },
+      };
+      expect(transcript.turns).toEqual([expected]);
+      expect(turnStart).toHaveBeenCalledWith(
+        expect.objectContaining({ index: 0, prompt: expected.prompt })
+      );
+      expect(turnEnd).toHaveBeenCalledWith(expected);
+    });
+
+    it('should attach agent output to the latest turn', () => {
+      transcript.startTurn([{ type: 'text', text: 'One' }]);
+      transcript.applyUpdate(messageChunk('First', 0));
+      transcript.startTurn([{ type: 'text', text: 'Two' }]);
+      transcript.applyUpdate(messageChunk('Second', 1));
+
+      expect(transcript.turns.map((turn) => turn.agentMessage)).toEqual([
+        'First',
+        'Second',
+      ]);
+    });
+
+    it('should start a turn for agent output without a prompt', () => {
+      transcript.applyUpdate(messageChunk('Welcome', 0));
+
+      expect(transcript.currentTurn).toMatchObject({
+        index: 0,
+        prompt: [],
+        agentMessage: 'Welcome',
+      });
+    });
+
+    it('should return snapshots', () => {
+      transcript.startTurn([{ type: 'text', text: 'Hello' }]);
+
+      const turn = transcript.currentTurn;
+      turn?.toolCalls.push({ id: 'x', tool: 'x', input: {}, status: 'pending' });
+
+      expect(transcript.currentTurn?.toolCalls).toEqual([]);
+    });
+  });
+
+  describe('messages and thoughts', () => {
+    it('should assemble chunks in index order', () => {
+      const messageChange = vi.fn();
+      transcript.on('messageChange', messageChange);
+
+      transcript.applyUpdate(messageChunk('Hello', 0));
+      transcript.applyUpdate(messageChunk(' world', 2));
+      transcript.applyUpdate(messageChunk(',', 1));
+
+      expect(transcript.currentTurn?.agentMessage).toBe('Hello, world');
+      expect(messageChange).toHaveBeenLastCalledWith(
+        'Hello, world',
+        expect.objectContaining({ agentMessage: 'Hello, world' })
+      );
+    });
+
+    it('should ignore repeated chunks', () => {
+      transcript.applyUpdate(messageChunk('Hello', 0));
+      transcript.applyUpdate(messageChunk('Hello', 0));
+
+      expect(transcript.currentTurn?.agentMessage).toBe('Hello');
+    });
+
+    it('should assemble thoughts separately', () => {
+      const thoughtChange = vi.fn();
+      transcript.on('thoughtChange', thoughtChange);
+
+      transcript.applyUpdate({
+        sessionId,
+        type: 'thought_message_chunk',
+        data: { content: 'Let me think', index: 0 },
+      });
+      transcript.applyUpdate({
+        sessionId,
+        type: 'thought_message_chunk',
+        data: { content: ' about it.', index: 1, final: true },
+      });
+
+      expect(transcript.currentTurn).toMatchObject({
+        agentMessage: '',
+        thoughts: 'Let me think about it.',
+      });
+      expect(thoughtChange).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('replayed prompts', () => {
+    it('should start a turn for each replayed user message', () => {
+      const promptChange = vi.fn();
+      transcript.on('promptChange', promptChange);
+
+      const updates: SessionUpdate[] = [
+        {
+          sessionId,
+          type: 'user_message_chunk',
+          data: { content: 'Read', index: 0 },
+        },
+        {
+          sessionId,
+          type: 'user_message_chunk',
+          data: { content: 'a.ts', index: 1, final: true },
+        },
+        messageChunk('Done', 0),
+        {
+          sessionId,
+          type: 'user_message_chunk',
+          data: { content: 'Thanks', index: 0, final: true },
+        },
+      ];
+      updates.forEach((update) => transcript.applyUpdate(update));
+
+      expect(transcript.turns).toMatchObject([
+        {
+          index: 0,
+          prompt: [
+            { type: 'text', text: 'Read' },
+            { type: 'text', text: 'a.ts' },
+          ],
+          agentMessage: 'Done',
+        },
+        { index: 1, prompt: [{ type: 'text', text: 'Thanks' }] },
+      ]);
+      expect(promptChange).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('tool calls', () => {
+    it('should merge tool call updates by ID', () => {
+      const toolCallChange = vi.fn();
+      transcript.on('toolCallChange', toolCallChange);
+      transcript.startTurn([{ type: 'text', text: 'Read it' }]);
+
+      transcript.applyUpdate({
+        sessionId,
+        type: 'tool_call',
+        data: {
+          id: 'tc_1',
+          tool: 'read_file',
+          input: { path: 'a.ts' },
+          status: 'pending',
+          kind: 'read',
+        },
+      });
+      transcript.applyUpdate({
+        sessionId,
+        type: 'tool_call_update',
+        data: { id: 'tc_1', status: 'in_progress' },
+      });
+      transcript.applyUpdate({
+        sessionId,
+        type: 'tool_call_update',
+        data: {
+          id: 'tc_1',
+          status: 'completed',
+          output: { type: 'text', text: 'export {}' },
+          duration: 12,
+        },
+      });
+
+      const expected = {
+        id: 'tc_1',
+        tool: 'read_file',
+        input: { path: 'a.ts' },
+        status: 'completed',
+        kind: 'read',
+        output: { type: 'text', text: 'export {}' },
+        duration: 12,
+      };
+      expect(transcript.currentTurn?.toolCalls).toEqual([expected]);
+      expect(transcript.getToolCall('tc_1')).toEqual(expected);
+      expect(toolCallChange).toHaveBeenCalledTimes(3);
+      expect(toolCallChange).toHaveBeenLastCalledWith(
+        expected,
+        expect.objectContaining({ index: 0 })
+      );
+    });
+
+    it('should update tool calls of earlier turns', () => {
+      transcript.startTurn([]);
+      transcript.applyUpdate({
+        sessionId,
+        type: 'tool_call',
+        data: { id: 'tc_1', tool: 'build', input: {}, status: 'in_progress' },
+      });
+      transcript.startTurn([]);
+      transcript.applyUpdate({
+        sessionId,
+        type: 'tool_call_update',
+        data: { id: 'tc_1', status: 'failed', error: 'Boom' },
+      });
+
+      const [first, second] = transcript.turns;
+      expect(first?.toolCalls).toMatchObject([
+        { id: 'tc_1', status: 'failed', error: 'Boom' },
+      ]);
+      expect(second?.toolCalls).toEqual([]);
+    });
+
+    it('should keep updates for unknown tool calls', () => {
+      transcript.applyUpdate({
+        sessionId,
+        type: 'tool_call_update',
+        data: { id: 'tc_9', status: 'completed' },
+      });
+
+      expect(transcript.getToolCall('tc_9')).toEqual({
+        id: 'tc_9',
+        tool: '',
+        input: {},
+        status: 'completed',
+      });
+    });
+  });
+
+  describe('plans', () => {
+    it('should track the latest plan', () => {
+      const planChange = vi.fn();
+      transcript.on('planChange', planChange);
+      transcript.startTurn([]);
+
+      const plan = {
+        planId: 'plan_1',
+        steps: [{ id: 's1', description: 'Read', status: 'completed' as const }],
+      };
+      transcript.applyUpdate({ sessionId, type: 'plan', data: plan });
+
+      expect(transcript.plan).toEqual(plan);
+      expect(transcript.currentTurn?.plan).toEqual(plan);
+      expect(planChange).toHaveBeenCalledWith(
+        plan,
+        expect.objectContaining({ index: 0 })
+      );
+    });
+  });
+
+  it('should ignore updates that are not conversation content', () => {
+    transcript.applyUpdate({
+      sessionId,
+      type: 'available_commands',
+      data: { commands: [] },
+    });
+
+    expect(transcript.turns).toEqual([]);
+  });
+
+  it('should stop emitting to removed handlers', () => {
+    const handler = vi.fn();
+    transcript.on('messageChange', handler);
+    transcript.off('messageChange', handler);
+
+    transcript.applyUpdate(messageChunk('Hello', 0));
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should serialize to JSON', () => {
+    transcript.startTurn([{ type: 'text', text: 'Plan it' }]);
+    transcript.applyUpdate({
+      sessionId,
+      type: 'plan',
+      data: { planId: 'plan_1', steps: [] },
+    });
+    transcript.applyUpdate(messageChunk('Planned.', 0));
+    transcript.endTurn({ stopReason: 'end_turn', usage: undefined });
+
+    expect(JSON.parse(JSON.stringify(transcript))).toEqual({
+      turns: [
+        {
+          index: 0,
+          prompt: [{ type: 'text', text: 'Plan it' }],
+          agentMessage: 'Planned.',
+          thoughts: '',
+          toolCalls: [],
+          plan: { planId: 'plan_1', steps: [] },
+          stopReason: 'end_turn',
+        },
+      ],
+      plan: { planId: 'plan_1', steps: [] },
+    });
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * Client/Agent Interop Tests
+ *
+ * Connects a real ACPClient to a real ACPAgent over a pair of
+ * StdioTransports joined by in-process pipes, so every message goes
+ * through newline-delimited JSON framing in both directions.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { PassThrough } from "stream";
+import { ACPAgent } from "../../src/agent/ACPAgent.js";
+import { ACPClient } from "../../src/client/ACPClient.js";
+import { StdioTransport } from "../../src/transport/stdio.js";
+import {
+  type ACPError,
+  PermissionDeniedError,
+  ResourceNotFoundError,
+} from "../../src/protocol/errors.js";
+import { ErrorCodes } from "../../src/types/jsonrpc.js";
+import type {
+  ACPClientOptions,
+  FileSystemHandler,
+} from "../../src/client/types.js";
+import type { ACPAgentOptions } from "../../src/agent/types.js";
+
+const files: Record<string, string> = {
+  "/project/README.md": "# Project",
+};
+
+const fileSystem: FileSystemHandler = {
+  async readTextFile(path) {
+    const content = files[path];
+    if (content === undefined) {
+      throw new ResourceNotFoundError("File", path);
+    }
+    return { content, encoding: "utf-8" };
+  },
+  async writeTextFile(path) {
+    throw new PermissionDeniedError(`Read-only: ${path}`);
+  },
+};
+
+/**
+ * Start an agent and connect a client to it.
+ */
+async function connectPair(
+  options: Partial<ACPAgentOptions> = {},
+  clientOptions: Partial<ACPClientOptions> = {}
+): Promise<{ agent: ACPAgent; client: ACPClient }> {
+  const toAgent = new PassThrough();
+  const toClient = new PassThrough();
+
+  const agent = new ACPAgent(
+    new StdioTransport({ mode: "agent", input: toAgent, output: toClient }),
+    { name: "InteropAgent", version: "1.0.0", ...options }
+  );
+  const client = new ACPClient(
+    new StdioTransport({ input: toClient, output: toAgent }),
+    {
+      name: "InteropClient",
+      version: "1.0.0",
+      fileSystem: { read: true, write: true },
+      ...clientOptions,
+    }
+  );
+  client.setFileSystemHandler(fileSystem);
+
+  await agent.start();
+  await client.connect();
+  return { agent, client };
+}
+
+describe("ACPClient with ACPAgent over stdio", () => {
+  let agent: ACPAgent;
+  let client: ACPClient;
+
+  beforeEach(async () => {
+    ({ agent, client } = await connectPair());
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await agent.stop();
+  });
+
+  it("should initialize and create a session", async () => {
+    expect(client.agentInfo?.name).toBe("InteropAgent");
+
+    const session = await client.createSession({
+      workingDirectory: "/project",
+    });
+
+    expect(session.id).toMatch(/^sess_/);
+  });
+
+  it("should have the agent's commands right after creating a session", async () => {
+    agent.registerCommand({
+      name: "review",
+      description: "Review a file",
+      async handler() {
+        return "end_turn";
+      },
+    });
+
+    const session = await client.createSession({
+      workingDirectory: "/project",
+    });
+
+    expect(session.availableCommands.map((command) => command.name)).toEqual([
+      "review",
+    ]);
+  });
+
+  it("should know the labels of the agent's modes", async () => {
+    agent.registerMode({ id: "plan", label: "Plan", description: "Plan first" });
+    agent.registerMode({ id: "review", label: "Review" });
+
+    const session = await client.createSession({
+      workingDirectory: "/project",
+    });
+    expect(session.modes).toEqual([
+      { id: "plan", label: "Plan", description: "Plan first" },
+      { id: "review", label: "Review" },
+    ]);
+
+    const modeChanged = new Promise((resolve) => session.on("modeChange", resolve));
+    await agent.getSession(session.id)?.setMode("review");
+    await modeChanged;
+    expect(session.currentMode).toBe("review");
+  });
+
+  it("should answer agent requests with JSON-RPC responses", async () => {
+    agent.setPromptHandler({
+      async handlePrompt(session) {
+        const readme = await session.readFile("/project/README.md");
+        await session.sendAgentMessage(`Read: ${readme}`);
+        return "end_turn";
+      },
+    });
+    const session = await client.createSession({
+      workingDirectory: "/project",
+    });
+    const messages: unknown[] = [];
+    session.on("update", (update) => {
+      if (update.type === "agent_message_chunk") {
+        messages.push(update.data.content);
+      }
+    });
+
+    const result = await session.prompt([{ type: "text", text: "Read it" }]);
+
+    expect(result.stopReason).toBe("end_turn");
+    expect(messages).toEqual(["Read: # Project"]);
+  });
+
+  it("should preserve error codes from client handlers", async () => {
+    const errors: unknown[] = [];
+    agent.setPromptHandler({
+      async handlePrompt(session) {
+        await session.readFile("/project/missing.ts").catch((error) => {
+          errors.push(error);
+        });
+        await session.writeFile("/project/README.md", "").catch((error) => {
+          errors.push(error);
+        });
+        return "end_turn";
+      },
+    });
+    const session = await client.createSession({
+      workingDirectory: "/project",
+    });
+
+    await session.prompt([{ type: "text", text: "Go" }]);
+
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toBeInstanceOf(ResourceNotFoundError);
+    expect((errors[0] as ACPError).message).toContain("/project/missing.ts");
+    expect(errors[1]).toBeInstanceOf(PermissionDeniedError);
+    expect((errors[1] as ACPError).code).toBe(ErrorCodes.PermissionDenied);
+  });
+
+  it("should reject client requests with the agent's error code", async () => {
+    await expect(
+      client.sendRequest("session/prompt", {
+        sessionId: "sess_unknown",
+        content: [{ type: "text", text: "Hi" }],
+      })
+    ).rejects.toMatchObject({ code: ErrorCodes.SessionNotFound });
+  });
+});
+
+describe("typed config options over stdio", () => {
+  let agent: ACPAgent;
+  let client: ACPClient;
+
+  beforeEach(async () => {
+    ({ agent, client } = await connectPair({
+      configOptions: [
+        { key: "verbose", label: "Verbose", type: "boolean", default: false },
+        { key: "temp", label: "Temperature", type: "number", min: 0, max: 2 },
+        {
+          key: "model",
+          label: "Model",
+          type: "enum",
+          choices: [
+            { value: "fast", label: "Fast" },
+            { value: "smart", label: "Smart" },
+          ],
+          default: "fast",
+        },
+      ],
+    }));
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await agent.stop();
+  });
+
+  it("should set boolean, number and enum options", async () => {
+    const values: Record<string, unknown> = {};
+    agent.on("configChanged", (_session, key, value) => {
+      values[key] = value;
+    });
+    const session = await client.createSession({
+      workingDirectory: "/project",
+    });
+
+    await session.setConfigOption("verbose", "true");
+    await session.setConfigOption("temp", "1");
+    await session.setConfigOption("model", "smart");
+
+    expect(values).toEqual({ verbose: true, temp: 1, model: "smart" });
+    expect(
+      session.configOptions.map((option) => [option.id, option.currentValueId])
+    ).toEqual([
+      ["verbose", "true"],
+      ["temp", "1"],
+      ["model", "smart"],
+    ]);
+  });
+
+  it("should still reject values of the wrong type", async () => {
+    const session = await client.createSession({
+      workingDirectory: "/project",
+    });
+
+    await expect(session.setConfigOption("verbose", "yes")).rejects.toMatchObject(
+      { code: ErrorCodes.InvalidParams }
+    );
+    await expect(session.setConfigOption("temp", "5")).rejects.toMatchObject({
+      code: ErrorCodes.InvalidParams,
+    });
+  });
+});
+
+describe("agent request timeouts over stdio", () => {
+  let agent: ACPAgent;
+  let client: ACPClient;
+
+  beforeEach(async () => {
+    ({ agent, client } = await connectPair(
+      {},
+      { requestTimeout: 10 * 60 * 1000 }
+    ));
+    vi.useFakeTimers();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await client.disconnect();
+    await agent.stop();
+  });
+
+  it("should wait for permission longer than the transport's default timeout", async () => {
+    client.setPermissionHandler({
+      requestPermission: () =>
+        new Promise((resolve) => {
+          setTimeout(() => resolve({ granted: true }), 60 * 1000);
+        }),
+    });
+    const outcomes: unknown[] = [];
+    agent.setPromptHandler({
+      async handlePrompt(session) {
+        outcomes.push(
+          await session.requestPermission(
+            { id: "tc_1", tool: "edit", input: {}, status: "pending" },
+            [{ id: "allow", kind: "allow_once", label: "Allow" }]
+          )
+        );
+        return "end_turn";
+      },
+    });
+    const session = await client.createSession({
+      workingDirectory: "/project",
+    });
+
+    const prompt = session.prompt([{ type: "text", text: "Edit it" }]);
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+
+    await expect(prompt).resolves.toMatchObject({ stopReason: "end_turn" });
+    expect(outcomes).toEqual([expect.objectContaining({ granted: true })]);
+  });
+});
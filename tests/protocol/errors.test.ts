@@ -20,6 +20,9 @@ import {
   CapabilityNotSupportedError,
   RateLimitedError,
   TimeoutError,
+  ConnectionLostError,
+  fromJsonRpcError,
+  registerErrorClass,
 } from "../../src/protocol/errors.js";
 import { ErrorCodes } from "../../src/types/jsonrpc.js";
 
@@ -690,6 +693,26 @@ describe("error classes", () => {
     });
   });
 
+  describe("ConnectionLostError", () => {
+    it("should be an internal error", () => {
+      const error = new ConnectionLostError();
+
+      expect(error).toBeInstanceOf(InternalError);
+      expect(error.code).toBe(ErrorCodes.InternalError);
+      expect(error.message).toBe("Connection lost");
+      expect(error.name).toBe("ConnectionLostError");
+    });
+
+    it("should include the method of the lost request", () => {
+      const error = new ConnectionLostError("session/prompt");
+
+      expect(error.message).toBe(
+        "Connection lost before session/prompt completed"
+      );
+      expect(error.data).toEqual({ method: "session/prompt" });
+    });
+  });
+
   describe("error inheritance and type checking", () => {
     it("should maintain instanceof checks for all errors", () => {
       const errors = [
@@ -744,3 +767,83 @@ describe("error classes", () => {
     });
   });
 });
+
+describe("fromJsonRpcError", () => {
+  it("should round-trip every error class", () => {
+    const errors = [
+      new ParseError(),
+      new InvalidRequestError(),
+      new MethodNotFoundError("test/method"),
+      new InvalidParamsError("Bad params", { field: "path" }),
+      new InternalError(),
+      new SessionNotFoundError("sess_1"),
+      new AuthRequiredError(),
+      new PermissionDeniedError("write"),
+      new OperationCancelledError(),
+      new ResourceNotFoundError("File", "/a.ts"),
+      new ResourceAccessDeniedError("File", "/b.ts"),
+      new InvalidSessionStateError("sess_1", "closed", "active"),
+      new CapabilityNotSupportedError("terminal"),
+      new RateLimitedError(10),
+      new TimeoutError("fs/read_text_file", 1000),
+    ];
+
+    for (const error of errors) {
+      const rehydrated = fromJsonRpcError(error.toJsonRpcError());
+
+      expect(rehydrated).toBeInstanceOf(error.constructor);
+      expect(rehydrated.name).toBe(error.name);
+      expect(rehydrated.toJsonRpcError()).toEqual(error.toJsonRpcError());
+    }
+  });
+
+  it("should keep the message and data from the wire", () => {
+    const error = fromJsonRpcError({
+      code: ErrorCodes.PermissionDenied,
+      message: "User rejected the edit",
+      data: { operation: "edit", path: "/a.ts" },
+    });
+
+    expect(error).toBeInstanceOf(PermissionDeniedError);
+    expect(error.message).toBe("User rejected the edit");
+    expect(error.data).toEqual({ operation: "edit", path: "/a.ts" });
+  });
+
+  it("should fall back to ACPError for unknown codes", () => {
+    const error = fromJsonRpcError({ code: -31000, message: "Custom failure" });
+
+    expect(error.constructor).toBe(ACPError);
+    expect(error.code).toBe(-31000);
+    expect(error.message).toBe("Custom failure");
+    expect(error.data).toBeUndefined();
+  });
+
+  it("should keep the retry delay of rate limit errors", () => {
+    const error = fromJsonRpcError(new RateLimitedError(30).toJsonRpcError());
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error.data).toEqual({ retryAfter: 30 });
+  });
+
+  it("should use error classes registered for custom codes", () => {
+    class QuotaExceededError extends ACPError {
+      constructor() {
+        super(-31001, "Quota exceeded");
+        this.name = "QuotaExceededError";
+        Object.setPrototypeOf(this, QuotaExceededError.prototype);
+      }
+    }
+    registerErrorClass(-31001, () => new QuotaExceededError());
+
+    const error = fromJsonRpcError({
+      code: -31001,
+      message: "Monthly quota exceeded",
+      data: { limit: 100 },
+    });
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error.name).toBe("QuotaExceededError");
+    expect(error.message).toBe("Monthly quota exceeded");
+    expect(error.data).toEqual({ limit: 100 });
+  });
+});
@@ -207,7 +207,7 @@ describe("ProtocolHandler", () => {
       });
     });
 
-    it("should wrap non-ACPError as internal error", async () => {
+    it("should wrap non-ACPError as internal error without its stack", async () => {
       const mockHandler = vi
         .fn()
         .mockRejectedValue(new Error("Unexpected error"));
@@ -219,15 +219,12 @@ describe("ProtocolHandler", () => {
         method: "test/method",
       });
 
-      expect(response).toMatchObject({
+      expect(response).toEqual({
         jsonrpc: "2.0",
         id: 1,
         error: {
           code: ErrorCodes.InternalError,
           message: "Unexpected error",
-          data: expect.objectContaining({
-            stack: expect.any(String),
-          }),
         },
       });
     });
@@ -330,6 +327,208 @@ describe("ProtocolHandler", () => {
     });
   });
 
+  describe("middleware", () => {
+    it("should run middleware in order around the handler", async () => {
+      const calls: string[] = [];
+      handler.use(async (_ctx, next) => {
+        calls.push("first:before");
+        await next();
+        calls.push("first:after");
+      });
+      handler.use(async (_ctx, next) => {
+        calls.push("second:before");
+        await next();
+        calls.push("second:after");
+      });
+      handler.onRequest("test/method", async () => {
+        calls.push("handler");
+        return "ok";
+      });
+
+      await handler.handleMessage({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "test/method",
+      });
+
+      expect(calls).toEqual([
+        "first:before",
+        "second:before",
+        "handler",
+        "second:after",
+        "first:after",
+      ]);
+    });
+
+    it("should expose method, params and result", async () => {
+      const seen: unknown[] = [];
+      handler.use(async (ctx, next) => {
+        seen.push([ctx.type, ctx.id, ctx.method, ctx.params]);
+        await next();
+        seen.push(ctx.result);
+      });
+      handler.onRequest("test/method", async (params) => params);
+
+      await handler.handleMessage({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "test/method",
+        params: { value: 42 },
+      });
+
+      expect(seen).toEqual([
+        ["request", 1, "test/method", { value: 42 }],
+        { value: 42 },
+      ]);
+    });
+
+    it("should let middleware replace params and result", async () => {
+      handler.use(async (ctx, next) => {
+        ctx.params = { value: 1 };
+        await next();
+        ctx.result = { wrapped: ctx.result };
+      });
+      handler.onRequest("test/method", async (params) => params);
+
+      const response = await handler.handleMessage({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "test/method",
+        params: { value: 42 },
+      });
+
+      expect(response).toEqual({
+        jsonrpc: "2.0",
+        id: 1,
+        result: { wrapped: { value: 1 } },
+      });
+    });
+
+    it("should short-circuit when next is not called", async () => {
+      const mockHandler = vi.fn();
+      handler.use(async (ctx) => {
+        ctx.result = "cached";
+      });
+      handler.onRequest("test/method", mockHandler);
+
+      const response = await handler.handleMessage({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "test/method",
+      });
+
+      expect(mockHandler).not.toHaveBeenCalled();
+      expect(response?.result).toBe("cached");
+    });
+
+    it("should surface handler errors to middleware", async () => {
+      const errors: unknown[] = [];
+      handler.use(async (_ctx, next) => {
+        try {
+          await next();
+        } catch (error) {
+          errors.push(error);
+          throw error;
+        }
+      });
+
+      const response = await handler.handleMessage({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "unknown/method",
+      });
+
+      expect(errors).toEqual([expect.any(MethodNotFoundError)]);
+      expect(response?.error?.code).toBe(ErrorCodes.MethodNotFound);
+    });
+
+    it("should map errors thrown by middleware", async () => {
+      handler.use(async () => {
+        throw new InvalidParamsError("Rejected by middleware");
+      });
+      handler.onRequest("test/method", vi.fn());
+
+      const response = await handler.handleMessage({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "test/method",
+      });
+
+      expect(response?.error).toEqual({
+        code: ErrorCodes.InvalidParams,
+        message: "Rejected by middleware",
+      });
+    });
+
+    it("should let middleware recover from errors", async () => {
+      handler.use(async (ctx, next) => {
+        try {
+          await next();
+        } catch {
+          ctx.result = "fallback";
+        }
+      });
+      handler.onRequest("test/method", vi.fn().mockRejectedValue(new Error("boom")));
+
+      const response = await handler.handleMessage({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "test/method",
+      });
+
+      expect(response?.result).toBe("fallback");
+    });
+
+    it("should reject calling next() twice", async () => {
+      handler.use(async (_ctx, next) => {
+        await next();
+        await next();
+      });
+      handler.onRequest("test/method", vi.fn());
+
+      const response = await handler.handleMessage({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "test/method",
+      });
+
+      expect(response?.error?.message).toBe("next() called multiple times");
+    });
+
+    it("should run middleware for notifications", async () => {
+      const seen: unknown[] = [];
+      handler.use(async (ctx, next) => {
+        seen.push([ctx.type, ctx.id, ctx.method]);
+        await next();
+      });
+      const mockHandler = vi.fn();
+      handler.onNotification("test/notification", mockHandler);
+
+      await handler.handleMessage({
+        jsonrpc: "2.0",
+        method: "test/notification",
+        params: { message: "hello" },
+      });
+
+      expect(seen).toEqual([["notification", undefined, "test/notification"]]);
+      expect(mockHandler).toHaveBeenCalledWith({ message: "hello" });
+    });
+
+    it("should report notification errors to onNotificationError", async () => {
+      const onNotificationError = vi.fn();
+      handler = new ProtocolHandler({ onNotificationError });
+      const error = new Error("Handler error");
+      handler.onNotification("test/notification", vi.fn().mockRejectedValue(error));
+
+      await handler.handleMessage({
+        jsonrpc: "2.0",
+        method: "test/notification",
+      });
+
+      expect(onNotificationError).toHaveBeenCalledWith("test/notification", error);
+    });
+  });
+
   describe("static factory methods", () => {
     describe("createResponse", () => {
       it("should create success response", () => {
@@ -11,13 +11,19 @@ import {
   isNotification,
   isError,
   parseMessage,
+  parseParams,
   serializeMessage,
   isValidMessage,
   isValidRequest,
   isValidResponse,
   isValidNotification,
 } from "../../src/protocol/message.js";
-import { ParseError, InvalidRequestError } from "../../src/protocol/errors.js";
+import {
+  ParseError,
+  InvalidRequestError,
+  InvalidParamsError,
+} from "../../src/protocol/errors.js";
+import { SessionLoadRequestSchema } from "../../src/types/protocol.js";
 import { ErrorCodes } from "../../src/types/jsonrpc.js";
 
 describe("message utilities", () => {
@@ -435,6 +441,38 @@ describe("message utilities", () => {
     });
   });
 
+  describe("parseParams", () => {
+    it("should return valid params", () => {
+      const params = parseParams("session/load", SessionLoadRequestSchema, {
+        sessionId: "sess_123",
+      });
+
+      expect(params).toEqual({ sessionId: "sess_123" });
+    });
+
+    it("should throw InvalidParamsError for invalid params", () => {
+      expect(() =>
+        parseParams("session/load", SessionLoadRequestSchema, { sessionId: "" })
+      ).toThrow(InvalidParamsError);
+    });
+
+    it("should include the method and zod issues in the error data", () => {
+      try {
+        parseParams("session/load", SessionLoadRequestSchema, undefined);
+        expect.fail("Should have thrown");
+      } catch (error) {
+        expect(error).toBeInstanceOf(InvalidParamsError);
+        const paramsError = error as InvalidParamsError;
+        expect(paramsError.code).toBe(ErrorCodes.InvalidParams);
+        expect(paramsError.message).toBe("Invalid params for session/load");
+        expect(paramsError.data).toEqual({
+          method: "session/load",
+          issues: [expect.objectContaining({ code: "invalid_type", path: [] })],
+        });
+      }
+    });
+  });
+
   describe("serializeMessage", () => {
     it("should serialize request", () => {
       const message = {
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { EventEmitter } from 'events';
 import { StdioTransport, HttpTransport } from '../../src/transport/index.js';
+import { ParseError, TimeoutError } from '../../src/protocol/errors.js';
 import type { ChildProcess } from 'child_process';
 
 // Mock modules
@@ -294,14 +295,68 @@ describe('StdioTransport', () => {
 
       await transport.start();
 
-      await expect(
-        transport.request({
-          jsonrpc: '2.0',
-          id: 1,
-          method: 'test',
-          params: {},
-        })
-      ).rejects.toThrow('Request 1 timed out after 100ms');
+      const requestPromise = transport.request({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'test',
+        params: {},
+      });
+
+      await expect(requestPromise).rejects.toBeInstanceOf(TimeoutError);
+      await expect(requestPromise).rejects.toMatchObject({
+        data: { operation: 'test', timeoutMs: 100 },
+      });
+    });
+
+    it('should use the timeout of the request over the default', async () => {
+      vi.useFakeTimers();
+      try {
+        const transport = new StdioTransport({
+          mode: 'client',
+          command: 'node',
+        });
+
+        await transport.start();
+
+        const requestPromise = transport.request(
+          { jsonrpc: '2.0', id: 1, method: 'test', params: {} },
+          { timeout: 0 }
+        );
+        const settled = vi.fn();
+        requestPromise.then(settled, settled);
+
+        await vi.advanceTimersByTimeAsync(60000);
+        expect(settled).not.toHaveBeenCalled();
+
+        mockReadline.emit(
+          'line',
+          JSON.stringify({ jsonrpc: '2.0', id: 1, result: { ok: true } })
+        );
+
+        await expect(requestPromise).resolves.toMatchObject({
+          result: { ok: true },
+        });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should forget a request when its signal is aborted', async () => {
+      const transport = new StdioTransport({
+        mode: 'client',
+        command: 'node',
+      });
+      await transport.start();
+      const controller = new AbortController();
+
+      const requestPromise = transport.request(
+        { jsonrpc: '2.0', id: 1, method: 'test', params: {} },
+        { timeout: 0, signal: controller.signal }
+      );
+      controller.abort(new Error('Turn cancelled'));
+
+      await expect(requestPromise).rejects.toThrow('Turn cancelled');
+      expect((transport as any).pendingRequests.size).toBe(0);
     });
 
     it('should write request to stdin', async () => {
@@ -365,6 +420,50 @@ describe('StdioTransport', () => {
     });
   });
 
+  describe('respond()', () => {
+    it('should write the response to stdin', async () => {
+      const transport = new StdioTransport({
+        mode: 'client',
+        command: 'node',
+      });
+
+      await transport.start();
+
+      const response = { jsonrpc: '2.0' as const, id: 3, result: { ok: true } };
+      await transport.respond(response);
+
+      expect(stdinMock.write).toHaveBeenCalledWith(
+        JSON.stringify(response) + '\n'
+      );
+    });
+
+    it('should write to the output stream when streams are given', async () => {
+      const input = new EventEmitter() as any;
+      const output = { write: vi.fn() } as any;
+      const transport = new StdioTransport({ input, output });
+
+      await transport.start();
+      await transport.respond({ jsonrpc: '2.0', id: 3, result: null });
+
+      const { spawn } = await import('child_process');
+      expect(spawn).not.toHaveBeenCalled();
+      expect(output.write).toHaveBeenCalledWith(
+        '{"jsonrpc":"2.0","id":3,"result":null}\n'
+      );
+    });
+
+    it('should throw error if transport not connected', async () => {
+      const transport = new StdioTransport({
+        mode: 'client',
+        command: 'node',
+      });
+
+      await expect(
+        transport.respond({ jsonrpc: '2.0', id: 3, result: null })
+      ).rejects.toThrow('Transport not connected');
+    });
+  });
+
   describe('message handling', () => {
     it('should emit message event for incoming messages', async () => {
       const transport = new StdioTransport({
@@ -444,6 +543,34 @@ describe('StdioTransport', () => {
         })
       );
     });
+
+    it('should emit typed errors the peer could not attribute to a request', async () => {
+      const transport = new StdioTransport({
+        mode: 'client',
+        command: 'node',
+      });
+
+      const errorHandler = vi.fn();
+      const messageHandler = vi.fn();
+      transport.on('error', errorHandler);
+      transport.on('message', messageHandler);
+
+      await transport.start();
+
+      mockReadline.emit(
+        'line',
+        JSON.stringify({
+          jsonrpc: '2.0',
+          id: null,
+          error: { code: -32700, message: 'Parse error: Unexpected token' },
+        })
+      );
+
+      expect(messageHandler).not.toHaveBeenCalled();
+      const error = errorHandler.mock.calls[0]?.[0];
+      expect(error).toBeInstanceOf(ParseError);
+      expect(error.message).toBe('Parse error: Unexpected token');
+    });
   });
 
   describe('close()', () => {
@@ -824,6 +951,39 @@ describe('HttpTransport', () => {
       });
     });
 
+    it('should reject with the typed error when the agent cannot read the request', async () => {
+      const http = await import('http');
+      const transport = new HttpTransport({
+        mode: 'client',
+        url: 'http://localhost:3000',
+        maxRetries: 2,
+      });
+
+      await transport.start();
+
+      const requestPromise = transport.request({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'test',
+        params: {},
+      });
+
+      const callback = vi.mocked(http.request).mock.calls[0][1];
+      callback?.(mockResponse);
+      mockResponse.emit(
+        'data',
+        JSON.stringify({
+          jsonrpc: '2.0',
+          id: null,
+          error: { code: -32700, message: 'Parse error: Unexpected end' },
+        })
+      );
+      mockResponse.emit('end');
+
+      await expect(requestPromise).rejects.toBeInstanceOf(ParseError);
+      expect(http.request).toHaveBeenCalledTimes(1);
+    });
+
     it('should throw error if transport not connected', async () => {
       const transport = new HttpTransport({
         mode: 'client',
@@ -961,7 +1121,7 @@ describe('HttpTransport', () => {
         params: {},
       });
 
-      await expect(requestPromise).rejects.toThrow('Request timed out after 100ms');
+      await expect(requestPromise).rejects.toBeInstanceOf(TimeoutError);
     });
 
     it('should handle timeout event', async () => {
@@ -1002,7 +1162,7 @@ describe('HttpTransport', () => {
       });
 
       await expect(requestPromise).rejects.toThrow(
-        'Request timed out after 1000ms'
+        'Operation timed out: test'
       );
       expect(capturedRequest.destroy).toHaveBeenCalled();
     });
@@ -1223,6 +1383,29 @@ describe('HttpTransport', () => {
     });
   });
 
+  describe('respond() in client mode', () => {
+    it('should POST the response', async () => {
+      const http = await import('http');
+      const transport = new HttpTransport({
+        mode: 'client',
+        url: 'http://localhost:3000',
+      });
+
+      await transport.start();
+
+      const response = { jsonrpc: '2.0' as const, id: 5, result: { ok: true } };
+      const respondPromise = transport.respond(response);
+
+      const callback = vi.mocked(http.request).mock.calls[0][1];
+      callback?.(mockResponse);
+      mockResponse.emit('end');
+
+      await respondPromise;
+
+      expect(mockRequest.write).toHaveBeenCalledWith(JSON.stringify(response));
+    });
+  });
+
   describe('agent mode request handling', () => {
     it('should handle valid JSON-RPC request', async () => {
       const http = await import('http');
@@ -1266,7 +1449,45 @@ describe('HttpTransport', () => {
       await new Promise((resolve) => setTimeout(resolve, 0));
 
       expect(messageHandler).toHaveBeenCalled();
+      // The HTTP response waits for the application's JSON-RPC response
+      expect(mockRes.writeHead).not.toHaveBeenCalled();
+
+      const response = { jsonrpc: '2.0' as const, id: 1, result: { ok: true } };
+      await transport.respond(response);
+
       expect(mockRes.writeHead).toHaveBeenCalledWith(200, expect.any(Object));
+      expect(mockRes.end).toHaveBeenCalledWith(JSON.stringify(response));
+      await expect(transport.respond(response)).rejects.toThrow(
+        'No pending request with ID 1'
+      );
+    });
+
+    it('should answer unanswered requests when closed', async () => {
+      const http = await import('http');
+      const transport = new HttpTransport({ mode: 'agent' });
+      await transport.start();
+
+      const requestHandler = vi.mocked(http.createServer).mock.calls[0][0];
+      const mockReq = new EventEmitter() as any;
+      mockReq.method = 'POST';
+      mockReq.url = '/jsonrpc';
+      const mockRes = { writeHead: vi.fn(), end: vi.fn() };
+
+      requestHandler(mockReq, mockRes);
+      mockReq.emit(
+        'data',
+        JSON.stringify({ jsonrpc: '2.0', id: 7, method: 'test' })
+      );
+      mockReq.emit('end');
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      await transport.close();
+
+      expect(mockRes.writeHead).toHaveBeenCalledWith(503, expect.any(Object));
+      expect(JSON.parse(mockRes.end.mock.calls[0][0])).toMatchObject({
+        id: 7,
+        error: { message: 'Transport closed' },
+      });
     });
 
     it('should handle notification with 204 response', async () => {
@@ -50,6 +50,7 @@ import {
   isPlanUpdate,
   isAgentMessageChunkUpdate,
   isToolCallUpdate,
+  ConfigOptionDefinitionSchema,
   type SessionUpdate,
 } from "../../src/types/session.js";
 
@@ -794,6 +795,56 @@ describe("SessionUpdateSchema", () => {
   });
 });
 
+describe("ConfigOptionDefinitionSchema", () => {
+  it("should validate each option type", () => {
+    const definitions = [
+      {
+        key: "model",
+        label: "Model",
+        type: "enum",
+        choices: [{ value: "fast", label: "Fast" }],
+        default: "fast",
+      },
+      { key: "autoApprove", label: "Auto-approve", type: "boolean" },
+      { key: "temperature", label: "Temperature", type: "number", min: 0, max: 1 },
+      { key: "persona", label: "Persona", type: "string", maxLength: 20 },
+    ];
+
+    for (const definition of definitions) {
+      expect(ConfigOptionDefinitionSchema.parse(definition)).toEqual(definition);
+    }
+  });
+
+  it("should reject enum options without choices", () => {
+    const result = ConfigOptionDefinitionSchema.safeParse({
+      key: "model",
+      label: "Model",
+      type: "enum",
+      choices: [],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject defaults of the wrong type", () => {
+    const result = ConfigOptionDefinitionSchema.safeParse({
+      key: "autoApprove",
+      label: "Auto-approve",
+      type: "boolean",
+      default: "yes",
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject unknown types", () => {
+    const result = ConfigOptionDefinitionSchema.safeParse({
+      key: "color",
+      label: "Color",
+      type: "color",
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
 describe("Session Type Guards", () => {
   it("isPlanUpdate should return true for plan updates", () => {
     const update: SessionUpdate = {